@@ -0,0 +1,113 @@
+/**
+ * @file This module converts the keys of request and response payloads between the camelCase
+ * used by the generated types and the kebab-case used by the Penpot backend.
+ *
+ * @remarks
+ * Only the *names* of fields are converted. Objects that Penpot uses as maps keep their keys:
+ * a key is left untouched unless it looks like an identifier, and UUIDs (the keys of `objects`,
+ * `pagesIndex` and most other maps in file data) are never converted, although they would
+ * otherwise look like kebab-case words. The values of those maps are still converted, since
+ * they are regular records such as shapes or pages.
+ *
+ * Only plain objects and arrays are traversed; `Date`, `Blob`, typed arrays and other class
+ * instances are passed through unchanged.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { UUID_PATTERN } from "./transit.ts";
+
+/** Matches camelCase identifiers, e.g. `fileId` or `pagesIndex`. */
+const CAMEL_PATTERN = /^[a-z][a-zA-Z0-9]*$/;
+
+/** Matches kebab-case identifiers, e.g. `file-id` or `pages-index`. */
+const KEBAB_PATTERN = /^[a-z][a-z0-9]*(-[a-z0-9]+)+$/;
+
+/**
+ * @internal
+ * Converts a camelCase string to kebab-case.
+ * This utility function is used internally for converting JavaScript object keys
+ * to the kebab-case format expected by the Penpot backend.
+ *
+ * @param {string} str - The camelCase string to convert (e.g., "projectId").
+ * @returns {string} The kebab-cased string (e.g., "project-id").
+ *
+ * @example
+ * ```typescript
+ * const kebabCaseString = camelToKebab("someCamelCaseString"); // Returns "some-camel-case-string"
+ * ```
+ */
+export function camelToKebab(str: string): string {
+  return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, "$1-$2").toLowerCase();
+}
+
+/**
+ * @internal
+ * Converts a kebab-case string to camelCase.
+ *
+ * @param {string} str - The kebab-case string to convert (e.g., "project-id").
+ * @returns {string} The camelCased string (e.g., "projectId").
+ */
+export function kebabToCamel(str: string): string {
+  return str.replace(/-([a-z0-9])/g, (_, char: string) => char.toUpperCase());
+}
+
+/**
+ * Checks whether a value is a plain object literal, as produced by `JSON.parse` or `{}`.
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== "object") return false;
+  const proto = Object.getPrototypeOf(value);
+  return proto === Object.prototype || proto === null;
+}
+
+/**
+ * Recursively renames the keys of plain objects that match `pattern` using `convert`.
+ */
+function transformKeys(
+  value: unknown,
+  pattern: RegExp,
+  convert: (key: string) => string
+): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => transformKeys(item, pattern, convert));
+  }
+  if (!isPlainObject(value)) return value;
+
+  const result: Record<string, unknown> = {};
+  for (const [key, item] of Object.entries(value)) {
+    const name =
+      pattern.test(key) && !UUID_PATTERN.test(key) ? convert(key) : key;
+    result[name] = transformKeys(item, pattern, convert);
+  }
+  return result;
+}
+
+/**
+ * @internal
+ * Converts the camelCase keys of a payload to kebab-case, leaving map keys such as UUIDs untouched.
+ *
+ * @param {unknown} value - The payload to convert.
+ * @returns {unknown} A converted copy of the payload; non-plain values are returned as-is.
+ *
+ * @example
+ * ```typescript
+ * toKebabKeys({ fileId: "f1", pagesIndex: { "a03ea8b8-fc8a-8124-8006-78afc3fac2fa": { pageName: "Home" } } });
+ * // => { "file-id": "f1", "pages-index": { "a03ea8b8-fc8a-8124-8006-78afc3fac2fa": { "page-name": "Home" } } }
+ * ```
+ */
+export function toKebabKeys(value: unknown): unknown {
+  return transformKeys(value, CAMEL_PATTERN, camelToKebab);
+}
+
+/**
+ * @internal
+ * Converts the kebab-case keys of a payload to camelCase, leaving map keys such as UUIDs untouched.
+ *
+ * @param {unknown} value - The payload to convert.
+ * @returns {unknown} A converted copy of the payload; non-plain values are returned as-is.
+ */
+export function toCamelKeys(value: unknown): unknown {
+  return transformKeys(value, KEBAB_PATTERN, kebabToCamel);
+}
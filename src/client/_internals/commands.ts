@@ -0,0 +1,54 @@
+/**
+ * @file This module provides helper types that map Penpot RPC command names to the
+ * request and response shapes declared in the generated OpenAPI `paths`.
+ *
+ * @remarks
+ * Every Penpot RPC command lives under `/command/<name>` and is invoked with `POST`.
+ * Spelling out `paths["/command/<name>"]["post"]["requestBody"]["content"]["application/json"]`
+ * for every service method is noisy and error-prone, so the service classes use
+ * {@link CommandBody} and {@link CommandResult} instead. Both are purely type-level
+ * and produce no runtime code.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import type { paths } from "../generated/types.ts";
+
+/**
+ * @internal
+ * The union of all RPC command names declared in `openapi.json`
+ * (e.g., `"get-profile"`, `"create-project"`).
+ */
+export type CommandName = {
+  [P in keyof paths]: P extends `/command/${infer Name}` ? Name : never;
+}[keyof paths];
+
+/**
+ * @internal
+ * The JSON request body accepted by the given RPC command, as declared in the generated types.
+ *
+ * @template C - The RPC command name.
+ *
+ * @example
+ * ```typescript
+ * type GetProjectsParams = CommandBody<"get-projects">; // { teamId: Uuid }
+ * ```
+ */
+export type CommandBody<C extends CommandName> =
+  paths[`/command/${C}`]["post"]["requestBody"]["content"]["application/json"];
+
+/**
+ * @internal
+ * The JSON response body of the given RPC command. Most commands in `openapi.json`
+ * do not declare a response schema; for those this resolves to `unknown` and the
+ * service method is expected to supply a hand-written result type instead.
+ *
+ * @template C - The RPC command name.
+ */
+export type CommandResult<C extends CommandName> =
+  paths[`/command/${C}`]["post"] extends {
+    responses: { default: { content: { "application/json": infer R } } };
+  }
+    ? R
+    : unknown;
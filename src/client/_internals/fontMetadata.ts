@@ -0,0 +1,395 @@
+/**
+ * @file This module reads the family name, weight and style of a font directly from
+ * its binary tables, so that font variants can be uploaded to Penpot without asking
+ * the user to re-type metadata that the font file already contains.
+ *
+ * @remarks
+ * Supported containers:
+ * - **TTF / OTF** (`sfnt`): tables are read in place.
+ * - **WOFF**: compressed tables are inflated with the standard `DecompressionStream`.
+ * - **WOFF2**: the table directory is decoded and the Brotli-compressed table data is
+ *   decompressed with the `node:zlib` module, which Deno, Node.js and Bun provide. Browsers have no
+ *   Brotli decoder, so there {@link readFontMetadata} only reports the format and leaves the
+ *   metadata fields `undefined`. Font collections (`ttcf`) are not supported.
+ *
+ * The family is taken from the `name` table (typographic family, ID 16, falling back to
+ * the legacy family, ID 1). The weight comes from `OS/2.usWeightClass` and the style from
+ * the italic/oblique bits of `OS/2.fsSelection`.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+/**
+ * The font container formats Penpot accepts, keyed by their MIME type.
+ */
+export type FontMimeType = "font/ttf" | "font/otf" | "font/woff" | "font/woff2";
+
+/**
+ * The metadata extracted from a font file.
+ *
+ * @interface FontMetadata
+ * @property {FontMimeType} mtype - The MIME type of the container, detected from its signature.
+ * @property {string} [fontFamily] - The family name, e.g. `"Inter"`.
+ * @property {number} [fontWeight] - The numeric weight class, e.g. `400` or `700`.
+ * @property {"normal" | "italic"} [fontStyle] - The style of the variant.
+ */
+export interface FontMetadata {
+  mtype: FontMimeType;
+  fontFamily?: string;
+  fontWeight?: number;
+  fontStyle?: "normal" | "italic";
+}
+
+/** A table located in a font file, already decompressed. */
+type TableReader = (tag: string) => Promise<DataView | undefined>;
+
+/**
+ * The tags of the WOFF2 known-table list, indexed by the 6-bit tag index of a table directory entry.
+ * Index 63 means that the tag follows the flags explicitly.
+ */
+const WOFF2_KNOWN_TAGS = [
+  "cmap",
+  "head",
+  "hhea",
+  "hmtx",
+  "maxp",
+  "name",
+  "OS/2",
+  "post",
+  "cvt ",
+  "fpgm",
+  "glyf",
+  "loca",
+  "prep",
+  "CFF ",
+  "VORG",
+  "EBDT",
+  "EBLC",
+  "gasp",
+  "hdmx",
+  "kern",
+  "LTSH",
+  "PCLT",
+  "VDMX",
+  "vhea",
+  "vmtx",
+  "BASE",
+  "GDEF",
+  "GPOS",
+  "GSUB",
+  "EBSC",
+  "JSTF",
+  "MATH",
+  "CBDT",
+  "CBLC",
+  "COLR",
+  "CPAL",
+  "SVG ",
+  "sbix",
+  "acnt",
+  "avar",
+  "bdat",
+  "bloc",
+  "bsln",
+  "cvar",
+  "fdsc",
+  "feat",
+  "fmtx",
+  "fvar",
+  "gvar",
+  "hsty",
+  "just",
+  "lcar",
+  "mort",
+  "morx",
+  "opbd",
+  "prop",
+  "trak",
+  "Zapf",
+  "Silf",
+  "Glat",
+  "Gloc",
+  "Feat",
+  "Sill",
+];
+
+/** Name IDs of the `name` table entries that carry the family name, in order of preference. */
+const FAMILY_NAME_IDS = [16, 1];
+
+/**
+ * Reads a four-character table tag or signature at the given offset.
+ */
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3)
+  );
+}
+
+/**
+ * Inflates a zlib-compressed WOFF table using the runtime's `DecompressionStream`.
+ */
+async function inflate(bytes: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([bytes as BlobPart])
+    .stream()
+    .pipeThrough(new DecompressionStream("deflate"));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Creates a table reader for an uncompressed `sfnt` (TTF/OTF) font.
+ */
+function sfntTables(bytes: Uint8Array, view: DataView): TableReader {
+  const numTables = view.getUint16(4);
+  return (tag) => {
+    for (let i = 0; i < numTables; i++) {
+      const record = 12 + i * 16;
+      if (readTag(view, record) === tag) {
+        const offset = view.getUint32(record + 8);
+        const length = view.getUint32(record + 12);
+        return Promise.resolve(
+          new DataView(bytes.buffer, bytes.byteOffset + offset, length)
+        );
+      }
+    }
+    return Promise.resolve(undefined);
+  };
+}
+
+/**
+ * Creates a table reader for a WOFF font, inflating tables on demand.
+ */
+function woffTables(bytes: Uint8Array, view: DataView): TableReader {
+  const numTables = view.getUint16(12);
+  return async (tag) => {
+    for (let i = 0; i < numTables; i++) {
+      const entry = 44 + i * 20;
+      if (readTag(view, entry) === tag) {
+        const offset = view.getUint32(entry + 4);
+        const compLength = view.getUint32(entry + 8);
+        const origLength = view.getUint32(entry + 12);
+        const data = bytes.subarray(offset, offset + compLength);
+        const table = compLength < origLength ? await inflate(data) : data;
+        return new DataView(table.buffer, table.byteOffset, table.byteLength);
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Decompresses Brotli data with `node:zlib`, or returns `undefined` if the runtime has no such module,
+ * e.g. in browsers.
+ */
+async function brotliDecompress(
+  bytes: Uint8Array
+): Promise<Uint8Array | undefined> {
+  let zlib;
+  try {
+    zlib = await import("node:zlib");
+  } catch {
+    return undefined;
+  }
+  return new Uint8Array(zlib.brotliDecompressSync(bytes));
+}
+
+/**
+ * Reads a WOFF2 `UIntBase128` value: up to five bytes of seven bits each, most significant first.
+ *
+ * @returns {[number, number]} The value and the offset following it.
+ */
+function readUIntBase128(view: DataView, offset: number): [number, number] {
+  let value = 0;
+  for (let i = 0; i < 5; i++) {
+    const byte = view.getUint8(offset + i);
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) return [value, offset + i + 1];
+  }
+  throw new RangeError("Invalid UIntBase128 value in WOFF2 table directory");
+}
+
+/**
+ * Creates a table reader for a WOFF2 font. All tables share one Brotli stream, which is decompressed
+ * once, or `undefined` is returned if the runtime cannot decompress it.
+ */
+async function woff2Tables(
+  bytes: Uint8Array,
+  view: DataView
+): Promise<TableReader | undefined> {
+  // Collections have a collection directory after the table directory, which is not decoded here.
+  if (readTag(view, 4) === "ttcf") return undefined;
+  const numTables = view.getUint16(12);
+  const totalCompressedSize = view.getUint32(20);
+
+  const directory: Array<{ tag: string; offset: number; length: number }> = [];
+  let position = 48;
+  let offset = 0;
+  for (let i = 0; i < numTables; i++) {
+    const flags = view.getUint8(position++);
+    let tag = WOFF2_KNOWN_TAGS[flags & 0x3f];
+    if ((flags & 0x3f) === 63) {
+      tag = readTag(view, position);
+      position += 4;
+    }
+    let length;
+    [length, position] = readUIntBase128(view, position);
+    // `glyf` and `loca` are transformed unless their transform version is 3; other tables only if it is not 0.
+    const version = flags >> 6;
+    const transformed =
+      tag === "glyf" || tag === "loca" ? version !== 3 : version !== 0;
+    if (transformed) {
+      [length, position] = readUIntBase128(view, position);
+    }
+    directory.push({ tag, offset, length });
+    offset += length;
+  }
+
+  const tables = await brotliDecompress(
+    bytes.subarray(position, position + totalCompressedSize)
+  );
+  if (!tables) return undefined;
+  return (tag) => {
+    const entry = directory.find((table) => table.tag === tag);
+    return Promise.resolve(
+      entry &&
+        new DataView(
+          tables.buffer,
+          tables.byteOffset + entry.offset,
+          entry.length
+        )
+    );
+  };
+}
+
+/**
+ * Decodes a `name` table string according to its platform encoding.
+ * Unicode and Windows entries are UTF-16BE; Macintosh entries are treated as Latin-1.
+ */
+function decodeName(
+  table: DataView,
+  offset: number,
+  length: number,
+  platformId: number
+): string {
+  let result = "";
+  if (platformId === 0 || platformId === 3) {
+    for (let i = 0; i + 1 < length; i += 2) {
+      result += String.fromCharCode(table.getUint16(offset + i));
+    }
+  } else {
+    for (let i = 0; i < length; i++) {
+      result += String.fromCharCode(table.getUint8(offset + i));
+    }
+  }
+  return result;
+}
+
+/**
+ * Finds the family name in a `name` table, preferring Windows/Unicode English entries.
+ */
+function readFamilyName(table: DataView): string | undefined {
+  const count = table.getUint16(2);
+  const stringOffset = table.getUint16(4);
+
+  for (const nameId of FAMILY_NAME_IDS) {
+    let fallback: string | undefined;
+    for (let i = 0; i < count; i++) {
+      const record = 6 + i * 12;
+      if (table.getUint16(record + 6) !== nameId) continue;
+
+      const platformId = table.getUint16(record);
+      const languageId = table.getUint16(record + 4);
+      const value = decodeName(
+        table,
+        stringOffset + table.getUint16(record + 10),
+        table.getUint16(record + 8),
+        platformId
+      );
+      // 0x0409 is Windows "English (United States)"; Unicode entries have no language.
+      if (platformId === 0 || (platformId === 3 && languageId === 0x0409)) {
+        return value;
+      }
+      fallback ??= value;
+    }
+    if (fallback) return fallback;
+  }
+  return undefined;
+}
+
+/**
+ * Detects the container format of a font from its signature.
+ *
+ * @param {Uint8Array} bytes - The raw font file.
+ * @returns {FontMimeType | undefined} The MIME type, or `undefined` if the data is not a supported font.
+ */
+export function detectFontMimeType(
+  bytes: Uint8Array
+): FontMimeType | undefined {
+  if (bytes.byteLength < 4) return undefined;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  switch (readTag(view, 0)) {
+    case "wOFF":
+      return "font/woff";
+    case "wOF2":
+      return "font/woff2";
+    case "OTTO":
+      return "font/otf";
+    case "\u0000\u0001\u0000\u0000":
+    case "true":
+      return "font/ttf";
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * @internal
+ * Reads the family, weight and style of a TTF, OTF, WOFF or WOFF2 font from its `name` and `OS/2` tables.
+ *
+ * @param {Uint8Array} bytes - The raw font file.
+ * @returns {Promise<FontMetadata | undefined>} The detected metadata, or `undefined` if the data is not a
+ * supported font. For WOFF2 fonts in runtimes without Brotli support, and for WOFF2 collections, only
+ * `mtype` is filled in.
+ * @throws {RangeError} If the font is truncated and its tables point outside the data.
+ *
+ * @example
+ * ```typescript
+ * const meta = await readFontMetadata(await Deno.readFile("./Inter-BoldItalic.ttf"));
+ * // => { mtype: "font/ttf", fontFamily: "Inter", fontWeight: 700, fontStyle: "italic" }
+ * ```
+ */
+export async function readFontMetadata(
+  bytes: Uint8Array
+): Promise<FontMetadata | undefined> {
+  const mtype = detectFontMimeType(bytes);
+  if (!mtype) return undefined;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const tables =
+    mtype === "font/woff2"
+      ? await woff2Tables(bytes, view)
+      : mtype === "font/woff"
+      ? woffTables(bytes, view)
+      : sfntTables(bytes, view);
+  if (!tables) return { mtype };
+
+  const metadata: FontMetadata = { mtype };
+
+  const name = await tables("name");
+  if (name) {
+    metadata.fontFamily = readFamilyName(name);
+  }
+
+  const os2 = await tables("OS/2");
+  if (os2) {
+    metadata.fontWeight = os2.getUint16(4);
+    const fsSelection = os2.getUint16(62);
+    // Bit 0 is ITALIC and bit 9 is OBLIQUE; Penpot models both as "italic".
+    metadata.fontStyle = fsSelection & 0x0201 ? "italic" : "normal";
+  }
+
+  return metadata;
+}
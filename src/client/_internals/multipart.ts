@@ -0,0 +1,82 @@
+/**
+ * @file This module encodes a file upload as a streaming `multipart/form-data` body.
+ *
+ * @remarks
+ * `FormData` only accepts `Blob`s, and turning a `ReadableStream` into a `Blob` reads it into memory.
+ * To upload files of hundreds of megabytes without buffering them, the multipart body is written by
+ * hand instead: the form fields and the part headers are emitted first, then the chunks of the file
+ * are passed through as they are read, followed by the closing boundary.
+ *
+ * A request with a streamed body must be created with `duplex: "half"`, and cannot be sent twice.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+/**
+ * Escapes a field name or file name for a `Content-Disposition` header, as browsers do for `FormData`.
+ */
+function escapeHeaderValue(value: string): string {
+  return value.replace(/\r/g, "%0D").replace(/\n/g, "%0A").replace(/"/g, "%22");
+}
+
+/**
+ * @internal
+ * Encodes form fields and a streamed file as a `multipart/form-data` body, without buffering the file.
+ *
+ * @param {[string, string][]} fields - The form fields to send before the file, as name and value pairs.
+ * @param {ReadableStream<Uint8Array>} file - The content of the file, sent as the `file` field.
+ * @param {string} fileName - The file name reported in the `file` field.
+ * @returns {{ body: ReadableStream<Uint8Array>; contentType: string }} The body, and the `Content-Type`
+ * header that carries its boundary.
+ *
+ * @example
+ * ```typescript
+ * const { body, contentType } = createMultipartStream([["project-id", projectId]], file.readable, "design.penpot");
+ * await fetch(url, { method: "POST", body, headers: { "Content-Type": contentType }, duplex: "half" });
+ * ```
+ */
+export function createMultipartStream(
+  fields: [string, string][],
+  file: ReadableStream<Uint8Array>,
+  fileName: string
+): { body: ReadableStream<Uint8Array>; contentType: string } {
+  const boundary = `----PenpotClientBoundary${crypto
+    .randomUUID()
+    .replace(/-/g, "")}`;
+  const encoder = new TextEncoder();
+  const head =
+    fields
+      .map(
+        ([name, value]) =>
+          `--${boundary}\r\nContent-Disposition: form-data; name="${escapeHeaderValue(
+            name
+          )}"\r\n\r\n${value}\r\n`
+      )
+      .join("") +
+    `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${escapeHeaderValue(
+      fileName
+    )}"\r\nContent-Type: application/octet-stream\r\n\r\n`;
+  const tail = `\r\n--${boundary}--\r\n`;
+
+  const reader = file.getReader();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(encoder.encode(head));
+    },
+    async pull(controller) {
+      const { done, value } = await reader.read();
+      if (done) {
+        controller.enqueue(encoder.encode(tail));
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return { body, contentType: `multipart/form-data; boundary=${boundary}` };
+}
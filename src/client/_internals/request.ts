@@ -12,11 +12,43 @@
  * @packageDocumentation
  */
 
-import { ApiClientError, ApiHttpError } from "../errors.ts";
-import { handleSseResponse } from "./sse.ts";
+import {
+  ApiAbortError,
+  ApiClientError,
+  ApiTimeoutError,
+  createHttpError,
+  type ApiError,
+} from "../errors.ts";
+import {
+  handleSseResponse,
+  type SseHandlerOptions,
+  type SseProgressEvent,
+} from "./sse.ts";
+import { camelToKebab, toCamelKeys, toKebabKeys } from "./casing.ts";
+import { decodeTransit, encodeTransit } from "./transit.ts";
+import {
+  fetchWithRetry,
+  resolveRetryPolicy,
+  type RetryPolicy,
+} from "./retry.ts";
+import { createMultipartStream } from "./multipart.ts";
+import { assertCommandSchema, resolveSchemaValidation } from "./schema.ts";
 import type { PenpotClientConfig } from "../../index.ts";
 import type { FetchMiddleware } from "./middleware.ts";
 
+/** The media type of transit+json, Penpot's native wire format. */
+const TRANSIT_MEDIA_TYPE = "application/transit+json";
+
+/** Extracts the command name from a request path, e.g. `"get-file"` from `"/api/rpc/command/get-file"`. */
+const COMMAND_PATH = /\/command\/([^/]+)$/;
+
+/**
+ * Checks whether a media type header is absent or the plain JSON default.
+ */
+function isJsonOrUnset(header: string | null): boolean {
+  return header === null || header === "application/json";
+}
+
 /**
  * @internal
  * Defines the internal configuration for a single HTTP request.
@@ -30,6 +62,18 @@ import type { FetchMiddleware } from "./middleware.ts";
  * @property {Headers} headers - An instance of `Headers` containing all HTTP headers for the request.
  * @property {string} [accessToken] - Optional. An access token specific to this request,
  * which will override the client's default `accessToken` if provided.
+ * @property {RetryPolicy | false} [retry] - Optional. A retry policy specific to this request,
+ * which will override the client's default `retry` policy if provided.
+ * @property {number} [timeoutMs] - Optional. A timeout specific to this request,
+ * which will override the client's default `timeoutMs` if provided.
+ * @property {AbortSignal} [signal] - Optional. A signal that cancels the request when aborted.
+ * @property {(event: SseProgressEvent) => void} [onProgress] - Optional. Called with the `progress` events
+ * of an SSE response.
+ * @property {boolean} [stream] - Optional. If `true`, the body of a successful response is returned as a
+ * `ReadableStream<Uint8Array>` instead of being read and parsed.
+ * @property {(data: string) => unknown} [decodeSse] - Optional. Decodes the payload of the 'end' event of an
+ * SSE response into the result, e.g. to map it to the typed result of a service method. Defaults to decoding
+ * the payload as transit, with camelCase keys unless `transformKeys` is disabled.
  */
 export interface InternalRequestConfig {
   method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
@@ -37,6 +81,12 @@ export interface InternalRequestConfig {
   body?: unknown;
   headers: Headers;
   accessToken?: string;
+  retry?: RetryPolicy | false;
+  timeoutMs?: number;
+  signal?: AbortSignal;
+  onProgress?: (event: SseProgressEvent) => void;
+  stream?: boolean;
+  decodeSse?: (data: string) => unknown;
 }
 
 /**
@@ -51,7 +101,7 @@ export interface InternalRequestConfig {
 const debugMiddleware: FetchMiddleware = {
   /**
    * Intercepts outgoing requests to log method, URL, headers, and body content.
-   * Special handling is included for `FormData` and general text/JSON bodies.
+   * Multipart uploads are logged without their body, so that streamed uploads are not buffered.
    *
    * @param {Request} req - The outgoing `Request` object.
    * @returns {Promise<Request>} A Promise that resolves with the original `Request` object.
@@ -69,27 +119,14 @@ const debugMiddleware: FetchMiddleware = {
     });
     console.log("[DEBUG] -> Headers:", headersObject);
 
-    const reqClone = req.clone(); // Clone the request to safely read its body without consuming it.
-    // Check for multipart/form-data content type, typically used for file uploads.
-    if (reqClone.headers.get("content-type")?.includes("multipart/form-data")) {
-      console.log("[DEBUG] -> Body: FormData");
-      const formData = await reqClone.formData();
-      // Iterate over FormData entries to log key-value pairs.
-      formData.forEach((value, key) => {
-        // FormData values can be either a string or a File (which is a Blob).
-        if (typeof value === "string") {
-          console.log(`[DEBUG] ->   ${key}: ${value}`);
-        } else {
-          // If value is a File, log its name and size.
-          console.log(
-            `[DEBUG] ->   ${key}: [File, name=${value.name}, size=${value.size}]`
-          );
-        }
-      });
-    } else if (reqClone.body) {
-      // For other body types (e.g., JSON), attempt to read as text.
+    // Multipart bodies, i.e. file uploads, are not logged: reading them, or even cloning the request,
+    // would pull a streamed upload into memory before it is sent.
+    if (req.headers.get("content-type")?.includes("multipart/form-data")) {
+      console.log("[DEBUG] -> Body: (Multipart upload)");
+    } else if (req.body) {
+      // For other body types (e.g., JSON), attempt to read a clone as text.
       try {
-        const bodyText = await reqClone.text();
+        const bodyText = await req.clone().text();
         console.log("[DEBUG] -> Body:", bodyText);
       } catch {
         // If reading as text fails, indicate that the body could not be logged.
@@ -117,8 +154,12 @@ const debugMiddleware: FetchMiddleware = {
     const resClone = res.clone(); // Clone the response to safely read its body.
     try {
       const contentType = resClone.headers.get("content-type") ?? "";
-      // Check for Server-Sent Events (SSE) content type.
-      if (contentType.includes("text/event-stream")) {
+      // Binary bodies, such as exports, are not logged, so that they are not read into memory.
+      if (contentType.includes("application/octet-stream")) {
+        console.log("[DEBUG] <- Body: (Binary)");
+        await resClone.body?.cancel();
+      } else if (contentType.includes("text/event-stream")) {
+        // Check for Server-Sent Events (SSE) content type.
         console.log("[DEBUG] <- Body (SSE Stream):");
         const reader = resClone.body?.getReader();
         const decoder = new TextDecoder();
@@ -155,46 +196,35 @@ const debugMiddleware: FetchMiddleware = {
   },
 };
 
-/**
- * Converts a camelCase string to kebab-case.
- * This utility function is used internally for converting JavaScript object keys
- * to the kebab-case format often expected by HTTP headers or form data fields.
- *
- * @param {string} str - The camelCase string to convert (e.g., "projectId").
- * @returns {string} The kebab-cased string (e.g., "project-id").
- *
- * @example
- * ```typescript
- * const camelCaseString = "someCamelCaseString";
- * const kebabCaseString = camelToKebab(camelCaseString); // Returns "some-camel-case-string"
- * ```
- */
-function camelToKebab(str: string): string {
-  return str.replace(/([a-z0-9]|(?=[A-Z]))([A-Z])/g, "$1-$2").toLowerCase();
-}
-
 /**
  * @internal
  * The core function for sending HTTP API requests to the Penpot backend.
  * This function orchestrates the entire request pipeline:
  * 1. Applies authentication and debug middleware.
- * 2. Processes the request body (e.g., converts objects to JSON, handles `FormData` for file uploads).
- * 3. Executes the `fetch` API call.
+ * 2. Processes the request body (e.g., converts objects to JSON or transit with kebab-case keys, handles `FormData`
+ * for file uploads, and streams the multipart body of uploads whose file is a `ReadableStream`).
+ * 3. Waits for the request limiter, if configured, then executes the `fetch` API call, retrying network errors, `429` and `5xx` responses as allowed by the retry policy.
  * 4. Applies response middleware.
- * 5. Handles non-OK HTTP responses by throwing `ApiHttpError`.
- * 6. Parses the response body based on `Content-Type` (JSON, `ArrayBuffer`, SSE stream, or text).
- * 7. Catches and re-throws network errors as `ApiClientError`.
+ * 5. Handles non-OK HTTP responses by throwing `ApiHttpError`, or the subclass matching Penpot's error `type`.
+ * 6. Parses the response body based on `Content-Type` (JSON, transit, `ArrayBuffer`, SSE stream, or text),
+ * or returns it as a `ReadableStream` if `stream` is set,
+ * converting the keys of JSON and transit bodies to camelCase.
+ * 7. Validates request and response bodies against the OpenAPI schemas, if enabled with `validate`.
+ * 8. Catches and re-throws network errors as `ApiClientError`.
  *
  * @template T - The expected type of the successful response data.
  * @param {PenpotClientConfig} clientConfig - The global configuration for the Penpot client,
- * including `baseUrl`, `accessToken`, `middleware`, and `debug` settings.
+ * including `baseUrl`, `accessToken`, `middleware`, `debug`, `transformKeys`, `wireFormat`, `retry`, `timeoutMs`, `limiter` and `validate` settings.
  * @param {InternalRequestConfig} requestConfig - The specific configuration for the current request,
- * including `method`, `path`, `body`, `headers`, and an optional overriding `accessToken`.
+ * including `method`, `path`, `body`, `headers`, and optional overrides such as `accessToken`, `retry`, `timeoutMs`, `signal`, `onProgress`, `stream` and `decodeSse`.
  * @returns {Promise<T>} A Promise that resolves with the parsed response data of type `T` upon success.
  * @throws {ApiHttpError} If the HTTP response status is 400 or higher. The error will contain
  * the HTTP status, status text, and any parsed error details from the server.
  * @throws {ApiClientError} For network failures (e.g., `TypeError` from `fetch`), middleware errors,
  * or unexpected issues during stream processing.
+ * @throws {ApiTimeoutError} If the request does not complete within its `timeoutMs`.
+ * @throws {ApiAbortError} If the request's `signal` is aborted.
+ * @throws {ApiSchemaError} If validation is enabled and a body does not match its schema.
  *
  * @example
  * ```typescript
@@ -265,7 +295,15 @@ export async function sendRequest<T>(
   clientConfig: PenpotClientConfig,
   requestConfig: InternalRequestConfig
 ): Promise<T> {
-  const { baseUrl, accessToken, middleware = [], debug } = clientConfig;
+  const {
+    baseUrl,
+    accessToken,
+    middleware = [],
+    debug,
+    transformKeys = true,
+    wireFormat = "json",
+  } = clientConfig;
+  const timeoutMs = requestConfig.timeoutMs ?? clientConfig.timeoutMs;
   const {
     method,
     path,
@@ -273,6 +311,9 @@ export async function sendRequest<T>(
     headers: initialHeaders,
   } = requestConfig;
 
+  const command = path.match(COMMAND_PATH)?.[1];
+  const validation = resolveSchemaValidation(clientConfig.validate);
+
   // Construct the full URL for the request.
   const url = new URL(path, baseUrl);
   // Determine the final access token to use (request-specific overrides client-global).
@@ -280,15 +321,46 @@ export async function sendRequest<T>(
 
   let finalBody: BodyInit | undefined;
   const finalHeaders = new Headers(initialHeaders);
+  const useTransit = wireFormat === "transit";
+
+  // Ask the backend to answer in transit. The JSON default set by `RequestBuilder` is replaced,
+  // but any other media type negotiated by the caller is kept.
+  if (useTransit && isJsonOrUnset(finalHeaders.get("Accept"))) {
+    finalHeaders.set("Accept", TRANSIT_MEDIA_TYPE);
+  }
 
   // Check if the payload is intended for file upload (FormData).
   const isFileUpload =
     payload &&
     typeof payload === "object" &&
     "file" in payload &&
-    (payload.file instanceof Uint8Array || payload.file instanceof Blob);
+    (payload.file instanceof Uint8Array ||
+      payload.file instanceof Blob ||
+      payload.file instanceof ReadableStream);
+  // A streamed upload can only be sent once, so it is never retried.
+  let isStreamedUpload = false;
 
-  if (isFileUpload) {
+  if (isFileUpload && payload.file instanceof ReadableStream) {
+    // For streamed file uploads, encode the multipart body by hand, so that the file is never buffered.
+    const { file, ...params } = payload as {
+      file: ReadableStream<Uint8Array>;
+      [key: string]: unknown;
+    };
+    const fields = Object.entries(params)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]): [string, string] => [
+        camelToKebab(key),
+        String(value),
+      ]);
+    const { body, contentType } = createMultipartStream(
+      fields,
+      file,
+      params.name ? String(params.name) : "untitled"
+    );
+    finalBody = body;
+    finalHeaders.set("Content-Type", contentType);
+    isStreamedUpload = true;
+  } else if (isFileUpload) {
     // For file uploads, construct FormData.
     const formData = new FormData();
     // Destructure `file` and other parameters from the payload.
@@ -308,7 +380,7 @@ export async function sendRequest<T>(
     formData.append(
       "file",
       new Blob([file]), // Wrap Uint8Array in Blob if necessary.
-      String(params.name) || "untitled" // Use provided name or default.
+      params.name ? String(params.name) : "untitled" // Use provided name or default.
     );
 
     finalBody = formData;
@@ -316,20 +388,52 @@ export async function sendRequest<T>(
     // with boundary, so we explicitly delete any pre-set 'Content-Type'.
     finalHeaders.delete("Content-Type");
   } else if (payload) {
-    // For non-file payloads, assume JSON and stringify the body.
-    finalBody = JSON.stringify(payload);
-    // Ensure 'Content-Type: application/json' is set if not already present.
-    if (!finalHeaders.has("Content-Type")) {
+    // Validate the body in its camelCase form, which is the form of the OpenAPI schemas.
+    if (validation.requests && command) {
+      await assertCommandSchema(
+        command,
+        "request",
+        transformKeys ? payload : toCamelKeys(payload)
+      );
+    }
+    // For non-file payloads, serialize the body as JSON or transit, with kebab-case keys unless disabled.
+    const body = transformKeys ? toKebabKeys(payload) : payload;
+    finalBody = useTransit ? encodeTransit(body) : JSON.stringify(body);
+    // Ensure the matching 'Content-Type' is set, replacing the JSON default when sending transit.
+    if (useTransit && isJsonOrUnset(finalHeaders.get("Content-Type"))) {
+      finalHeaders.set("Content-Type", TRANSIT_MEDIA_TYPE);
+    } else if (!finalHeaders.has("Content-Type")) {
       finalHeaders.set("Content-Type", "application/json");
     }
   }
 
+  // Combine the caller's signal with the timeout, which covers the whole request including its body.
+  const timeoutSignal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
+  const signals = [requestConfig.signal, timeoutSignal].filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  const signal = signals.length > 0 ? AbortSignal.any(signals) : undefined;
+
+  // Translates a failure caused by the signal into the matching timeout or abort error.
+  const toCancellationError = (error: unknown): ApiError | undefined => {
+    if (timeoutSignal?.aborted) {
+      return new ApiTimeoutError(timeoutMs!, { cause: error });
+    }
+    if (requestConfig.signal?.aborted) {
+      return new ApiAbortError({ cause: requestConfig.signal.reason });
+    }
+    return undefined;
+  };
+
   // Create the initial Request object.
   let request = new Request(url, {
     method,
     headers: finalHeaders,
     body: finalBody,
-  });
+    signal,
+    // Streamed bodies must be sent in half-duplex mode.
+    ...(isStreamedUpload ? { duplex: "half" } : {}),
+  } as RequestInit);
 
   // Define a built-in authentication middleware to inject the access token as a cookie.
   const authMiddleware: FetchMiddleware = {
@@ -362,49 +466,173 @@ export async function sendRequest<T>(
     throw new ApiClientError("Middleware `onRequest` error", { cause: error });
   }
 
-  let response: Response;
-  // Execute the actual `fetch` call.
-  try {
-    response = await fetch(request);
-  } catch (error) {
-    // Catch network-level errors (e.g., `TypeError` for connection issues) and re-throw as `ApiClientError`.
-    throw new ApiClientError("Network request failed", { cause: error });
+  // Wait for the request limiter, if any, and hold its concurrency slot until the response has been read.
+  let release: (() => void) | undefined;
+  if (clientConfig.limiter) {
+    try {
+      release = await clientConfig.limiter.acquire(command, signal);
+    } catch (error) {
+      // Queued requests only fail when they are cancelled.
+      throw toCancellationError(error) ?? error;
+    }
   }
 
-  // Execute `onResponse` middleware in reverse order.
   try {
-    // Iterate backwards to ensure `onResponse` middleware runs from last-registered to first-registered.
-    for (let i = allMiddleware.length - 1; i >= 0; i--) {
-      const mw = allMiddleware[i];
-      if (mw.onResponse) {
-        response = await mw.onResponse(response);
+    let response: Response;
+    // Execute the actual `fetch` call, retrying transient failures of read-only commands if configured.
+    try {
+      const retryPolicy = resolveRetryPolicy(
+        requestConfig.retry ?? clientConfig.retry
+      );
+      const limiter = clientConfig.limiter;
+      response = await fetchWithRetry(
+        request,
+        isStreamedUpload ? { ...retryPolicy, maxAttempts: 1 } : retryPolicy,
+        // Retries keep the concurrency slot of the request, but each one takes a new rate token.
+        limiter && (() => limiter.waitForRate(command, signal))
+      );
+    } catch (error) {
+      // Catch network-level errors (e.g., `TypeError` for connection issues) and re-throw as `ApiClientError`,
+      // unless the request was cancelled by its timeout or signal.
+      throw (
+        toCancellationError(error) ??
+        new ApiClientError("Network request failed", { cause: error })
+      );
+    }
+
+    // Execute `onResponse` middleware in reverse order.
+    try {
+      // Iterate backwards to ensure `onResponse` middleware runs from last-registered to first-registered.
+      for (let i = allMiddleware.length - 1; i >= 0; i--) {
+        const mw = allMiddleware[i];
+        if (mw.onResponse) {
+          response = await mw.onResponse(response);
+        }
       }
+    } catch (error) {
+      // If any `onResponse` middleware throws an error, wrap it in `ApiClientError` and re-throw.
+      throw new ApiClientError("Middleware `onResponse` error", {
+        cause: error,
+      });
     }
-  } catch (error) {
-    // If any `onResponse` middleware throws an error, wrap it in `ApiClientError` and re-throw.
-    throw new ApiClientError("Middleware `onResponse` error", { cause: error });
+
+    if (requestConfig.stream && response.ok) {
+      // The caller reads the body, so the limiter slot is only freed once the stream is done.
+      const onSettled = release;
+      release = undefined;
+      return trackStream(
+        response.body ?? new ReadableStream({ start: (c) => c.close() }),
+        () => onSettled?.(),
+        (error) => toCancellationError(error) ?? error
+      ) as T;
+    }
+
+    try {
+      const data = await parseResponse<T>(response, transformKeys, {
+        signal,
+        onProgress: requestConfig.onProgress,
+        decode: (requestConfig.decodeSse ??
+          ((text) => {
+            const decoded = decodeTransit(text);
+            return transformKeys ? toCamelKeys(decoded) : decoded;
+          })) as (data: string) => T,
+      });
+      // Only JSON and transit bodies have a schema; transit's media type also contains "json".
+      if (
+        validation.responses &&
+        command &&
+        (response.headers.get("content-type") ?? "").includes("json")
+      ) {
+        await assertCommandSchema(
+          command,
+          "response",
+          transformKeys ? data : toCamelKeys(data)
+        );
+      }
+      return data;
+    } catch (error) {
+      // The signal may also fire while the body or SSE stream is being read.
+      throw toCancellationError(error) ?? error;
+    }
+  } finally {
+    release?.();
   }
+}
 
+/**
+ * Passes a response body through to the caller, calling `onSettled` once it has been read, has failed
+ * or has been cancelled, and translating read errors with `mapError`.
+ */
+function trackStream(
+  stream: ReadableStream<Uint8Array>,
+  onSettled: () => void,
+  mapError: (error: unknown) => unknown
+): ReadableStream<Uint8Array> {
+  const reader = stream.getReader();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          onSettled();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        onSettled();
+        controller.error(mapError(error));
+      }
+    },
+    cancel(reason) {
+      onSettled();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Throws an {@link ApiHttpError} for non-OK responses, and otherwise parses the body
+ * based on its `Content-Type`.
+ */
+async function parseResponse<T>(
+  response: Response,
+  transformKeys: boolean,
+  sseOptions: SseHandlerOptions<T>
+): Promise<T> {
   // Check if the HTTP response was successful (status 2xx).
   if (!response.ok) {
-    let errorDetails: unknown;
+    // Read the body once, so that it is still available as text if it cannot be parsed.
+    let errorDetails: unknown = await response.text();
     try {
-      // Attempt to parse error response as JSON.
-      errorDetails = await response.json();
+      // Attempt to parse error response as transit or JSON.
+      const isTransit = (response.headers.get("content-type") ?? "").includes(
+        TRANSIT_MEDIA_TYPE
+      );
+      const parsed = isTransit
+        ? decodeTransit(errorDetails as string)
+        : JSON.parse(errorDetails as string);
+      errorDetails = transformKeys ? toCamelKeys(parsed) : parsed;
     } catch {
-      // If JSON parsing fails, read as plain text.
-      errorDetails = await response.text();
+      // If parsing fails, keep the plain text.
     }
-    // Throw `ApiHttpError` for non-successful HTTP responses.
-    throw new ApiHttpError(response, errorDetails);
+    // Throw the matching `ApiHttpError` subclass for non-successful HTTP responses.
+    throw createHttpError(response, errorDetails);
   }
 
   // Determine content type for successful response parsing.
   const contentType = response.headers.get("content-type") ?? "";
 
   // Parse response based on Content-Type header.
+  // Transit is checked first, since its media type also ends in "json".
+  if (contentType.includes(TRANSIT_MEDIA_TYPE)) {
+    const data = decodeTransit(await response.text());
+    return (transformKeys ? toCamelKeys(data) : data) as T;
+  }
+
   if (contentType.includes("application/json")) {
-    return (await response.json()) as T;
+    const data = await response.json();
+    return (transformKeys ? toCamelKeys(data) : data) as T;
   }
 
   if (contentType.includes("application/octet-stream")) {
@@ -413,7 +641,7 @@ export async function sendRequest<T>(
 
   if (contentType.includes("text/event-stream")) {
     // Delegate SSE stream parsing to a dedicated handler.
-    return handleSseResponse<T>(response);
+    return handleSseResponse<T>(response, sseOptions);
   }
 
   // Default to parsing as plain text if no specific content type handler matches.
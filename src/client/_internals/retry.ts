@@ -0,0 +1,202 @@
+/**
+ * @file This module implements the retry policy of the Penpot API client: which requests may be
+ * retried, which failures are transient, and how long to wait between attempts.
+ *
+ * @remarks
+ * A request is only retried if repeating it cannot change the outcome on the server. Penpot exposes
+ * every operation as a `POST` to `/api/rpc/command/<name>`, so the HTTP method says nothing about
+ * idempotency; instead, commands whose name starts with `get-` or `search-` are treated as read-only.
+ * Other commands are only retried when the caller opts in with `retryNonIdempotent`.
+ *
+ * Network errors, `429 Too Many Requests` and `5xx` responses are considered transient. The delay
+ * between attempts grows exponentially with full jitter, unless the server sends a `Retry-After` header,
+ * which is honoured up to `maxDelayMs`. If the server asks to wait longer, its response is returned
+ * instead, so that a request is never parked for hours by a misconfigured server or proxy.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+/**
+ * Configures how failed requests are retried.
+ *
+ * @interface RetryPolicy
+ * @property {number} [maxAttempts=3] - The total number of attempts, including the first one. `1` disables retries.
+ * @property {number} [baseDelayMs=500] - The delay before the first retry. It doubles with every further attempt.
+ * @property {number} [maxDelayMs=30000] - The upper bound of the computed backoff delay, and the longest `Retry-After`
+ * that is honoured. Responses asking to wait longer are returned without retrying.
+ * @property {boolean} [retryNonIdempotent=false] - If `true`, commands that may modify data are retried as well.
+ * Only enable it for commands that are safe to repeat, such as exports.
+ *
+ * @example
+ * ```typescript
+ * const client = new PenpotClient({
+ * baseUrl: "https://design.penpot.app",
+ * accessToken: "...",
+ * retry: { maxAttempts: 4, baseDelayMs: 1000 },
+ * });
+ * ```
+ */
+export interface RetryPolicy {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  retryNonIdempotent?: boolean;
+}
+
+/** The defaults applied to the fields a {@link RetryPolicy} leaves out. */
+const DEFAULT_RETRY_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+  retryNonIdempotent: false,
+};
+
+/** Matches the commands that only read data and are therefore safe to repeat. */
+const READ_ONLY_COMMAND = /\/command\/(get|search)-[^/]*$/;
+
+/**
+ * @internal
+ * Fills in the defaults of a retry policy. `undefined` and `false` both disable retries.
+ *
+ * @param {RetryPolicy | false} [policy] - The policy of the request or client.
+ * @returns {Required<RetryPolicy>} The complete policy.
+ */
+export function resolveRetryPolicy(
+  policy?: RetryPolicy | false
+): Required<RetryPolicy> {
+  if (!policy) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return { ...DEFAULT_RETRY_POLICY, ...policy };
+}
+
+/**
+ * @internal
+ * Checks whether the command addressed by a request path only reads data.
+ *
+ * @param {string} path - The request path, e.g. `"/api/rpc/command/get-file"`.
+ * @returns {boolean} `true` for `get-*` and `search-*` commands.
+ */
+export function isReadOnlyCommand(path: string): boolean {
+  return READ_ONLY_COMMAND.test(path);
+}
+
+/**
+ * @internal
+ * Checks whether an HTTP status reports a transient failure that is worth retrying.
+ *
+ * @param {number} status - The HTTP status code.
+ * @returns {boolean} `true` for `429` and every `5xx` status.
+ */
+export function isRetryableStatus(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+/**
+ * @internal
+ * Parses a `Retry-After` header, given either in seconds or as an HTTP date, into milliseconds.
+ *
+ * @param {string | null} header - The header value.
+ * @returns {number | undefined} The delay in milliseconds, or `undefined` if the header is absent or invalid.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+/**
+ * @internal
+ * Computes how long to wait before the next attempt.
+ *
+ * @param {number} attempt - The number of the attempt that just failed, starting at `1`.
+ * @param {Required<RetryPolicy>} policy - The resolved retry policy.
+ * @param {string | null} [retryAfter] - The `Retry-After` header of the failed response, if any.
+ * @returns {number} The delay in milliseconds. A `Retry-After` delay is returned as-is; callers check it
+ * against `policy.maxDelayMs` with {@link parseRetryAfter} first.
+ */
+export function retryDelay(
+  attempt: number,
+  policy: Required<RetryPolicy>,
+  retryAfter?: string | null
+): number {
+  const requested = parseRetryAfter(retryAfter ?? null);
+  if (requested !== undefined) return requested;
+  const backoff = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  // Full jitter spreads the retries of concurrent clients over the whole backoff window.
+  return Math.random() * backoff;
+}
+
+/**
+ * @internal
+ * Sends a request with `fetch`, repeating it on transient failures as allowed by the retry policy.
+ * Each attempt sends a clone of `request`, so that its body can be read again.
+ * Waiting between attempts is interrupted when the request's signal is aborted.
+ *
+ * @param {Request} request - The fully prepared request.
+ * @param {Required<RetryPolicy>} policy - The resolved retry policy.
+ * @param {function(): Promise<void>} [beforeRetry] - Optional. Awaited after the backoff delay and before each
+ * retry is sent, e.g. to take a token from the request limiter.
+ * @returns {Promise<Response>} The response of the last attempt, which may still be a `429` or `5xx`, e.g. when
+ * its `Retry-After` exceeds `policy.maxDelayMs`.
+ * @throws {unknown} The network error of the last attempt, unchanged.
+ */
+export async function fetchWithRetry(
+  request: Request,
+  policy: Required<RetryPolicy>,
+  beforeRetry?: () => Promise<void>
+): Promise<Response> {
+  const maxAttempts =
+    policy.retryNonIdempotent ||
+    isReadOnlyCommand(new URL(request.url).pathname)
+      ? Math.max(1, policy.maxAttempts)
+      : 1;
+
+  for (let attempt = 1; ; attempt++) {
+    if (attempt > 1) await beforeRetry?.();
+    const isLastAttempt = attempt >= maxAttempts;
+    let response: Response;
+    try {
+      response = await fetch(isLastAttempt ? request : request.clone());
+    } catch (error) {
+      if (isLastAttempt) throw error;
+      // A cancelled request is never retried.
+      if (request.signal.aborted) throw error;
+      await sleep(retryDelay(attempt, policy), request.signal);
+      continue;
+    }
+
+    if (isLastAttempt || !isRetryableStatus(response.status)) {
+      return response;
+    }
+    const retryAfter = response.headers.get("Retry-After");
+    // A server asking to wait longer than the policy allows gets its response reported instead.
+    if ((parseRetryAfter(retryAfter) ?? 0) > policy.maxDelayMs) {
+      return response;
+    }
+    // Release the connection of the discarded response before waiting.
+    await response.body?.cancel();
+    await sleep(retryDelay(attempt, policy, retryAfter), request.signal);
+  }
+}
+
+/**
+ * Resolves after the given number of milliseconds, or rejects with the abort reason of `signal`.
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
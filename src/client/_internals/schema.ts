@@ -0,0 +1,281 @@
+/**
+ * @file This module implements the opt-in runtime validation of request and response bodies against
+ * the schemas of the OpenAPI specification.
+ *
+ * @remarks
+ * Penpot's specification uses a small subset of JSON Schema, which is what this validator supports:
+ * `type`, `properties`, `required`, `additionalProperties`, `items`, `oneOf`, `anyOf`, `allOf`,
+ * `const`, `enum` and `$ref` to a component schema. Other keywords (e.g. `uniqueItems`) are ignored,
+ * and an empty schema accepts any value.
+ *
+ * Bodies are validated in the client's camelCase form, which is the form the specification uses:
+ * requests before their keys are converted to kebab-case, and responses after their keys are
+ * converted back. Values decoded from transit are accepted where the schema expects their JSON form,
+ * i.e. a `Set` where an array is expected.
+ *
+ * The schemas are generated into `src/client/generated/schemas.ts` and imported lazily, the first time
+ * a body is validated, so that clients without validation never load them.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { ApiSchemaError, type SchemaIssue } from "../errors.ts";
+
+/**
+ * @internal
+ * A JSON Schema, as used by the Penpot OpenAPI specification.
+ */
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  oneOf?: JsonSchema[];
+  anyOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  const?: unknown;
+  enum?: unknown[];
+  $ref?: string;
+  [keyword: string]: unknown;
+}
+
+/**
+ * Selects which bodies are validated against the OpenAPI schemas.
+ *
+ * @interface SchemaValidation
+ * @property {boolean} [requests=false] - If `true`, request bodies are validated before they are sent.
+ * An invalid request is not sent at all. File uploads are never validated.
+ * @property {boolean} [responses=true] - If `true`, JSON and transit response bodies are validated.
+ */
+export interface SchemaValidation {
+  requests?: boolean;
+  responses?: boolean;
+}
+
+/**
+ * @internal
+ * Fills in the defaults of the `validate` option. `true` validates responses only;
+ * `undefined` and `false` disable validation.
+ *
+ * @param {boolean | SchemaValidation} [validate] - The `validate` option of the client.
+ * @returns {Required<SchemaValidation>} Which bodies to validate.
+ */
+export function resolveSchemaValidation(
+  validate?: boolean | SchemaValidation
+): Required<SchemaValidation> {
+  if (!validate) return { requests: false, responses: false };
+  if (validate === true) return { requests: false, responses: true };
+  return { requests: false, responses: true, ...validate };
+}
+
+/** The prefix of the `$ref`s that point to a component schema. */
+const COMPONENT_REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Appends a property name to a path, using dot notation for identifiers and brackets otherwise.
+ */
+function propertyPath(path: string, key: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(key)
+    ? `${path}.${key}`
+    : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Checks a value against a single JSON Schema `type`.
+ */
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "object":
+      return (
+        typeof value === "object" &&
+        value !== null &&
+        !Array.isArray(value) &&
+        !(value instanceof Set)
+      );
+    case "array":
+      return Array.isArray(value) || value instanceof Set;
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number";
+    case "string":
+      return typeof value === "string";
+    case "boolean":
+      return typeof value === "boolean";
+    case "null":
+      return value === null;
+    default:
+      // Unknown types are not the body's fault, so they accept any value.
+      return true;
+  }
+}
+
+/**
+ * Describes a value for an issue message, e.g. `"a string"` or `"null"`.
+ */
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "an array";
+  if (typeof value === "object") return "an object";
+  return `a ${typeof value}`;
+}
+
+/**
+ * @internal
+ * Validates a value against a schema and lists every mismatch.
+ *
+ * @param {unknown} value - The value to validate.
+ * @param {JsonSchema} schema - The schema to validate against.
+ * @param {Record<string, JsonSchema>} components - The component schemas that `$ref`s point to.
+ * @param {string} [path="$"] - The path of `value`, used in the reported issues.
+ * @returns {SchemaIssue[]} The mismatches, or an empty array if the value is valid.
+ *
+ * @example
+ * ```typescript
+ * validateSchema({ id: 1 }, { type: "object", properties: { id: { type: "string" } } }, {});
+ * // => [{ path: "$.id", message: "expected string, received a number" }]
+ * ```
+ */
+export function validateSchema(
+  value: unknown,
+  schema: JsonSchema,
+  components: Record<string, JsonSchema>,
+  path = "$"
+): SchemaIssue[] {
+  if (schema.$ref !== undefined) {
+    const target = schema.$ref.startsWith(COMPONENT_REF_PREFIX)
+      ? components[schema.$ref.substring(COMPONENT_REF_PREFIX.length)]
+      : undefined;
+    // References that cannot be resolved are not the response's fault, so they accept any value.
+    return target ? validateSchema(value, target, components, path) : [];
+  }
+
+  const issues: SchemaIssue[] = [];
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      // A value of the wrong type cannot meet any of the other constraints either.
+      return [
+        {
+          path,
+          message: `expected ${types.join(" or ")}, received ${describe(
+            value
+          )}`,
+        },
+      ];
+    }
+  }
+
+  if ("const" in schema && value !== schema.const) {
+    issues.push({
+      path,
+      message: `expected ${JSON.stringify(
+        schema.const
+      )}, received ${JSON.stringify(value)}`,
+    });
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    issues.push({
+      path,
+      message: `expected one of ${JSON.stringify(
+        schema.enum
+      )}, received ${JSON.stringify(value)}`,
+    });
+  }
+
+  if (schema.allOf) {
+    for (const subschema of schema.allOf) {
+      issues.push(...validateSchema(value, subschema, components, path));
+    }
+  }
+  const alternatives = schema.oneOf ?? schema.anyOf;
+  if (alternatives && alternatives.length > 0) {
+    // Penpot's alternatives overlap (e.g. an open object matches anything), so `oneOf` is checked like `anyOf`.
+    const results = alternatives.map((subschema) =>
+      validateSchema(value, subschema, components, path)
+    );
+    if (!results.some((result) => result.length === 0)) {
+      // Report the mismatches of the closest alternative, which usually points at the actual problem.
+      issues.push(
+        ...results.reduce((closest, result) =>
+          result.length < closest.length ? result : closest
+        )
+      );
+    }
+  }
+
+  if (hasType(value, "array") && schema.items) {
+    [...(value as Iterable<unknown>)].forEach((item, index) =>
+      issues.push(
+        ...validateSchema(item, schema.items!, components, `${path}[${index}]`)
+      )
+    );
+  }
+
+  if (hasType(value, "object") && !(value instanceof Map)) {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (record[key] === undefined) {
+        issues.push({
+          path: propertyPath(path, key),
+          message: "required property is missing",
+        });
+      }
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        issues.push(
+          ...validateSchema(item, property, components, propertyPath(path, key))
+        );
+      } else if (schema.additionalProperties === false) {
+        issues.push({
+          path: propertyPath(path, key),
+          message: "unexpected property",
+        });
+      } else if (typeof schema.additionalProperties === "object") {
+        issues.push(
+          ...validateSchema(
+            item,
+            schema.additionalProperties,
+            components,
+            propertyPath(path, key)
+          )
+        );
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * @internal
+ * Validates the request or response body of a command against its schema in the OpenAPI specification.
+ * Commands without a schema in the specification are not validated.
+ *
+ * @param {string} command - The command name, e.g. `"get-file"`.
+ * @param {"request" | "response"} direction - Which body of the command `value` is.
+ * @param {unknown} value - The body, in its camelCase form.
+ * @returns {Promise<void>} A Promise that resolves if the body is valid.
+ * @throws {ApiSchemaError} If the body does not match the schema.
+ */
+export async function assertCommandSchema(
+  command: string,
+  direction: "request" | "response",
+  value: unknown
+): Promise<void> {
+  const { commandSchemas, componentSchemas } = await import(
+    "../generated/schemas.ts"
+  );
+  const schema = commandSchemas[command]?.[direction];
+  if (!schema) return;
+
+  const issues = validateSchema(value, schema, componentSchemas);
+  if (issues.length > 0) {
+    throw new ApiSchemaError(command, direction, issues, value);
+  }
+}
@@ -4,6 +4,8 @@ import {
   type ReconnectInterval,
 } from "eventsource-parser";
 import { ApiClientError } from "../errors.ts";
+import { decodeTransit } from "./transit.ts";
+import { toCamelKeys } from "./casing.ts";
 
 /**
  * @file This module provides a specialized utility function, `handleSseResponse`,
@@ -18,10 +20,13 @@ import { ApiClientError } from "../errors.ts";
  * providing progress updates and delivering the final result upon completion.
  *
  * This function specifically listens for:
- * - `event: end`: Signifies the successful completion of the operation, carrying the final result (e.g., the new file ID).
+ * - `event: end`: Signifies the successful completion of the operation, carrying the final result (e.g., the new file IDs).
+ * The payload is decoded generically, as transit by default; callers that expect a specific shape pass their own
+ * `decode` function, which maps the payload to their typed result.
  * - `event: error`: Indicates an explicit error message sent by the server within the SSE stream.
- * - Any other events (e.g., `progress` events) are typically ignored by this handler,
- * as its primary focus is on the terminal 'end' or 'error' states.
+ * - `event: progress`: Reports the stage of the operation. These events are decoded into
+ * {@link SseProgressEvent}s and passed to the optional `onProgress` callback; without a callback they are ignored.
+ * - Any other events are ignored by this handler.
  *
  * The `eventsource-parser` library is used to handle common SSE complexities like
  * partial event reception, reconnection logic (though not directly managed by this function's Promise),
@@ -30,26 +35,99 @@ import { ApiClientError } from "../errors.ts";
  * @packageDocumentation
  */
 
+/**
+ * A progress update of a long-running operation, such as a file import, sent by Penpot as an SSE `progress` event.
+ *
+ * @interface SseProgressEvent
+ * @property {string} section - The stage of the operation, e.g. `"manifest"` or `"file"`.
+ * @property {string} [name] - The name of the item being processed, e.g. the name of the file being imported.
+ * @property {number} [index] - The position of the current item within the section, if the server reports it.
+ * @property {number} [total] - The number of items in the section, if the server reports it.
+ * @property {Record<string, unknown>} data - The complete decoded payload with camelCase keys,
+ * including any fields not listed above.
+ *
+ * @example
+ * ```typescript
+ * await client.files.importFile(params)
+ * .onProgress((event) => console.log(`${event.section}: ${event.name ?? ""}`))
+ * .unwrap();
+ * ```
+ */
+export interface SseProgressEvent {
+  section: string;
+  name?: string;
+  index?: number;
+  total?: number;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Decodes the transit payload of a `progress` event. Returns `undefined` for payloads that are not
+ * a map with a `section`, which are skipped rather than failing the operation.
+ */
+function parseProgressEvent(text: string): SseProgressEvent | undefined {
+  let data: unknown;
+  try {
+    data = toCamelKeys(decodeTransit(text));
+  } catch {
+    return undefined;
+  }
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    return undefined;
+  }
+  const { section, name, index, total } = data as Record<string, unknown>;
+  if (typeof section !== "string") return undefined;
+  return {
+    section,
+    ...(typeof name === "string" ? { name } : {}),
+    ...(typeof index === "number" ? { index } : {}),
+    ...(typeof total === "number" ? { total } : {}),
+    data: data as Record<string, unknown>,
+  };
+}
+
+/**
+ * @internal
+ * Options of {@link handleSseResponse}.
+ *
+ * @interface SseHandlerOptions
+ * @template T - The type of the decoded 'end' payload.
+ * @property {AbortSignal} [signal] - Optional. A signal that cancels reading the stream when aborted,
+ * e.g. because the request timed out.
+ * @property {(event: SseProgressEvent) => void} [onProgress] - Optional. Called with every `progress` event
+ * received before the 'end' event.
+ * @property {(data: string) => T} [decode] - Optional. Turns the raw `data` of the 'end' event into the result.
+ * It may throw if the payload does not have the expected shape. Defaults to {@link decodeTransit}.
+ */
+export interface SseHandlerOptions<T> {
+  signal?: AbortSignal;
+  onProgress?: (event: SseProgressEvent) => void;
+  decode?: (data: string) => T;
+}
+
 /**
  * @internal
  * Handles a `fetch` API `Response` object that is expected to be a Server-Sent Events (SSE) stream.
  * This function processes the stream using `eventsource-parser` to extract structured data,
- * primarily looking for a final 'end' event containing the operation's result (e.g., a file ID).
+ * primarily looking for a final 'end' event containing the operation's result (e.g., the created file IDs).
  * It also handles explicit 'error' events sent by the server within the stream.
  *
  * @template T - The expected type of the data payload contained within the final 'end' event.
- * For Penpot's file import, this is typically `{ fileId: Uuid }`.
+ * For Penpot's file import, the transit payload decodes to the list of created file IDs.
  *
  * @param {Response} response - The `Response` object obtained from a `fetch` call,
  * which is expected to have a `Content-Type` of `text/event-stream`.
- * @returns {Promise<T>} A Promise that resolves with the data of type `T` extracted from the
+ * @param {SseHandlerOptions<T>} [options] - Optional. The cancellation signal, the progress callback
+ * and the decoder of the 'end' payload.
+ * @returns {Promise<T>} A Promise that resolves with the decoded data of the
  * final 'end' event of the SSE stream upon successful completion.
  * @throws {ApiClientError} If:
  * - The `response.body` is `null` (indicating no stream content).
  * - The SSE stream ends unexpectedly without a valid 'end' event.
- * - The 'end' event's `data` payload is malformed (not valid JSON).
- * - The 'end' event's `data` is valid JSON but does not conform to the expected `["~u<uuid-string>"]` format.
+ * - The 'end' event's `data` payload cannot be decoded, i.e. the `decode` function throws.
  * - The server explicitly sends an `event: error` within the stream.
+ * - The `signal` is aborted before the 'end' event arrives.
+ * - The `onProgress` callback throws; the stream is cancelled in that case.
  * - Any other error occurs during stream reading or parsing.
  *
  * @example
@@ -75,9 +153,9 @@ import { ApiClientError } from "../errors.ts";
  * });
  *
  * try {
- * // Expected type for this example is { fileId: string }
- * const result = await handleSseResponse<{ fileId: string }>(mockResponse);
- * console.log('Successfully imported file with ID:', result.fileId); // Output: a03ea8b8-fc8a-8124-8006-7c45ed7029cf
+ * // The payload decodes to the list of imported file IDs
+ * const [fileId] = await handleSseResponse<string[]>(mockResponse);
+ * console.log('Successfully imported file with ID:', fileId); // Output: a03ea8b8-fc8a-8124-8006-7c45ed7029cf
  * } catch (error) {
  * console.error('Import failed:', error);
  * }
@@ -98,7 +176,7 @@ import { ApiClientError } from "../errors.ts";
  * });
  *
  * try {
- * await handleSseResponse<{ fileId: string }>(mockResponse);
+ * await handleSseResponse(mockResponse);
  * } catch (error) {
  * if (error instanceof ApiClientError) {
  * console.error('Caught expected error:', error.message); // Output: SSE stream ended unexpectedly...
@@ -123,7 +201,7 @@ import { ApiClientError } from "../errors.ts";
  * });
  *
  * try {
- * await handleSseResponse<{ fileId: string }>(mockResponse);
+ * await handleSseResponse(mockResponse);
  * } catch (error) {
  * if (error instanceof ApiClientError) {
  * console.error('Caught expected server error from SSE:', error.message);
@@ -138,7 +216,16 @@ import { ApiClientError } from "../errors.ts";
  * // simulateServerErrorEvent();
  * ```
  */
-export function handleSseResponse<T>(response: Response): Promise<T> {
+export function handleSseResponse<T>(
+  response: Response,
+  options: SseHandlerOptions<T> = {}
+): Promise<T> {
+  const {
+    signal,
+    onProgress,
+    decode = decodeTransit as (data: string) => T,
+  } = options;
+
   // Ensure the response body is not null before proceeding to read the stream.
   if (!response.body) {
     return Promise.reject(new ApiClientError("SSE response body is null."));
@@ -155,35 +242,11 @@ export function handleSseResponse<T>(response: Response): Promise<T> {
         // and carries the final result data.
         if (event.event === "end" && event.data) {
           try {
-            // Attempt to parse the data field as JSON.
-            const parsedArray = JSON.parse(event.data);
-
-            // Penpot's successful 'end' event payload is typically a JSON array
-            // containing a single string prefixed with "~u" for UUIDs (e.g., ["~u<uuid-string>"]).
-            if (
-              Array.isArray(parsedArray) &&
-              parsedArray.length > 0 &&
-              typeof parsedArray[0] === "string"
-            ) {
-              const taggedId = parsedArray[0];
-
-              // Extract the actual UUID by stripping the "~u" prefix.
-              if (taggedId.startsWith("~u")) {
-                const fileId = taggedId.substring(2);
-                // Resolve the Promise with the extracted file ID, cast to the expected type T.
-                resolve({ fileId } as T);
-                return; // Operation successful, no further stream processing needed for this Promise.
-              }
-            }
-
-            // If the 'end' event data is valid JSON but doesn't match the expected format.
-            reject(
-              new ApiClientError(
-                `Unexpected SSE 'end' event data format: ${event.data}`
-              )
-            );
+            // The data field is a transit document, e.g. ["~u<uuid-string>"] for an imported file.
+            // Mapping it to a typed result is up to the decoder, which throws on unexpected shapes.
+            resolve(decode(event.data));
           } catch (e) {
-            // If JSON parsing of the 'end' event data fails.
+            // If the 'end' event data cannot be decoded.
             reject(
               new ApiClientError(
                 `Failed to parse SSE 'end' event data: ${event.data}`,
@@ -213,14 +276,44 @@ export function handleSseResponse<T>(response: Response): Promise<T> {
               )
             );
           }
+        } else if (event.event === "progress" && event.data && onProgress) {
+          // Report intermediate states to the caller; malformed progress payloads are skipped.
+          const progress = parseProgressEvent(event.data);
+          if (progress) {
+            try {
+              onProgress(progress);
+            } catch (error) {
+              // A failing callback aborts the operation, so that the error does not go unnoticed.
+              reject(
+                new ApiClientError("`onProgress` callback error", {
+                  cause: error,
+                })
+              );
+              reader.cancel(error).catch(() => {});
+            }
+          }
         }
-        // Other event types (e.g., "progress") are ignored by this handler,
-        // as they typically represent intermediate states and not the final result or error.
+        // Other event types are ignored by this handler.
       }
     });
 
     // Obtain a ReadableStreamDefaultReader to read the response body chunk by chunk.
     const reader = response.body!.getReader();
+
+    // Cancelling the reader unblocks a pending `read()`, so that an aborted import does not hang.
+    const onAbort = () => {
+      reject(
+        new ApiClientError("SSE stream was cancelled.", {
+          cause: signal!.reason,
+        })
+      );
+      reader.cancel(signal!.reason).catch(() => {});
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener("abort", onAbort, { once: true });
     // Initialize a TextDecoder to convert Uint8Array chunks to strings.
     const decoder = new TextDecoder();
 
@@ -238,7 +331,7 @@ export function handleSseResponse<T>(response: Response): Promise<T> {
             // If the stream ends unexpectedly (without an 'end' event), reject the Promise.
             reject(
               new ApiClientError(
-                "SSE stream ended unexpectedly without a valid 'end' event containing the file ID."
+                "SSE stream ended unexpectedly without an 'end' event."
               )
             );
             break; // Exit the loop.
@@ -257,7 +350,9 @@ export function handleSseResponse<T>(response: Response): Promise<T> {
       }
     };
 
-    // Start processing the stream.
-    processStream();
+    // Start processing the stream, and stop listening for cancellation once it is finished.
+    processStream().finally(() =>
+      signal?.removeEventListener("abort", onAbort)
+    );
   });
 }
@@ -0,0 +1,469 @@
+/**
+ * @file This module provides an encoder and a decoder for transit+json, the native wire format of the
+ * Penpot backend (https://github.com/cognitect/transit-format).
+ *
+ * @remarks
+ * Penpot emits transit whenever a payload is not plain JSON: webhooks configured with
+ * the `application/transit+json` mime type, Server-Sent Events from long-running
+ * commands, and any response negotiated with `Accept: application/transit+json`.
+ *
+ * The decoder maps transit semantics onto plain JavaScript values:
+ * - Keywords (`~:name`) and symbols (`~$name`) become their bare name as a string. With the `keywords`
+ *   option, keywords become {@link Keyword} instances instead, so that they stay distinguishable from strings.
+ * - UUIDs (`~u...`) become plain UUID strings, matching the generated `Uuid` type.
+ * - Instants (`~m<millis>`, `~t<iso>`) become `Date` objects.
+ * - Sets (`~#set`) become `Set`s, lists (`~#list`) become arrays and
+ *   composite maps (`~#cmap`) become `Map`s.
+ * - Maps (`["^ ", k, v, ...]` or JSON objects) become plain objects. With the `keywords` option, only maps
+ *   whose keys are all keywords or UUIDs do; maps with other keys, e.g. the `"font/ttf"` string keys of
+ *   font data, become `Map`s that keep those keys as they are.
+ * - Binary data (`~b<base64>`) becomes a `Uint8Array`.
+ * - Write-cache references (`^0`, `^1`, ...) are resolved transparently.
+ * - Unknown tags (e.g. Penpot's `~#point` or `~#matrix` records) decode to their representation.
+ *
+ * The encoder performs the reverse mapping, so that documents decoded with the `keywords` option
+ * round-trip faithfully:
+ * - Object keys become keywords, except UUID keys (such as those of `objects`), which stay UUIDs.
+ * - {@link Keyword}s become keywords. Strings that look like UUIDs become `~u` UUIDs; other strings
+ *   stay strings and are escaped where needed.
+ * - `Date`s become `~m` instants, `Set`s become `~#set` and `Uint8Array`s become `~b` binary data.
+ * - Plain objects, and `Map`s whose keys are all strings or keywords, become `["^ ", k, v, ...]` maps;
+ *   the string keys of such `Map`s stay strings. Other `Map`s become `~#cmap`.
+ * - The write cache is never used; it is optional for writers, and readers accept uncached documents.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+/** Number of characters used by the transit cache code alphabet. */
+const CACHE_CODE_DIGITS = 44;
+/** First character code of the transit cache code alphabet (`"0"`). */
+const CACHE_BASE_CHAR_CODE = 48;
+/** Maximum number of entries a transit write cache may hold before it wraps around. */
+const CACHE_MAX_SIZE = CACHE_CODE_DIGITS * CACHE_CODE_DIGITS;
+/** The marker that opens a transit map encoded as an array. */
+const MAP_MARKER = "^ ";
+
+/**
+ * @internal
+ * Matches UUIDs. JavaScript has no UUID type, so UUID-shaped strings are encoded as transit UUIDs.
+ */
+export const UUID_PATTERN =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * A transit keyword, such as the `:rect` of a shape's `type`.
+ *
+ * Keywords decode to plain strings by default, which is what the typed API responses use. Decoding with
+ * the `keywords` option of {@link decodeTransit} returns `Keyword` instances instead, and the encoder writes
+ * them back as keywords, so that a document can be decoded, modified and sent back unchanged.
+ * `Keyword`s serialise to their name in JSON.
+ *
+ * @class Keyword
+ * @property {string} name - The name of the keyword, without the leading colon, e.g. `"rect"` or `"layout/grid"`.
+ *
+ * @example
+ * ```typescript
+ * encodeTransit({ type: new Keyword("rect"), name: "rect" });
+ * // => '["^ ","~:type","~:rect","~:name","rect"]'
+ * ```
+ */
+export class Keyword {
+  constructor(public readonly name: string) {}
+
+  /** Returns the name of the keyword. */
+  public toString(): string {
+    return this.name;
+  }
+
+  /** Returns the name of the keyword, so that `JSON.stringify` writes keywords as strings. */
+  public toJSON(): string {
+    return this.name;
+  }
+}
+
+/**
+ * Options of {@link decodeTransit}.
+ *
+ * @interface DecodeTransitOptions
+ * @property {boolean} [keywords=false] - If `true`, keywords decode to {@link Keyword} instances and maps with
+ * keys other than keywords and UUIDs decode to `Map`s, so that the document can be re-encoded faithfully.
+ */
+export interface DecodeTransitOptions {
+  keywords?: boolean;
+}
+
+/**
+ * Returns `true` if a string would have been stored in the transit write cache by the encoder.
+ * Only map keys and keyword/symbol/tag strings longer than three characters are cached.
+ */
+function isCacheable(str: string, asMapKey: boolean): boolean {
+  if (str.length <= 3) return false;
+  if (asMapKey) return true;
+  return str[0] === "~" && (str[1] === ":" || str[1] === "$" || str[1] === "#");
+}
+
+/**
+ * Returns `true` if a string is a cache reference such as `^0` or `^1A`.
+ */
+function isCacheRef(str: string): boolean {
+  return str[0] === "^" && str !== MAP_MARKER && str.length <= 3;
+}
+
+/**
+ * Converts a cache reference code (the part after `^`) into its numeric cache index.
+ */
+function cacheCodeToIndex(code: string): number {
+  if (code.length === 1) {
+    return code.charCodeAt(0) - CACHE_BASE_CHAR_CODE;
+  }
+  return (
+    (code.charCodeAt(0) - CACHE_BASE_CHAR_CODE) * CACHE_CODE_DIGITS +
+    (code.charCodeAt(1) - CACHE_BASE_CHAR_CODE)
+  );
+}
+
+/**
+ * The read-side cache of a single transit document.
+ * Entries are stored as raw strings and decoded again when referenced.
+ */
+class ReadCache {
+  private entries: string[] = [];
+
+  /** Records a raw string and returns it unchanged. */
+  public write(str: string, asMapKey: boolean): string {
+    if (isCacheable(str, asMapKey)) {
+      if (this.entries.length === CACHE_MAX_SIZE) {
+        this.entries = [];
+      }
+      this.entries.push(str);
+    }
+    return str;
+  }
+
+  /** Resolves a cache reference to the raw string it stands for. */
+  public read(ref: string): string {
+    const entry = this.entries[cacheCodeToIndex(ref.substring(1))];
+    if (entry === undefined) {
+      throw new Error(`Unknown transit cache reference: ${ref}`);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Decodes the scalar encoded by a transit string (after cache resolution).
+ *
+ * @param {string} str - The raw transit string.
+ * @param {boolean} keywords - Whether keywords decode to {@link Keyword} instances.
+ * @returns {unknown} The decoded scalar, or a `{ tag }` marker for `~#` tag strings.
+ */
+function decodeString(str: string, keywords: boolean): unknown {
+  if (str[0] !== "~") return str;
+
+  const tag = str[1];
+  const rep = str.substring(2);
+  switch (tag) {
+    case "~":
+    case "^":
+    case "`":
+      // Escaped strings: "~~foo" is the literal "~foo".
+      return str.substring(1);
+    case ":":
+      return keywords ? new Keyword(rep) : rep;
+    case "$":
+    case "u":
+      // Symbols and UUIDs are represented by their bare string form.
+      return rep;
+    case "b":
+      return decodeBase64(rep);
+    case "m":
+      return new Date(Number(rep));
+    case "t":
+      return new Date(rep);
+    case "i":
+    case "d":
+    case "f":
+      return Number(rep);
+    case "n":
+      return BigInt(rep);
+    case "?":
+      return rep === "t";
+    case "_":
+      return null;
+    case "z":
+      return rep === "NaN" ? NaN : rep === "INF" ? Infinity : -Infinity;
+    case "#":
+      return { tag: rep };
+    default:
+      // Unknown scalar tags (e.g. "~r" URIs, "~c" chars) decode to their representation.
+      return rep;
+  }
+}
+
+/**
+ * Decodes the base64 representation of transit binary data.
+ */
+function decodeBase64(rep: string): Uint8Array {
+  const binary = atob(rep);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/**
+ * Encodes bytes as the base64 representation of transit binary data.
+ */
+function encodeBase64(bytes: Uint8Array): string {
+  let binary = "";
+  // Large chunks would exceed the argument limit of `String.fromCharCode`.
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Returns `true` if a decoded map key can be a property name without losing its transit type:
+ * keywords and UUIDs, which the encoder turns back into keywords and UUIDs.
+ */
+function isPropertyKey(key: unknown): boolean {
+  return (
+    key instanceof Keyword ||
+    (typeof key === "string" && UUID_PATTERN.test(key))
+  );
+}
+
+/**
+ * Builds the decoded value of a transit map from its decoded keys and values.
+ * Maps become plain objects, unless keywords are preserved and a key would lose its type as a property name.
+ */
+function decodeMap(
+  entries: Array<[unknown, unknown]>,
+  keywords: boolean
+): unknown {
+  if (keywords && !entries.every(([key]) => isPropertyKey(key))) {
+    return new Map(entries);
+  }
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of entries) {
+    result[String(key)] = value;
+  }
+  return result;
+}
+
+/**
+ * Applies the semantics of a transit tag to its already-decoded representation.
+ */
+function decodeTagged(tag: string, rep: unknown): unknown {
+  switch (tag) {
+    case "set":
+      return new Set(rep as unknown[]);
+    case "list":
+      return rep as unknown[];
+    case "cmap": {
+      const entries = rep as unknown[];
+      const map = new Map<unknown, unknown>();
+      for (let i = 0; i < entries.length; i += 2) {
+        map.set(entries[i], entries[i + 1]);
+      }
+      return map;
+    }
+    default:
+      // Records such as Penpot's `~#point` or `~#matrix` are plain maps underneath.
+      return rep;
+  }
+}
+
+/**
+ * Walks a parsed transit+json document and produces plain JavaScript values.
+ */
+function decodeValue(
+  node: unknown,
+  cache: ReadCache,
+  keywords: boolean,
+  asMapKey = false
+): unknown {
+  const decode = (child: unknown, childIsMapKey = false) =>
+    decodeValue(child, cache, keywords, childIsMapKey);
+
+  if (typeof node === "string") {
+    const raw = isCacheRef(node)
+      ? cache.read(node)
+      : cache.write(node, asMapKey);
+    return decodeString(raw, keywords);
+  }
+
+  if (Array.isArray(node)) {
+    // Maps in the compact encoding: ["^ ", k1, v1, k2, v2, ...]
+    if (node[0] === MAP_MARKER) {
+      const entries: Array<[unknown, unknown]> = [];
+      for (let i = 1; i < node.length; i += 2) {
+        // The key is decoded first, since it may write the cache entry the value refers to.
+        const key = decode(node[i], true);
+        entries.push([key, decode(node[i + 1])]);
+      }
+      return decodeMap(entries, keywords);
+    }
+
+    // Tagged values: ["~#tag", rep]
+    if (node.length === 2 && typeof node[0] === "string") {
+      const head = decode(node[0]);
+      if (
+        head &&
+        typeof head === "object" &&
+        !(head instanceof Keyword) &&
+        "tag" in head
+      ) {
+        return decodeTagged((head as { tag: string }).tag, decode(node[1]));
+      }
+      return [head, decode(node[1])];
+    }
+
+    return node.map((item) => decode(item));
+  }
+
+  if (node && typeof node === "object") {
+    const entries = Object.entries(node);
+    // Tagged values in verbose mode: {"~#tag": rep}
+    if (entries.length === 1 && entries[0][0].startsWith("~#")) {
+      return decodeTagged(entries[0][0].substring(2), decode(entries[0][1]));
+    }
+    return decodeMap(
+      entries.map(([key, value]): [unknown, unknown] => [
+        decode(key, true),
+        decode(value),
+      ]),
+      keywords
+    );
+  }
+
+  return node;
+}
+
+/**
+ * @internal
+ * Decodes a transit+json document into plain JavaScript values.
+ *
+ * @param {string} text - The transit+json text, e.g. a webhook body or an SSE `data` field.
+ * @param {DecodeTransitOptions} [options] - Pass `{ keywords: true }` to keep keywords distinguishable from strings.
+ * @returns {unknown} The decoded value.
+ * @throws {SyntaxError} If `text` is not valid JSON.
+ * @throws {Error} If the document references a cache entry that was never written.
+ *
+ * @example
+ * ```typescript
+ * decodeTransit('["^ ","~:file-id","~ua03ea8b8-fc8a-8124-8006-7c45ed7029cf","~:features",["~#set",["~:layout/grid"]]]');
+ * // => { "file-id": "a03ea8b8-fc8a-8124-8006-7c45ed7029cf", features: Set { "layout/grid" } }
+ *
+ * decodeTransit('["^ ","~:type","~:rect","~:data",["^ ","font/ttf","x"]]', { keywords: true });
+ * // => { type: Keyword { name: "rect" }, data: Map { "font/ttf" => "x" } }
+ * ```
+ */
+export function decodeTransit(
+  text: string,
+  options: DecodeTransitOptions = {}
+): unknown {
+  // Top-level scalars arrive wrapped in a ["~#'", value] quote, which decodes like any other tag.
+  return decodeValue(
+    JSON.parse(text),
+    new ReadCache(),
+    options.keywords ?? false
+  );
+}
+
+/**
+ * Encodes a string, tagging UUIDs and escaping strings that would otherwise read as a tag or cache reference.
+ */
+function encodeString(str: string): string {
+  if (UUID_PATTERN.test(str)) return `~u${str}`;
+  if (str[0] === "~" || str[0] === "^" || str[0] === "`") return `~${str}`;
+  return str;
+}
+
+/**
+ * Encodes a map key: UUIDs stay UUIDs and every other key becomes a keyword.
+ */
+function encodeKey(key: string): string {
+  return UUID_PATTERN.test(key) ? `~u${key}` : `~:${key}`;
+}
+
+/**
+ * Walks a JavaScript value and produces the JSON-compatible structure of its transit+json encoding.
+ */
+function encodeValue(value: unknown): unknown {
+  if (value === null || value === undefined) return null;
+
+  switch (typeof value) {
+    case "string":
+      return encodeString(value);
+    case "boolean":
+      return value;
+    case "number":
+      if (Number.isNaN(value)) return "~zNaN";
+      if (!Number.isFinite(value)) return value > 0 ? "~zINF" : "~z-INF";
+      return value;
+    case "bigint":
+      return `~n${value}`;
+  }
+
+  if (value instanceof Keyword) return `~:${value.name}`;
+  if (value instanceof Date) return `~m${value.getTime()}`;
+  if (value instanceof Uint8Array) return `~b${encodeBase64(value)}`;
+  if (value instanceof Set) return ["~#set", [...value].map(encodeValue)];
+  if (value instanceof Map) {
+    // Maps with string or keyword keys are regular transit maps, whose string keys stay strings.
+    if (
+      [...value.keys()].every(
+        (key) => typeof key === "string" || key instanceof Keyword
+      )
+    ) {
+      return [
+        MAP_MARKER,
+        ...[...value].flatMap(([key, item]) => [
+          encodeValue(key),
+          encodeValue(item),
+        ]),
+      ];
+    }
+    return [
+      "~#cmap",
+      [...value].flatMap(([key, item]) => [
+        encodeValue(key),
+        encodeValue(item),
+      ]),
+    ];
+  }
+  if (Array.isArray(value)) return value.map(encodeValue);
+
+  if (typeof value === "object") {
+    const result: unknown[] = [MAP_MARKER];
+    for (const [key, item] of Object.entries(value)) {
+      // Absent optional fields are omitted, as `JSON.stringify` does.
+      if (item !== undefined) result.push(encodeKey(key), encodeValue(item));
+    }
+    return result;
+  }
+
+  throw new TypeError(`Cannot encode a ${typeof value} as transit`);
+}
+
+/**
+ * @internal
+ * Encodes a JavaScript value as a transit+json document, the inverse of {@link decodeTransit}.
+ *
+ * @param {unknown} value - The value to encode, e.g. a request body.
+ * @returns {string} The transit+json text.
+ * @throws {TypeError} If the value contains functions or symbols, which have no transit representation.
+ *
+ * @example
+ * ```typescript
+ * encodeTransit({ "file-id": "a03ea8b8-fc8a-8124-8006-7c45ed7029cf", features: new Set(["layout/grid"]) });
+ * // => '["^ ","~:file-id","~ua03ea8b8-fc8a-8124-8006-7c45ed7029cf","~:features",["~#set",["layout/grid"]]]'
+ * ```
+ */
+export function encodeTransit(value: unknown): string {
+  const encoded = encodeValue(value);
+  // Top-level scalars must be quoted, since a transit document is always an array or a map.
+  return JSON.stringify(Array.isArray(encoded) ? encoded : ["~#'", encoded]);
+}
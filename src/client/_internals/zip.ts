@@ -0,0 +1,317 @@
+/**
+ * @file This module implements the subset of the ZIP format used by Penpot's `.penpot` archives
+ * (binfile v3): reading stored and deflated entries, and writing deflated archives.
+ *
+ * @remarks
+ * Compression relies on the `CompressionStream` and `DecompressionStream` classes with the
+ * `"deflate-raw"` format, which Deno, Node.js, Bun and browsers all provide, so no ZIP library is needed.
+ *
+ * Archives are read through their central directory, including the ZIP64 records that some writers
+ * emit. Since every shape of a design is a separate entry, large files can exceed the 65,535 entries of a
+ * plain ZIP archive; the writer then adds a ZIP64 end of central directory record. Written archives carry
+ * a fixed modification time (1980-01-01), so that writing the same entries always produces the same bytes,
+ * which keeps backups diffable.
+ *
+ * Encrypted entries and multi-disk archives are not supported, and the writer rejects entries that are
+ * larger than 4 GiB or start beyond the first 4 GiB of the archive.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { ApiClientError } from "../errors.ts";
+
+const LOCAL_FILE_HEADER = 0x04034b50;
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50;
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY = 0x06064b50;
+const ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR = 0x07064b50;
+const ZIP64_EXTRA_FIELD = 0x0001;
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+/** General purpose flag: the entry name is encoded as UTF-8. */
+const FLAG_UTF8 = 0x0800;
+/** The largest value of the 16-bit and 32-bit fields, which ZIP64 archives use as placeholders. */
+const MAX_UINT16 = 0xffff;
+const MAX_UINT32 = 0xffffffff;
+/** The DOS date of 1980-01-01, the earliest date ZIP can represent. */
+const FIXED_DOS_DATE = (1 << 5) | 1;
+
+/** The CRC-32 lookup table, computed on first use. */
+let crcTable: Uint32Array | undefined;
+
+/**
+ * Computes the CRC-32 checksum that ZIP stores for every entry.
+ */
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Runs bytes through a compression or decompression stream.
+ */
+async function transform(
+  data: Uint8Array,
+  stream: CompressionStream | DecompressionStream
+): Promise<Uint8Array> {
+  const output = new Blob([data as BlobPart]).stream().pipeThrough(stream);
+  return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/**
+ * Reads the sizes and offset of an entry from its ZIP64 extra field, where its central directory
+ * record holds the `0xFFFFFFFF` placeholder.
+ */
+function readZip64Extra(
+  view: DataView,
+  start: number,
+  end: number,
+  values: { size: number; compressedSize: number; offset: number }
+): void {
+  for (let position = start; position + 4 <= end; ) {
+    const id = view.getUint16(position, true);
+    const length = view.getUint16(position + 2, true);
+    if (id === ZIP64_EXTRA_FIELD) {
+      // The field only holds the values that overflowed, in this order.
+      let field = position + 4;
+      for (const key of ["size", "compressedSize", "offset"] as const) {
+        if (values[key] === MAX_UINT32) {
+          values[key] = Number(view.getBigUint64(field, true));
+          field += 8;
+        }
+      }
+      return;
+    }
+    position += 4 + length;
+  }
+}
+
+/**
+ * @internal
+ * Reads every file entry of a ZIP archive. Directory entries are skipped.
+ *
+ * @param {Uint8Array} data - The bytes of the archive.
+ * @returns {Promise<Map<string, Uint8Array>>} The uncompressed content of each entry, keyed by path,
+ * in the order of the central directory.
+ * @throws {Error} If the data is not a ZIP archive, uses an unsupported feature or fails its checksum.
+ */
+export async function readZip(
+  data: Uint8Array
+): Promise<Map<string, Uint8Array>> {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is at the end, followed by a comment of up to 64 KiB.
+  let end = -1;
+  for (
+    let i = data.length - 22;
+    i >= Math.max(0, data.length - 22 - 0xffff);
+    i--
+  ) {
+    if (view.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end === -1) throw new Error("Not a ZIP archive");
+
+  let count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  // ZIP64 archives precede the record with a locator of the ZIP64 record, which holds the real values.
+  const locator = end - 20;
+  if (
+    locator >= 0 &&
+    view.getUint32(locator, true) === ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR
+  ) {
+    const zip64End = Number(view.getBigUint64(locator + 8, true));
+    if (view.getUint32(zip64End, true) !== ZIP64_END_OF_CENTRAL_DIRECTORY) {
+      throw new Error("Corrupted ZIP64 end of central directory");
+    }
+    count = Number(view.getBigUint64(zip64End + 32, true));
+    position = Number(view.getBigUint64(zip64End + 48, true));
+  }
+
+  const entries = new Map<string, Uint8Array>();
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error("Corrupted ZIP central directory");
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const crc = view.getUint32(position + 16, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const values = {
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true),
+    };
+    const nameStart = position + 46;
+    const name = decoder.decode(
+      data.subarray(nameStart, nameStart + nameLength)
+    );
+    readZip64Extra(
+      view,
+      nameStart + nameLength,
+      nameStart + nameLength + extraLength,
+      values
+    );
+    position = nameStart + nameLength + extraLength + commentLength;
+
+    if (name.endsWith("/")) continue;
+    if (flags & 0x0001) throw new Error(`Encrypted ZIP entry: ${name}`);
+
+    // The local header repeats the name and may have a different extra field.
+    const local = values.offset;
+    if (view.getUint32(local, true) !== LOCAL_FILE_HEADER) {
+      throw new Error(`Corrupted ZIP entry: ${name}`);
+    }
+    const dataStart =
+      local +
+      30 +
+      view.getUint16(local + 26, true) +
+      view.getUint16(local + 28, true);
+    const raw = data.subarray(dataStart, dataStart + values.compressedSize);
+
+    let content: Uint8Array;
+    if (method === METHOD_STORED) {
+      content = raw.slice();
+    } else if (method === METHOD_DEFLATED) {
+      content = await transform(raw, new DecompressionStream("deflate-raw"));
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${name}`);
+    }
+    if (content.length !== values.size || crc32(content) !== crc) {
+      throw new Error(`ZIP entry failed its integrity check: ${name}`);
+    }
+    entries.set(name, content);
+  }
+  return entries;
+}
+
+/**
+ * @internal
+ * Writes a ZIP archive. Entries are deflated, unless that does not make them smaller.
+ * Archives with more than 65,535 entries get a ZIP64 end of central directory record.
+ *
+ * @param {Iterable<[string, Uint8Array]>} entries - The path and content of each entry, in archive order.
+ * @returns {Promise<Uint8Array>} The bytes of the archive.
+ * @throws {ApiClientError} If an entry is larger than 4 GiB or starts beyond the first 4 GiB of the archive,
+ * which would require ZIP64 entry records.
+ */
+export async function writeZip(
+  entries: Iterable<[string, Uint8Array]>
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const centralDirectory: Uint8Array[] = [];
+  let offset = 0;
+  let count = 0;
+
+  for (const [path, content] of entries) {
+    const name = encoder.encode(path);
+    const deflated = await transform(
+      content,
+      new CompressionStream("deflate-raw")
+    );
+    const method =
+      deflated.length < content.length ? METHOD_DEFLATED : METHOD_STORED;
+    const body = method === METHOD_DEFLATED ? deflated : content;
+    const crc = crc32(content);
+    if (content.length > MAX_UINT32 || offset > MAX_UINT32) {
+      throw new ApiClientError(
+        `Cannot write ZIP entry ${path}: entries over 4 GiB, or beyond the first 4 GiB of the archive, are not supported`
+      );
+    }
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, LOCAL_FILE_HEADER, true);
+    local.setUint16(4, 20, true); // Version needed to extract: 2.0.
+    local.setUint16(6, FLAG_UTF8, true);
+    local.setUint16(8, method, true);
+    local.setUint16(10, 0, true); // Modification time: 00:00:00.
+    local.setUint16(12, FIXED_DOS_DATE, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, body.length, true);
+    local.setUint32(22, content.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true);
+    central.setUint16(4, 20, true); // Version made by: 2.0.
+    central.setUint16(6, 20, true);
+    central.setUint16(8, FLAG_UTF8, true);
+    central.setUint16(10, method, true);
+    central.setUint16(12, 0, true);
+    central.setUint16(14, FIXED_DOS_DATE, true);
+    central.setUint32(16, crc, true);
+    central.setUint32(20, body.length, true);
+    central.setUint32(24, content.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    chunks.push(new Uint8Array(local.buffer), name, body);
+    centralDirectory.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + body.length;
+    count++;
+  }
+
+  const directorySize = centralDirectory.reduce(
+    (sum, chunk) => sum + chunk.length,
+    0
+  );
+  const trailer: Uint8Array[] = [];
+  if (count > MAX_UINT16 || offset > MAX_UINT32 || directorySize > MAX_UINT32) {
+    const zip64End = new DataView(new ArrayBuffer(56));
+    zip64End.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY, true);
+    zip64End.setBigUint64(4, 44n, true); // The size of the rest of the record.
+    zip64End.setUint16(12, 45, true); // Version made by: 4.5, which introduced ZIP64.
+    zip64End.setUint16(14, 45, true);
+    zip64End.setBigUint64(24, BigInt(count), true);
+    zip64End.setBigUint64(32, BigInt(count), true);
+    zip64End.setBigUint64(40, BigInt(directorySize), true);
+    zip64End.setBigUint64(48, BigInt(offset), true);
+
+    const locator = new DataView(new ArrayBuffer(20));
+    locator.setUint32(0, ZIP64_END_OF_CENTRAL_DIRECTORY_LOCATOR, true);
+    locator.setBigUint64(8, BigInt(offset + directorySize), true);
+    locator.setUint32(16, 1, true); // The total number of disks.
+    trailer.push(
+      new Uint8Array(zip64End.buffer),
+      new Uint8Array(locator.buffer)
+    );
+  }
+
+  // Values that overflow are replaced by placeholders, pointing readers to the ZIP64 record.
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+  end.setUint16(8, Math.min(count, MAX_UINT16), true);
+  end.setUint16(10, Math.min(count, MAX_UINT16), true);
+  end.setUint32(12, Math.min(directorySize, MAX_UINT32), true);
+  end.setUint32(16, Math.min(offset, MAX_UINT32), true);
+  trailer.push(new Uint8Array(end.buffer));
+
+  return new Uint8Array(
+    await new Blob([
+      ...chunks,
+      ...centralDirectory,
+      ...trailer,
+    ] as BlobPart[]).arrayBuffer()
+  );
+}
@@ -12,6 +12,8 @@
  * @packageDocumentation
  */
 
+import { parseRetryAfter } from "./_internals/retry.ts";
+
 /**
  * The base error class for all client-side exceptions originating from the Penpot API client.
  * All custom errors thrown by the client (e.g., HTTP errors, network errors, client-side processing errors)
@@ -23,9 +25,7 @@
  * @property {unknown} [cause] - Optional. The underlying error that caused this `ApiError`.
  * This property is crucial for error chaining, providing a stack of errors that led to the current one,
  * which greatly aids in debugging and understanding the root cause of an issue.
- * The `override` keyword is explicitly used here as the base `Error` class
- * in modern JavaScript environments now includes its own `cause` property, ensuring proper
- * method/property overriding.
+ * The property is only re-declared for its type: the value is set by the base `Error` constructor.
  *
  * @example
  * ```typescript
@@ -54,10 +54,10 @@
 export abstract class ApiError extends Error {
   /**
    * The underlying error that caused this one.
-   * The `override` keyword is required because the base `Error` class
-   * now has its own `cause` property.
+   * The field is declared without an initializer, because a class field would be
+   * re-initialized to `undefined` after the base `Error` constructor has set it.
    */
-  public override readonly cause?: unknown;
+  public declare readonly cause?: unknown;
 
   /**
    * Creates an instance of `ApiError`.
@@ -85,6 +85,9 @@ export abstract class ApiError extends Error {
  * @property {unknown} details - The parsed error response body from the server. This can be a structured JSON object
  * (e.g., `{ code: "OBJECT_NOT_FOUND", message: "Resource not found" }`) or a plain text string,
  * providing more granular information about the API error.
+ * @property {string} [type] - The error `type` of a Penpot error body, e.g. `"validation"` or `"not-found"`.
+ * @property {string} [code] - The error `code` of a Penpot error body, e.g. `"object-not-found"`.
+ * @property {string} [hint] - The human-readable `hint` of a Penpot error body.
  *
  * @example
  * ```typescript
@@ -120,6 +123,9 @@ export class ApiHttpError extends ApiError {
   public readonly status: number;
   public readonly statusText: string;
   public readonly details: unknown;
+  public readonly type?: string;
+  public readonly code?: string;
+  public readonly hint?: string;
 
   /**
    * Creates an instance of `ApiHttpError`.
@@ -136,6 +142,167 @@ export class ApiHttpError extends ApiError {
     this.status = response.status;
     this.statusText = response.statusText;
     this.details = details;
+    const body = asPenpotErrorBody(details);
+    this.type = body?.type;
+    this.code = body?.code;
+    this.hint = body?.hint;
+  }
+}
+
+/**
+ * The error payload returned by the Penpot backend. Only `type` is always present; every other field
+ * depends on the error, e.g. `explain` is only sent for schema validation failures.
+ *
+ * @interface PenpotErrorBody
+ * @property {string} type - The error category, e.g. `"validation"`, `"authentication"` or `"not-found"`.
+ * @property {string} [code] - The specific error, e.g. `"params-validation"` or `"object-not-found"`.
+ * @property {string} [hint] - A human-readable description of the error.
+ * @property {string} [explain] - A human-readable explanation of the schema validation failure.
+ */
+export interface PenpotErrorBody {
+  type: string;
+  code?: string;
+  hint?: string;
+  explain?: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Returns the error body if it has the shape of a Penpot error payload.
+ */
+function asPenpotErrorBody(details: unknown): PenpotErrorBody | undefined {
+  if (
+    typeof details === "object" &&
+    details !== null &&
+    typeof (details as { type?: unknown }).type === "string"
+  ) {
+    return details as PenpotErrorBody;
+  }
+  return undefined;
+}
+
+/**
+ * An {@link ApiHttpError} for requests the server rejected as invalid, typically because the parameters do not
+ * match the command schema (`type: "validation"`, HTTP `400`).
+ *
+ * @class ApiValidationError
+ * @extends ApiHttpError
+ * @property {string} [explain] - The server's explanation of the schema validation failure, when it sends one.
+ *
+ * @example
+ * ```typescript
+ * const { error } = await client.files.getFile({ id: "not-a-uuid" }).exec();
+ * if (error instanceof ApiValidationError) {
+ * console.error(error.code, error.explain);
+ * }
+ * ```
+ */
+export class ApiValidationError extends ApiHttpError {
+  public readonly explain?: string;
+
+  /**
+   * Creates an instance of `ApiValidationError`.
+   *
+   * @param {Response} response - The raw `Response` object received from the `fetch` API call.
+   * @param {unknown} details - The parsed error details from the response body.
+   */
+  constructor(response: Response, details: unknown) {
+    super(response, details);
+    this.explain = asPenpotErrorBody(details)?.explain;
+  }
+}
+
+/**
+ * An {@link ApiHttpError} for requests that reference an object that does not exist or is not visible to the
+ * authenticated profile (`type: "not-found"`, HTTP `404`).
+ *
+ * @class ApiNotFoundError
+ * @extends ApiHttpError
+ */
+export class ApiNotFoundError extends ApiHttpError {}
+
+/**
+ * An {@link ApiHttpError} for requests without valid credentials, e.g. an expired or revoked access token
+ * (`type: "authentication"`, HTTP `401`).
+ *
+ * @class ApiAuthenticationError
+ * @extends ApiHttpError
+ */
+export class ApiAuthenticationError extends ApiHttpError {}
+
+/**
+ * An {@link ApiHttpError} for requests the authenticated profile is not allowed to make
+ * (`type: "authorization"`, HTTP `403`).
+ *
+ * @class ApiAuthorizationError
+ * @extends ApiHttpError
+ */
+export class ApiAuthorizationError extends ApiHttpError {}
+
+/**
+ * An {@link ApiHttpError} for requests rejected by the server's rate or concurrency limits
+ * (`type: "rate-limit"` or `"concurrency-limit"`, HTTP `429`).
+ *
+ * @class ApiRateLimitError
+ * @extends ApiHttpError
+ * @property {number} [retryAfterMs] - How long the server asks to wait before retrying, from the `Retry-After` header.
+ */
+export class ApiRateLimitError extends ApiHttpError {
+  public readonly retryAfterMs?: number;
+
+  /**
+   * Creates an instance of `ApiRateLimitError`.
+   *
+   * @param {Response} response - The raw `Response` object received from the `fetch` API call.
+   * @param {unknown} details - The parsed error details from the response body.
+   */
+  constructor(response: Response, details: unknown) {
+    super(response, details);
+    this.retryAfterMs = parseRetryAfter(response.headers.get("Retry-After"));
+  }
+}
+
+/**
+ * @internal
+ * Creates the most specific {@link ApiHttpError} subclass for a failed response. The error `type` of a
+ * Penpot error body takes precedence; the HTTP status is used when the body has no known `type`.
+ *
+ * @param {Response} response - The raw `Response` object received from the `fetch` API call.
+ * @param {unknown} details - The parsed error details from the response body.
+ * @returns {ApiHttpError} The error to throw.
+ */
+export function createHttpError(
+  response: Response,
+  details: unknown
+): ApiHttpError {
+  switch (asPenpotErrorBody(details)?.type) {
+    case "validation":
+      return new ApiValidationError(response, details);
+    case "not-found":
+      return new ApiNotFoundError(response, details);
+    case "authentication":
+      return new ApiAuthenticationError(response, details);
+    case "authorization":
+      return new ApiAuthorizationError(response, details);
+    case "rate-limit":
+    case "concurrency-limit":
+      return new ApiRateLimitError(response, details);
+  }
+
+  switch (response.status) {
+    case 400:
+    case 422:
+      return new ApiValidationError(response, details);
+    case 401:
+      return new ApiAuthenticationError(response, details);
+    case 403:
+      return new ApiAuthorizationError(response, details);
+    case 404:
+      return new ApiNotFoundError(response, details);
+    case 429:
+      return new ApiRateLimitError(response, details);
+    default:
+      return new ApiHttpError(response, details);
   }
 }
 
@@ -185,3 +352,149 @@ export class ApiClientError extends ApiError {
     super(message, options);
   }
 }
+
+/**
+ * An error that occurs when a request does not complete within its timeout,
+ * set client-wide with `PenpotClientConfig.timeoutMs` or per request with `RequestBuilder.withTimeout`.
+ * The timeout covers the whole request, including reading the response body or SSE stream.
+ *
+ * @class ApiTimeoutError
+ * @extends ApiError
+ * @property {number} timeoutMs - The timeout that elapsed, in milliseconds.
+ *
+ * @example
+ * ```typescript
+ * const { error } = await client.files.getFile({ id: fileId }).withTimeout(5_000).exec();
+ * if (error instanceof ApiTimeoutError) {
+ * console.warn(`Penpot did not answer within ${error.timeoutMs} ms`);
+ * }
+ * ```
+ */
+export class ApiTimeoutError extends ApiError {
+  public readonly timeoutMs: number;
+
+  /**
+   * Creates an instance of `ApiTimeoutError`.
+   *
+   * @param {number} timeoutMs - The timeout that elapsed, in milliseconds.
+   * @param {object} [options] - Optional configuration options.
+   * @param {unknown} [options.cause] - The error raised by the interrupted `fetch` or stream read.
+   */
+  constructor(timeoutMs: number, options?: { cause: unknown }) {
+    super(`Request timed out after ${timeoutMs} ms`, options);
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * An error that occurs when a request is cancelled through the `AbortSignal`
+ * passed to `RequestBuilder.withSignal`.
+ *
+ * @class ApiAbortError
+ * @extends ApiError
+ *
+ * @example
+ * ```typescript
+ * const controller = new AbortController();
+ * cancelButton.onclick = () => controller.abort();
+ *
+ * const { error } = await client.files.importFile(params).withSignal(controller.signal).exec();
+ * if (error instanceof ApiAbortError) {
+ * console.log("Import cancelled");
+ * }
+ * ```
+ */
+export class ApiAbortError extends ApiError {
+  /**
+   * Creates an instance of `ApiAbortError`.
+   *
+   * @param {object} [options] - Optional configuration options.
+   * @param {unknown} [options.cause] - The abort reason of the signal.
+   */
+  constructor(options?: { cause: unknown }) {
+    super("Request was aborted", options);
+  }
+}
+
+/**
+ * A single mismatch between a request or response body and its schema.
+ *
+ * @interface SchemaIssue
+ * @property {string} path - Where the mismatch is, as a JSON path into the camelCase body, e.g. `"$.pages[0].id"`.
+ * @property {string} message - What is wrong, e.g. `"expected string, received a number"`.
+ */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * An error that occurs when schema validation is enabled with `PenpotClientConfig.validate`
+ * and a request or response body does not match its schema in the OpenAPI specification.
+ * It usually means that the client and the Penpot instance run different API versions.
+ *
+ * @class ApiSchemaError
+ * @extends ApiError
+ * @property {string} command - The command whose body is invalid, e.g. `"get-file"`.
+ * @property {"request" | "response"} direction - Whether the request or the response body is invalid.
+ * @property {SchemaIssue[]} issues - Every mismatch that was found.
+ * @property {unknown} data - The invalid body, in its camelCase form.
+ *
+ * @example
+ * ```typescript
+ * const client = new PenpotClient({ baseUrl, accessToken, validate: true });
+ * const { error } = await client.files.getFile({ id: fileId }).exec();
+ * if (error instanceof ApiSchemaError) {
+ * for (const issue of error.issues) {
+ * console.warn(`${error.command}: ${issue.path} ${issue.message}`);
+ * }
+ * }
+ * ```
+ */
+export class ApiSchemaError extends ApiError {
+  public readonly command: string;
+  public readonly direction: "request" | "response";
+  public readonly issues: SchemaIssue[];
+  public readonly data: unknown;
+
+  /**
+   * Creates an instance of `ApiSchemaError`.
+   *
+   * @param {string} command - The command whose body is invalid.
+   * @param {"request" | "response"} direction - Whether the request or the response body is invalid.
+   * @param {SchemaIssue[]} issues - The mismatches; there must be at least one.
+   * @param {unknown} data - The invalid body.
+   */
+  constructor(
+    command: string,
+    direction: "request" | "response",
+    issues: SchemaIssue[],
+    data: unknown
+  ) {
+    const [first] = issues;
+    const more =
+      issues.length > 1 ? ` (and ${issues.length - 1} more issues)` : "";
+    super(
+      `The ${direction} of ${command} does not match its schema: ${first.path} ${first.message}${more}`
+    );
+    this.command = command;
+    this.direction = direction;
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+/**
+ * @internal
+ * Normalises any caught value into an {@link ApiError}. `ApiError` instances are returned unchanged;
+ * anything else is wrapped in an {@link ApiClientError} with the original value as `cause`.
+ *
+ * @param {unknown} error - The caught value.
+ * @returns {ApiError} The normalised error.
+ */
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+  return new ApiClientError("Unexpected error while processing the request", {
+    cause: error,
+  });
+}
@@ -0,0 +1,170 @@
+/**
+ * @file This module compares two states of a Penpot file, e.g. the state read when a snapshot was taken
+ * and the state after the file was modified or restored.
+ * It exposes {@link diffFileStates}, which lists the pages and objects that were added, removed or changed.
+ *
+ * @remarks
+ * Penpot does not return the content of a snapshot, so the state of a file at the time of a snapshot is the
+ * file returned by `FilesApi.getFile` when the snapshot was taken. `FilesApi.diffFileState` compares such
+ * a state with the current file.
+ *
+ * The pages of a file are stored in `data.pagesIndex`, keyed by page id, and the objects (shapes) of each
+ * page in its `objects` map, keyed by object id. Values are compared structurally, so the files may be
+ * decoded from JSON or from transit.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import type { components } from "./generated/types.ts";
+
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+
+/**
+ * A state of a file, as returned by `FilesApi.getFile` (with the default camelCase keys).
+ * Only `data.pagesIndex` is compared.
+ */
+export interface FileState {
+  data?: unknown;
+}
+
+/**
+ * An object of a page, identified by the page and object ids.
+ */
+export interface FileObjectRef {
+  pageId: Uuid;
+  id: Uuid;
+}
+
+/**
+ * The differences between two states of a file.
+ *
+ * @interface FileStateDiff
+ * @property {object} pages - The ids of the pages that were `added`, `removed` or `changed`. A page is changed
+ * if any of its properties or objects differ.
+ * @property {object} objects - The objects that were `added`, `removed` or `changed`, on every page. The objects
+ * of added and removed pages are listed as added and removed as well.
+ */
+export interface FileStateDiff {
+  pages: { added: Uuid[]; removed: Uuid[]; changed: Uuid[] };
+  objects: {
+    added: FileObjectRef[];
+    removed: FileObjectRef[];
+    changed: FileObjectRef[];
+  };
+}
+
+/**
+ * Returns a record-valued property of a value, or an empty record if it is missing or not an object.
+ */
+function recordOf(value: unknown, key: string): Record<string, unknown> {
+  const property =
+    value && typeof value === "object"
+      ? (value as Record<string, unknown>)[key]
+      : undefined;
+  return property && typeof property === "object"
+    ? (property as Record<string, unknown>)
+    : {};
+}
+
+/**
+ * Compares two decoded values structurally, including the `Set`s, `Map`s and `Date`s of transit payloads.
+ */
+function isEqual(a: unknown, b: unknown): boolean {
+  if (Object.is(a, b)) return true;
+  if (!a || !b || typeof a !== "object" || typeof b !== "object") return false;
+  if (Object.getPrototypeOf(a) !== Object.getPrototypeOf(b)) return false;
+
+  if (a instanceof Date) return a.getTime() === (b as Date).getTime();
+  if (a instanceof Set) {
+    const other = b as Set<unknown>;
+    return a.size === other.size && [...a].every((item) => other.has(item));
+  }
+  if (a instanceof Map) {
+    const other = b as Map<unknown, unknown>;
+    return (
+      a.size === other.size &&
+      [...a].every(
+        ([key, value]) => other.has(key) && isEqual(value, other.get(key))
+      )
+    );
+  }
+  if (Array.isArray(a)) {
+    const other = b as unknown[];
+    return (
+      a.length === other.length &&
+      a.every((item, index) => isEqual(item, other[index]))
+    );
+  }
+
+  const left = a as Record<string, unknown>;
+  const right = b as Record<string, unknown>;
+  const keys = Object.keys(left);
+  return (
+    keys.length === Object.keys(right).length &&
+    keys.every((key) => key in right && isEqual(left[key], right[key]))
+  );
+}
+
+/**
+ * Lists the pages and objects that were added, removed or changed between two states of a file.
+ *
+ * @param {FileState} before - The earlier state, e.g. the file read when a snapshot was taken.
+ * @param {FileState} after - The later state, e.g. the current file.
+ * @returns {FileStateDiff} The added, removed and changed pages and objects, in the order of their maps.
+ *
+ * @example
+ * ```typescript
+ * const { data: before } = await client.files.getFile({ id: fileId }).exec();
+ * await client.files.withSnapshot(fileId, "Before cleanup", () => cleanUp(fileId));
+ * const { data: after } = await client.files.getFile({ id: fileId }).exec();
+ *
+ * const diff = diffFileStates(before!, after!);
+ * console.log(`${diff.objects.removed.length} objects removed`);
+ * ```
+ */
+export function diffFileStates(
+  before: FileState,
+  after: FileState
+): FileStateDiff {
+  const beforePages = recordOf(before.data, "pagesIndex");
+  const afterPages = recordOf(after.data, "pagesIndex");
+  const diff: FileStateDiff = {
+    pages: { added: [], removed: [], changed: [] },
+    objects: { added: [], removed: [], changed: [] },
+  };
+
+  for (const pageId of Object.keys(beforePages)) {
+    if (!(pageId in afterPages)) {
+      diff.pages.removed.push(pageId);
+      for (const id of Object.keys(recordOf(beforePages[pageId], "objects"))) {
+        diff.objects.removed.push({ pageId, id });
+      }
+    }
+  }
+
+  for (const [pageId, page] of Object.entries(afterPages)) {
+    const objects = recordOf(page, "objects");
+    if (!(pageId in beforePages)) {
+      diff.pages.added.push(pageId);
+      for (const id of Object.keys(objects)) {
+        diff.objects.added.push({ pageId, id });
+      }
+      continue;
+    }
+
+    if (!isEqual(beforePages[pageId], page)) diff.pages.changed.push(pageId);
+    const previous = recordOf(beforePages[pageId], "objects");
+    for (const id of Object.keys(previous)) {
+      if (!(id in objects)) diff.objects.removed.push({ pageId, id });
+    }
+    for (const [id, object] of Object.entries(objects)) {
+      if (!(id in previous)) diff.objects.added.push({ pageId, id });
+      else if (!isEqual(previous[id], object)) {
+        diff.objects.changed.push({ pageId, id });
+      }
+    }
+  }
+
+  return diff;
+}
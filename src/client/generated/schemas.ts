@@ -0,0 +1,4840 @@
+/**
+ * @file This file was auto-generated from `openapi.json` by `src/scripts/generate.ts`.
+ * Do not make direct changes to the file; run `deno task gen` instead.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import type { JsonSchema } from "../_internals/schema.ts";
+
+/** The request and response schemas of each command, keyed by command name. */
+export const commandSchemas: Record<
+  string,
+  { request?: JsonSchema; response?: JsonSchema }
+> = {
+  "clone-file-media-object": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isLocal": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "isLocal",
+        "id"
+      ]
+    }
+  },
+  "clone-template": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "templateId": {
+          "$ref": "#/components/schemas/appCommonSchema$word-string"
+        }
+      },
+      "required": [
+        "projectId",
+        "templateId"
+      ]
+    }
+  },
+  "create-access-token": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "minLength": 1,
+          "maxLength": 250
+        },
+        "expiration": {
+          "$ref": "#/components/schemas/appUtilTime$duration"
+        }
+      },
+      "required": [
+        "name"
+      ]
+    }
+  },
+  "create-comment": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "threadId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "content": {
+          "type": "string",
+          "maxLength": 750
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        },
+        "mentions": {}
+      },
+      "required": [
+        "threadId",
+        "content"
+      ]
+    }
+  },
+  "create-comment-thread": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "position": {
+          "$ref": "#/components/schemas/appCommonGeomPoint$point"
+        },
+        "content": {
+          "type": "string",
+          "maxLength": 750
+        },
+        "pageId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "frameId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        },
+        "mentions": {}
+      },
+      "required": [
+        "fileId",
+        "position",
+        "content",
+        "pageId",
+        "frameId"
+      ]
+    }
+  },
+  "create-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isShared": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        }
+      },
+      "required": [
+        "name",
+        "projectId"
+      ]
+    }
+  },
+  "create-file-media-object-from-url": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isLocal": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "url": {
+          "$ref": "#/components/schemas/appCommonSchema$uri"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        }
+      },
+      "required": [
+        "fileId",
+        "isLocal",
+        "url"
+      ]
+    }
+  },
+  "create-file-object-thumbnail": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "objectId": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "media": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        },
+        "tag": {
+          "type": "string",
+          "maxLength": 50
+        }
+      },
+      "required": [
+        "fileId",
+        "objectId",
+        "media"
+      ]
+    }
+  },
+  "create-file-snapshot": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "label": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "create-file-thumbnail": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "revn": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "media": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        }
+      },
+      "required": [
+        "fileId",
+        "revn",
+        "media"
+      ]
+    }
+  },
+  "create-font-variant": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "data": {
+          "type": "object",
+          "additionalProperties": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          }
+        },
+        "fontId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fontFamily": {
+          "$ref": "#/components/schemas/appCommonSchema$text"
+        },
+        "fontWeight": {},
+        "fontStyle": {}
+      },
+      "required": [
+        "teamId",
+        "data",
+        "fontId",
+        "fontFamily",
+        "fontWeight",
+        "fontStyle"
+      ]
+    }
+  },
+  "create-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string",
+          "minLength": 1,
+          "maxLength": 250
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "name"
+      ]
+    }
+  },
+  "create-share-link": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "whoComment": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "whoInspect": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "pages": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "uniqueItems": true
+        }
+      },
+      "required": [
+        "fileId",
+        "whoComment",
+        "whoInspect",
+        "pages"
+      ]
+    }
+  },
+  "create-team": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "name"
+      ]
+    }
+  },
+  "create-team-access-request": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "teamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "isViewer": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "create-team-invitations": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "role": {
+          "$ref": "#/components/schemas/appCommonTypesTeam$role"
+        },
+        "emails": {}
+      },
+      "required": [
+        "teamId",
+        "role",
+        "emails"
+      ]
+    }
+  },
+  "create-team-with-invitations": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "emails": {},
+        "role": {
+          "$ref": "#/components/schemas/appCommonTypesTeam$role"
+        }
+      },
+      "required": [
+        "name",
+        "emails",
+        "role"
+      ]
+    }
+  },
+  "create-temp-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isShared": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "createPage": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        }
+      },
+      "required": [
+        "name",
+        "projectId",
+        "isShared",
+        "features",
+        "createPage"
+      ]
+    }
+  },
+  "create-webhook": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "uri": {
+          "$ref": "#/components/schemas/appCommonSchema$uri"
+        },
+        "mtype": {}
+      },
+      "required": [
+        "teamId",
+        "uri",
+        "mtype"
+      ]
+    }
+  },
+  "delete-access-token": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-comment": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-comment-thread": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-file-object-thumbnail": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "objectId": {
+          "type": "string",
+          "maxLength": 250
+        }
+      },
+      "required": [
+        "fileId",
+        "objectId"
+      ]
+    }
+  },
+  "delete-file-snapshot": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-font": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "id"
+      ]
+    }
+  },
+  "delete-font-variant": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "id"
+      ]
+    }
+  },
+  "delete-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-share-link": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-team": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "delete-team-invitation": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        }
+      },
+      "required": [
+        "teamId",
+        "email"
+      ]
+    }
+  },
+  "delete-team-member": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "memberId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "memberId"
+      ]
+    }
+  },
+  "delete-webhook": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "duplicate-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "duplicate-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        }
+      },
+      "required": [
+        "projectId"
+      ]
+    }
+  },
+  "export-binfile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "version": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "includeLibraries": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "embedAssets": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        }
+      },
+      "required": [
+        "fileId",
+        "includeLibraries",
+        "embedAssets"
+      ]
+    }
+  },
+  "get-access-tokens": {
+    "request": {
+      "type": "object",
+      "properties": {}
+    }
+  },
+  "get-all-projects": {
+    "request": {
+      "type": "object",
+      "properties": {}
+    }
+  },
+  "get-comment-thread": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "fileId",
+        "id"
+      ]
+    }
+  },
+  "get-comment-threads": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "teamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "shareId": {
+              "oneOf": [
+                {
+                  "$ref": "#/components/schemas/appCommonSchema$uuid"
+                },
+                {
+                  "type": "null"
+                }
+              ]
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "get-comments": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "threadId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "threadId"
+      ]
+    }
+  },
+  "get-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "hasMediaTrimmed": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "commentThreadSeqn": {},
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "revn": {},
+        "vern": {},
+        "modifiedAt": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        },
+        "isShared": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "createdAt": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        },
+        "data": {
+          "$ref": "#/components/schemas/appCommonSchema$any"
+        },
+        "permissions": {
+          "$ref": "#/components/schemas/appRpcPermissions$permissions"
+        }
+      },
+      "required": [
+        "id",
+        "features",
+        "hasMediaTrimmed",
+        "commentThreadSeqn",
+        "name",
+        "revn",
+        "vern",
+        "modifiedAt",
+        "isShared",
+        "projectId",
+        "createdAt",
+        "permissions"
+      ]
+    }
+  },
+  "get-file-data-for-thumbnail": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "revn": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "page": {}
+      },
+      "required": [
+        "id",
+        "revn",
+        "page"
+      ]
+    }
+  },
+  "get-file-fragment": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fragmentId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "fragmentId"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "createdAt": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        },
+        "content": {}
+      },
+      "required": [
+        "id",
+        "fileId",
+        "createdAt",
+        "content"
+      ]
+    }
+  },
+  "get-file-info": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "get-file-libraries": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-file-object-thumbnails": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "tag": {
+          "type": "string",
+          "maxLength": 50
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "additionalProperties": {
+        "type": "string",
+        "maxLength": 250
+      }
+    }
+  },
+  "get-file-snapshots": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-file-summary": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "get-font-variants": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "teamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "projectId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "shareId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "get-library-file-references": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-owned-teams": {
+    "request": {
+      "type": "object",
+      "properties": {}
+    }
+  },
+  "get-page": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "pageId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "objectId": {
+          "anyOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {}
+          ]
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-profile": {
+    "request": {
+      "type": "object",
+      "properties": {}
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fullname": {},
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "isActive": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isBlocked": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isDemo": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isMuted": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "createdAt": {
+          "$ref": "#/components/schemas/appCommonSchema$inst"
+        },
+        "modifiedAt": {
+          "$ref": "#/components/schemas/appCommonSchema$inst"
+        },
+        "defaultProjectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "defaultTeamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "props": {
+          "type": "object",
+          "properties": {
+            "plugins": {
+              "type": "object",
+              "properties": {
+                "ids": {
+                  "type": "array",
+                  "items": {
+                    "type": "string"
+                  }
+                },
+                "data": {
+                  "type": "object",
+                  "additionalProperties": {
+                    "type": "object",
+                    "properties": {
+                      "pluginId": {
+                        "type": "string"
+                      },
+                      "name": {
+                        "type": "string"
+                      },
+                      "description": {
+                        "type": "string"
+                      },
+                      "host": {
+                        "type": "string"
+                      },
+                      "code": {
+                        "type": "string"
+                      },
+                      "icon": {
+                        "type": "string"
+                      },
+                      "permissions": {
+                        "type": "array",
+                        "items": {
+                          "type": "string"
+                        },
+                        "uniqueItems": true
+                      }
+                    },
+                    "required": [
+                      "pluginId",
+                      "name",
+                      "host",
+                      "code",
+                      "permissions"
+                    ]
+                  }
+                }
+              },
+              "required": [
+                "ids",
+                "data"
+              ]
+            },
+            "newsletterUpdates": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "newsletterNews": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "onboardingTeamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "onboardingViewed": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "v2InfoShown": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "welcomeFileId": {
+              "oneOf": [
+                {
+                  "$ref": "#/components/schemas/appCommonSchema$boolean"
+                },
+                {
+                  "type": "null"
+                }
+              ]
+            },
+            "releaseNotesViewed": {},
+            "notifications": {
+              "type": "object",
+              "properties": {
+                "dashboardComments": {},
+                "emailComments": {},
+                "emailInvites": {}
+              },
+              "required": [
+                "dashboardComments",
+                "emailComments",
+                "emailInvites"
+              ]
+            },
+            "workspaceVisited": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            }
+          }
+        }
+      },
+      "required": [
+        "id",
+        "fullname",
+        "email"
+      ]
+    }
+  },
+  "get-profiles-for-file-comments": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "get-project-files": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "projectId"
+      ]
+    },
+    "response": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "features": {
+            "$ref": "#/components/schemas/appCommonFeatures$features"
+          },
+          "hasMediaTrimmed": {
+            "$ref": "#/components/schemas/appCommonSchema$boolean"
+          },
+          "commentThreadSeqn": {},
+          "name": {
+            "type": "string",
+            "maxLength": 250
+          },
+          "revn": {},
+          "vern": {},
+          "modifiedAt": {
+            "$ref": "#/components/schemas/appUtilTime$instant"
+          },
+          "isShared": {
+            "$ref": "#/components/schemas/appCommonSchema$boolean"
+          },
+          "projectId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "createdAt": {
+            "$ref": "#/components/schemas/appUtilTime$instant"
+          },
+          "data": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          }
+        },
+        "required": [
+          "id",
+          "features",
+          "hasMediaTrimmed",
+          "commentThreadSeqn",
+          "name",
+          "revn",
+          "vern",
+          "modifiedAt",
+          "isShared",
+          "projectId",
+          "createdAt"
+        ]
+      }
+    }
+  },
+  "get-projects": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "id": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "get-team-info": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "id": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "get-team-invitation-token": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        }
+      },
+      "required": [
+        "teamId",
+        "email"
+      ]
+    }
+  },
+  "get-team-invitations": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team-members": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team-recent-files": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team-shared-files": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team-stats": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-team-users": {
+    "request": {
+      "allOf": [
+        {
+          "type": "object",
+          "properties": {
+            "teamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "fileId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            }
+          }
+        },
+        {}
+      ]
+    }
+  },
+  "get-teams": {
+    "request": {
+      "type": "object",
+      "properties": {}
+    }
+  },
+  "get-unread-comment-threads": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "get-view-only-bundle": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    }
+  },
+  "get-webhooks": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "has-file-libraries": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId"
+      ]
+    },
+    "response": {
+      "$ref": "#/components/schemas/appCommonSchema$boolean"
+    }
+  },
+  "ignore-file-library-sync-status": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "date": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        }
+      },
+      "required": [
+        "fileId",
+        "date"
+      ]
+    }
+  },
+  "import-binfile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "anyOf": [
+            {
+              "type": "string",
+              "maxLength": 250
+            },
+            {
+              "type": "object",
+              "additionalProperties": {
+                "type": "string",
+                "maxLength": 250
+              }
+            }
+          ]
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "version": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "file": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        }
+      },
+      "required": [
+        "name",
+        "projectId",
+        "file"
+      ]
+    }
+  },
+  "leave-team": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "reassignTo": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "link-file-to-library": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "libraryId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "libraryId"
+      ]
+    }
+  },
+  "login-with-ldap": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "password": {},
+        "invitationToken": {}
+      },
+      "required": [
+        "email",
+        "password"
+      ]
+    }
+  },
+  "login-with-password": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "password": {},
+        "invitationToken": {}
+      },
+      "required": [
+        "email",
+        "password"
+      ]
+    }
+  },
+  "logout": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "profileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      }
+    }
+  },
+  "mark-all-threads-as-read": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "threads": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        }
+      },
+      "required": [
+        "threads"
+      ]
+    }
+  },
+  "move-files": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "ids": {},
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "ids",
+        "projectId"
+      ]
+    }
+  },
+  "move-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "projectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "projectId"
+      ]
+    }
+  },
+  "persist-temp-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "prepare-register-profile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fullname": {
+          "$ref": "#/components/schemas/appCommonSchema$text"
+        },
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "password": {},
+        "createWelcomeFile": {
+          "type": "boolean"
+        },
+        "invitationToken": {}
+      },
+      "required": [
+        "fullname",
+        "email",
+        "password"
+      ]
+    }
+  },
+  "push-audit-events": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "events": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "name": {
+                "allOf": [
+                  {
+                    "type": "string",
+                    "maxLength": 250
+                  },
+                  {
+                    "type": "string",
+                    "pattern": "[\\d\\w-]{1,50}"
+                  }
+                ]
+              },
+              "type": {
+                "allOf": [
+                  {
+                    "type": "string",
+                    "maxLength": 250
+                  },
+                  {}
+                ]
+              },
+              "props": {
+                "type": "object",
+                "additionalProperties": {
+                  "$ref": "#/components/schemas/appCommonSchema$any"
+                }
+              },
+              "context": {
+                "type": "object",
+                "additionalProperties": {
+                  "$ref": "#/components/schemas/appCommonSchema$any"
+                }
+              }
+            },
+            "required": [
+              "name",
+              "type",
+              "props"
+            ]
+          }
+        }
+      },
+      "required": [
+        "events"
+      ]
+    }
+  },
+  "recover-profile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "token": {},
+        "password": {}
+      },
+      "required": [
+        "token",
+        "password"
+      ]
+    }
+  },
+  "register-profile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "token": {}
+      },
+      "required": [
+        "token"
+      ]
+    }
+  },
+  "rename-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "minLength": 1,
+          "maxLength": 250
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "name",
+        "id"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "createdAt": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        },
+        "modifiedAt": {
+          "$ref": "#/components/schemas/appUtilTime$instant"
+        }
+      },
+      "required": [
+        "id",
+        "name",
+        "createdAt",
+        "modifiedAt"
+      ]
+    }
+  },
+  "rename-project": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "minLength": 1,
+          "maxLength": 250
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "name",
+        "id"
+      ]
+    }
+  },
+  "request-email-change": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        }
+      },
+      "required": [
+        "email"
+      ]
+    }
+  },
+  "request-profile-recovery": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        }
+      },
+      "required": [
+        "email"
+      ]
+    }
+  },
+  "restore-file-snapshot": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "id"
+      ]
+    }
+  },
+  "search-files": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "searchTerm": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "teamId"
+      ]
+    }
+  },
+  "send-user-feedback": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "subject": {
+          "type": "string",
+          "maxLength": 400
+        },
+        "content": {
+          "type": "string",
+          "maxLength": 2500
+        }
+      },
+      "required": [
+        "subject",
+        "content"
+      ]
+    }
+  },
+  "set-file-shared": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isShared": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        }
+      },
+      "required": [
+        "id",
+        "isShared"
+      ]
+    }
+  },
+  "unlink-file-from-library": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "libraryId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "libraryId"
+      ]
+    }
+  },
+  "update-comment": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "content": {
+          "type": "string",
+          "maxLength": 750
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        },
+        "mentions": {}
+      },
+      "required": [
+        "id",
+        "content"
+      ]
+    }
+  },
+  "update-comment-thread": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isResolved": {
+          "type": "boolean"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id",
+        "isResolved"
+      ]
+    }
+  },
+  "update-comment-thread-frame": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "frameId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id",
+        "frameId"
+      ]
+    }
+  },
+  "update-comment-thread-position": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "position": {
+          "$ref": "#/components/schemas/appCommonGeomPoint$point"
+        },
+        "frameId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id",
+        "position",
+        "frameId"
+      ]
+    }
+  },
+  "update-comment-thread-status": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "shareId": {
+          "oneOf": [
+            {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "id"
+      ]
+    }
+  },
+  "update-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "sessionId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "revn": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "vern": {
+          "$ref": "#/components/schemas/appCommonSchema$int"
+        },
+        "features": {
+          "$ref": "#/components/schemas/appCommonFeatures$features"
+        },
+        "changes": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/appCommonFilesChanges$change"
+          }
+        },
+        "changesWithMetadata": {
+          "type": "array",
+          "items": {
+            "type": "object",
+            "properties": {
+              "changes": {
+                "type": "array",
+                "items": {
+                  "$ref": "#/components/schemas/appCommonFilesChanges$change"
+                }
+              },
+              "hintOrigin": {
+                "type": "string"
+              },
+              "hintEvents": {
+                "type": "array",
+                "items": {
+                  "type": "string",
+                  "maxLength": 250
+                }
+              }
+            },
+            "required": [
+              "changes"
+            ]
+          }
+        },
+        "skipValidate": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        }
+      },
+      "required": [
+        "id",
+        "sessionId",
+        "revn",
+        "vern"
+      ]
+    },
+    "response": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "changes": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/appCommonFilesChanges$change"
+            }
+          },
+          "fileId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "revn": {
+            "$ref": "#/components/schemas/appCommonSchema$int"
+          },
+          "sessionId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "changes",
+          "fileId",
+          "id",
+          "revn",
+          "sessionId"
+        ]
+      }
+    }
+  },
+  "update-file-library-sync-status": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "libraryId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "fileId",
+        "libraryId"
+      ]
+    }
+  },
+  "update-file-snapshot": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "label": {
+          "$ref": "#/components/schemas/appCommonSchema$text"
+        }
+      },
+      "required": [
+        "id",
+        "label"
+      ]
+    }
+  },
+  "update-font": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "name": {
+          "type": "string"
+        }
+      },
+      "required": [
+        "teamId",
+        "id",
+        "name"
+      ]
+    }
+  },
+  "update-profile": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "fullname": {},
+        "lang": {
+          "type": "string",
+          "maxLength": 8
+        },
+        "theme": {
+          "type": "string",
+          "maxLength": 250
+        }
+      },
+      "required": [
+        "fullname"
+      ]
+    },
+    "response": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fullname": {},
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "isActive": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isBlocked": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isDemo": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "isMuted": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "createdAt": {
+          "$ref": "#/components/schemas/appCommonSchema$inst"
+        },
+        "modifiedAt": {
+          "$ref": "#/components/schemas/appCommonSchema$inst"
+        },
+        "defaultProjectId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "defaultTeamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "props": {
+          "type": "object",
+          "properties": {
+            "plugins": {
+              "type": "object",
+              "properties": {
+                "ids": {
+                  "type": "array",
+                  "items": {
+                    "type": "string"
+                  }
+                },
+                "data": {
+                  "type": "object",
+                  "additionalProperties": {
+                    "type": "object",
+                    "properties": {
+                      "pluginId": {
+                        "type": "string"
+                      },
+                      "name": {
+                        "type": "string"
+                      },
+                      "description": {
+                        "type": "string"
+                      },
+                      "host": {
+                        "type": "string"
+                      },
+                      "code": {
+                        "type": "string"
+                      },
+                      "icon": {
+                        "type": "string"
+                      },
+                      "permissions": {
+                        "type": "array",
+                        "items": {
+                          "type": "string"
+                        },
+                        "uniqueItems": true
+                      }
+                    },
+                    "required": [
+                      "pluginId",
+                      "name",
+                      "host",
+                      "code",
+                      "permissions"
+                    ]
+                  }
+                }
+              },
+              "required": [
+                "ids",
+                "data"
+              ]
+            },
+            "newsletterUpdates": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "newsletterNews": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "onboardingTeamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "onboardingViewed": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "v2InfoShown": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "welcomeFileId": {
+              "oneOf": [
+                {
+                  "$ref": "#/components/schemas/appCommonSchema$boolean"
+                },
+                {
+                  "type": "null"
+                }
+              ]
+            },
+            "releaseNotesViewed": {},
+            "notifications": {
+              "type": "object",
+              "properties": {
+                "dashboardComments": {},
+                "emailComments": {},
+                "emailInvites": {}
+              },
+              "required": [
+                "dashboardComments",
+                "emailComments",
+                "emailInvites"
+              ]
+            },
+            "workspaceVisited": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            }
+          }
+        }
+      },
+      "required": [
+        "id",
+        "fullname",
+        "email"
+      ]
+    }
+  },
+  "update-profile-notifications": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "dashboardComments": {},
+        "emailComments": {},
+        "emailInvites": {}
+      },
+      "required": [
+        "dashboardComments",
+        "emailComments",
+        "emailInvites"
+      ]
+    }
+  },
+  "update-profile-password": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "password": {},
+        "oldPassword": {
+          "oneOf": [
+            {},
+            {
+              "type": "null"
+            }
+          ]
+        }
+      },
+      "required": [
+        "password"
+      ]
+    }
+  },
+  "update-profile-photo": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "file": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        }
+      },
+      "required": [
+        "file"
+      ]
+    },
+    "response": {
+      "type": "null"
+    }
+  },
+  "update-profile-props": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "props": {
+          "type": "object",
+          "properties": {
+            "plugins": {
+              "type": "object",
+              "properties": {
+                "ids": {
+                  "type": "array",
+                  "items": {
+                    "type": "string"
+                  }
+                },
+                "data": {
+                  "type": "object",
+                  "additionalProperties": {
+                    "type": "object",
+                    "properties": {
+                      "pluginId": {
+                        "type": "string"
+                      },
+                      "name": {
+                        "type": "string"
+                      },
+                      "description": {
+                        "type": "string"
+                      },
+                      "host": {
+                        "type": "string"
+                      },
+                      "code": {
+                        "type": "string"
+                      },
+                      "icon": {
+                        "type": "string"
+                      },
+                      "permissions": {
+                        "type": "array",
+                        "items": {
+                          "type": "string"
+                        },
+                        "uniqueItems": true
+                      }
+                    },
+                    "required": [
+                      "pluginId",
+                      "name",
+                      "host",
+                      "code",
+                      "permissions"
+                    ]
+                  }
+                }
+              },
+              "required": [
+                "ids",
+                "data"
+              ]
+            },
+            "newsletterUpdates": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "newsletterNews": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "onboardingTeamId": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            },
+            "onboardingViewed": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "v2InfoShown": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            },
+            "welcomeFileId": {
+              "oneOf": [
+                {
+                  "$ref": "#/components/schemas/appCommonSchema$boolean"
+                },
+                {
+                  "type": "null"
+                }
+              ]
+            },
+            "releaseNotesViewed": {},
+            "notifications": {
+              "type": "object",
+              "properties": {
+                "dashboardComments": {},
+                "emailComments": {},
+                "emailInvites": {}
+              },
+              "required": [
+                "dashboardComments",
+                "emailComments",
+                "emailInvites"
+              ]
+            },
+            "workspaceVisited": {
+              "$ref": "#/components/schemas/appCommonSchema$boolean"
+            }
+          }
+        }
+      },
+      "required": [
+        "props"
+      ]
+    }
+  },
+  "update-project-pin": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isPinned": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "teamId",
+        "isPinned",
+        "id"
+      ]
+    }
+  },
+  "update-team": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "name",
+        "id"
+      ]
+    }
+  },
+  "update-team-invitation-role": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "email": {
+          "$ref": "#/components/schemas/appCommonSchema$email"
+        },
+        "role": {
+          "$ref": "#/components/schemas/appCommonTypesTeam$role"
+        }
+      },
+      "required": [
+        "teamId",
+        "email",
+        "role"
+      ]
+    }
+  },
+  "update-team-member-role": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "memberId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "role": {
+          "$ref": "#/components/schemas/appCommonTypesTeam$role"
+        }
+      },
+      "required": [
+        "teamId",
+        "memberId",
+        "role"
+      ]
+    }
+  },
+  "update-team-photo": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "teamId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "file": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        }
+      },
+      "required": [
+        "teamId",
+        "file"
+      ]
+    }
+  },
+  "update-temp-file": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "changes": {
+          "type": "array",
+          "items": {
+            "$ref": "#/components/schemas/appCommonFilesChanges$change"
+          }
+        },
+        "revn": {},
+        "sessionId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        }
+      },
+      "required": [
+        "changes",
+        "revn",
+        "sessionId",
+        "id"
+      ]
+    }
+  },
+  "update-webhook": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "uri": {
+          "$ref": "#/components/schemas/appCommonSchema$uri"
+        },
+        "mtype": {},
+        "isActive": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        }
+      },
+      "required": [
+        "id",
+        "uri",
+        "mtype",
+        "isActive"
+      ]
+    }
+  },
+  "upload-file-media-object": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "id": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "fileId": {
+          "$ref": "#/components/schemas/appCommonSchema$uuid"
+        },
+        "isLocal": {
+          "$ref": "#/components/schemas/appCommonSchema$boolean"
+        },
+        "name": {
+          "type": "string",
+          "maxLength": 250
+        },
+        "content": {
+          "$ref": "#/components/schemas/appMedia$upload"
+        }
+      },
+      "required": [
+        "fileId",
+        "isLocal",
+        "name",
+        "content"
+      ]
+    }
+  },
+  "verify-token": {
+    "request": {
+      "type": "object",
+      "properties": {
+        "token": {
+          "type": "string",
+          "maxLength": 5000
+        }
+      },
+      "required": [
+        "token"
+      ]
+    }
+  }
+};
+
+/** The component schemas that `$ref`s point to, keyed by name. */
+export const componentSchemas: Record<string, JsonSchema> = {
+  "appCommonFeatures$features": {},
+  "appCommonFilesChanges$change": {
+    "oneOf": [
+      {
+        "type": "object",
+        "properties": {}
+      },
+      {
+        "type": "object",
+        "properties": {
+          "commentThreadId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "frameId": {
+            "oneOf": [
+              {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "position": {
+            "oneOf": [
+              {
+                "$ref": "#/components/schemas/appCommonGeomPoint$point"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "commentThreadId",
+          "pageId",
+          "frameId",
+          "position"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-obj"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "obj": {
+            "type": "object",
+            "properties": {}
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "frameId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "parentId": {
+            "oneOf": [
+              {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "index": {
+            "oneOf": [
+              {
+                "type": "integer"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "ignoreTouched": {
+            "type": "boolean"
+          }
+        },
+        "required": [
+          "type",
+          "id",
+          "obj",
+          "frameId"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-obj"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "operations": {
+            "type": "array",
+            "items": {
+              "oneOf": [
+                {
+                  "type": "object",
+                  "properties": {
+                    "type": {
+                      "const": "assign"
+                    },
+                    "value": {
+                      "type": "object",
+                      "additionalProperties": {
+                        "$ref": "#/components/schemas/appCommonSchema$any"
+                      }
+                    },
+                    "ignoreTouched": {
+                      "type": "boolean"
+                    },
+                    "ignoreGeometry": {
+                      "type": "boolean"
+                    }
+                  },
+                  "required": [
+                    "type",
+                    "value"
+                  ]
+                },
+                {
+                  "type": "object",
+                  "properties": {
+                    "type": {
+                      "const": "set"
+                    },
+                    "attr": {
+                      "type": "string"
+                    },
+                    "val": {
+                      "$ref": "#/components/schemas/appCommonSchema$any"
+                    },
+                    "ignoreTouched": {
+                      "type": "boolean"
+                    },
+                    "ignoreGeometry": {
+                      "type": "boolean"
+                    }
+                  },
+                  "required": [
+                    "type",
+                    "attr",
+                    "val"
+                  ]
+                },
+                {
+                  "type": "object",
+                  "properties": {
+                    "type": {
+                      "const": "set-touched"
+                    },
+                    "touched": {
+                      "oneOf": [
+                        {
+                          "type": "array",
+                          "items": {
+                            "type": "string"
+                          },
+                          "uniqueItems": true
+                        },
+                        {
+                          "type": "null"
+                        }
+                      ]
+                    }
+                  },
+                  "required": [
+                    "type",
+                    "touched"
+                  ]
+                },
+                {
+                  "type": "object",
+                  "properties": {
+                    "type": {
+                      "const": "set-remote-synced"
+                    },
+                    "remoteSynced": {
+                      "oneOf": [
+                        {
+                          "type": "boolean"
+                        },
+                        {
+                          "type": "null"
+                        }
+                      ]
+                    }
+                  },
+                  "required": [
+                    "type"
+                  ]
+                }
+              ]
+            }
+          }
+        },
+        "required": [
+          "type",
+          "id",
+          "operations"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-obj"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "ignoreTouched": {
+            "type": "boolean"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-guide"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "params": {
+            "oneOf": [
+              {
+                "$ref": "#/components/schemas/appCommonTypesPage$guide"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "pageId",
+          "id",
+          "params"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-flow"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "params": {
+            "oneOf": [
+              {
+                "$ref": "#/components/schemas/appCommonTypesPage$flow"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "pageId",
+          "id",
+          "params"
+        ]
+      },
+      {
+        "oneOf": [
+          {
+            "type": "object",
+            "properties": {
+              "type": {
+                "const": "set-default-grid"
+              },
+              "pageId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "gridType": {
+                "const": "square"
+              },
+              "params": {
+                "oneOf": [
+                  {
+                    "type": "object",
+                    "properties": {
+                      "size": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "color": {
+                        "type": "object",
+                        "properties": {
+                          "color": {},
+                          "opacity": {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          }
+                        },
+                        "required": [
+                          "color",
+                          "opacity"
+                        ]
+                      }
+                    },
+                    "required": [
+                      "color"
+                    ]
+                  },
+                  {
+                    "type": "null"
+                  }
+                ]
+              }
+            },
+            "required": [
+              "type",
+              "pageId",
+              "gridType",
+              "params"
+            ]
+          },
+          {
+            "type": "object",
+            "properties": {
+              "type": {
+                "const": "set-default-grid"
+              },
+              "pageId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "gridType": {
+                "const": "column"
+              },
+              "params": {
+                "oneOf": [
+                  {
+                    "type": "object",
+                    "properties": {
+                      "color": {
+                        "type": "object",
+                        "properties": {
+                          "color": {},
+                          "opacity": {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          }
+                        },
+                        "required": [
+                          "color",
+                          "opacity"
+                        ]
+                      },
+                      "type": {},
+                      "size": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "margin": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "itemLength": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "gutter": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      }
+                    },
+                    "required": [
+                      "color"
+                    ]
+                  },
+                  {
+                    "type": "null"
+                  }
+                ]
+              }
+            },
+            "required": [
+              "type",
+              "pageId",
+              "gridType",
+              "params"
+            ]
+          },
+          {
+            "type": "object",
+            "properties": {
+              "type": {
+                "const": "set-default-grid"
+              },
+              "pageId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "gridType": {
+                "const": "row"
+              },
+              "params": {
+                "oneOf": [
+                  {
+                    "type": "object",
+                    "properties": {
+                      "color": {
+                        "type": "object",
+                        "properties": {
+                          "color": {},
+                          "opacity": {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          }
+                        },
+                        "required": [
+                          "color",
+                          "opacity"
+                        ]
+                      },
+                      "type": {},
+                      "size": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "margin": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "itemLength": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      },
+                      "gutter": {
+                        "oneOf": [
+                          {
+                            "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                          },
+                          {
+                            "type": "null"
+                          }
+                        ]
+                      }
+                    },
+                    "required": [
+                      "color"
+                    ]
+                  },
+                  {
+                    "type": "null"
+                  }
+                ]
+              }
+            },
+            "required": [
+              "type",
+              "pageId",
+              "gridType",
+              "params"
+            ]
+          }
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "fix-obj"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "fix": {
+            "type": "string"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mov-objects"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "ignoreTouched": {
+            "type": "boolean"
+          },
+          "parentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "shapes": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          },
+          "index": {
+            "oneOf": [
+              {
+                "type": "integer"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "afterShape": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          },
+          "componentSwap": {
+            "type": "boolean"
+          }
+        },
+        "required": [
+          "type",
+          "parentId",
+          "shapes"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "reorder-children"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "ignoreTouched": {
+            "type": "boolean"
+          },
+          "parentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "shapes": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          }
+        },
+        "required": [
+          "type",
+          "parentId",
+          "shapes"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-page"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "name": {
+            "type": "string"
+          },
+          "page": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          }
+        },
+        "required": [
+          "type"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-page"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "background": {
+            "oneOf": [
+              {},
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "name": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "allOf": [
+          {
+            "type": "object",
+            "properties": {
+              "type": {
+                "const": "set-plugin-data"
+              },
+              "objectType": {},
+              "objectId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "pageId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "namespace": {
+                "type": "string"
+              },
+              "key": {
+                "type": "string"
+              },
+              "value": {
+                "oneOf": [
+                  {
+                    "type": "string"
+                  },
+                  {
+                    "type": "null"
+                  }
+                ]
+              }
+            },
+            "required": [
+              "type",
+              "objectType",
+              "namespace",
+              "key",
+              "value"
+            ]
+          },
+          {}
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-page"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mov-page"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "index": {
+            "type": "integer"
+          }
+        },
+        "required": [
+          "type",
+          "id",
+          "index"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "reg-objects"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "componentId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "shapes": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/appCommonSchema$uuid"
+            }
+          }
+        },
+        "required": [
+          "type",
+          "shapes"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-color"
+          },
+          "color": {
+            "allOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "id": {
+                    "$ref": "#/components/schemas/appCommonSchema$uuid"
+                  },
+                  "name": {
+                    "$ref": "#/components/schemas/appCommonSchema$text"
+                  },
+                  "path": {
+                    "type": "string"
+                  },
+                  "opacity": {},
+                  "modifiedAt": {
+                    "$ref": "#/components/schemas/appCommonSchema$inst"
+                  },
+                  "pluginData": {
+                    "$ref": "#/components/schemas/appCommonTypesPlugins$plugin-data"
+                  },
+                  "color": {},
+                  "gradient": {
+                    "type": "object",
+                    "properties": {
+                      "type": {},
+                      "startX": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "startY": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "endX": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "endY": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "width": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "stops": {
+                        "type": "array",
+                        "items": {
+                          "type": "object",
+                          "properties": {
+                            "color": {},
+                            "opacity": {},
+                            "offset": {}
+                          },
+                          "required": [
+                            "color",
+                            "offset"
+                          ]
+                        },
+                        "minItems": 1
+                      }
+                    },
+                    "required": [
+                      "type",
+                      "startX",
+                      "startY",
+                      "endX",
+                      "endY",
+                      "width",
+                      "stops"
+                    ],
+                    "additionalProperties": false
+                  },
+                  "image": {
+                    "type": "object",
+                    "properties": {
+                      "width": {},
+                      "height": {},
+                      "mtype": {
+                        "$ref": "#/components/schemas/appCommonSchema$text"
+                      },
+                      "id": {
+                        "$ref": "#/components/schemas/appCommonSchema$uuid"
+                      },
+                      "name": {
+                        "$ref": "#/components/schemas/appCommonSchema$text"
+                      },
+                      "keepAspectRatio": {
+                        "type": "boolean"
+                      }
+                    },
+                    "required": [
+                      "width",
+                      "height",
+                      "mtype",
+                      "id"
+                    ],
+                    "additionalProperties": false
+                  }
+                },
+                "required": [
+                  "id",
+                  "name"
+                ],
+                "additionalProperties": false
+              },
+              {}
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "color"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-color"
+          },
+          "color": {
+            "allOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "id": {
+                    "$ref": "#/components/schemas/appCommonSchema$uuid"
+                  },
+                  "name": {
+                    "$ref": "#/components/schemas/appCommonSchema$text"
+                  },
+                  "path": {
+                    "type": "string"
+                  },
+                  "opacity": {},
+                  "modifiedAt": {
+                    "$ref": "#/components/schemas/appCommonSchema$inst"
+                  },
+                  "pluginData": {
+                    "$ref": "#/components/schemas/appCommonTypesPlugins$plugin-data"
+                  },
+                  "color": {},
+                  "gradient": {
+                    "type": "object",
+                    "properties": {
+                      "type": {},
+                      "startX": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "startY": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "endX": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "endY": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "width": {
+                        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+                      },
+                      "stops": {
+                        "type": "array",
+                        "items": {
+                          "type": "object",
+                          "properties": {
+                            "color": {},
+                            "opacity": {},
+                            "offset": {}
+                          },
+                          "required": [
+                            "color",
+                            "offset"
+                          ]
+                        },
+                        "minItems": 1
+                      }
+                    },
+                    "required": [
+                      "type",
+                      "startX",
+                      "startY",
+                      "endX",
+                      "endY",
+                      "width",
+                      "stops"
+                    ],
+                    "additionalProperties": false
+                  },
+                  "image": {
+                    "type": "object",
+                    "properties": {
+                      "width": {},
+                      "height": {},
+                      "mtype": {
+                        "$ref": "#/components/schemas/appCommonSchema$text"
+                      },
+                      "id": {
+                        "$ref": "#/components/schemas/appCommonSchema$uuid"
+                      },
+                      "name": {
+                        "$ref": "#/components/schemas/appCommonSchema$text"
+                      },
+                      "keepAspectRatio": {
+                        "type": "boolean"
+                      }
+                    },
+                    "required": [
+                      "width",
+                      "height",
+                      "mtype",
+                      "id"
+                    ],
+                    "additionalProperties": false
+                  }
+                },
+                "required": [
+                  "id",
+                  "name"
+                ],
+                "additionalProperties": false
+              },
+              {}
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "color"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-color"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {}
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-media"
+          },
+          "object": {
+            "type": "object",
+            "properties": {
+              "id": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "createdAt": {
+                "$ref": "#/components/schemas/appCommonSchema$inst"
+              },
+              "deletedAt": {
+                "$ref": "#/components/schemas/appCommonSchema$inst"
+              },
+              "name": {
+                "type": "string"
+              },
+              "width": {
+                "$ref": "#/components/schemas/appCommonSchema$safe-int"
+              },
+              "height": {
+                "$ref": "#/components/schemas/appCommonSchema$safe-int"
+              },
+              "mtype": {
+                "type": "string"
+              },
+              "mediaId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "fileId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "thumbnailId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "isLocal": {
+                "type": "boolean"
+              }
+            },
+            "required": [
+              "id",
+              "name",
+              "width",
+              "height",
+              "mtype",
+              "mediaId"
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "object"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-media"
+          },
+          "object": {
+            "type": "object",
+            "properties": {
+              "id": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "createdAt": {
+                "$ref": "#/components/schemas/appCommonSchema$inst"
+              },
+              "deletedAt": {
+                "$ref": "#/components/schemas/appCommonSchema$inst"
+              },
+              "name": {
+                "type": "string"
+              },
+              "width": {
+                "$ref": "#/components/schemas/appCommonSchema$safe-int"
+              },
+              "height": {
+                "$ref": "#/components/schemas/appCommonSchema$safe-int"
+              },
+              "mtype": {
+                "type": "string"
+              },
+              "mediaId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "fileId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "thumbnailId": {
+                "$ref": "#/components/schemas/appCommonSchema$uuid"
+              },
+              "isLocal": {
+                "type": "boolean"
+              }
+            },
+            "required": [
+              "id",
+              "name",
+              "width",
+              "height",
+              "mtype",
+              "mediaId"
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "object"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-media"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-component"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "name": {
+            "type": "string"
+          },
+          "shapes": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/appCommonSchema$any"
+            }
+          },
+          "path": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "type",
+          "id",
+          "name"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-component"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "shapes": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/appCommonSchema$any"
+            }
+          },
+          "name": {
+            "type": "string"
+          },
+          "variantId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "variantProperties": {
+            "type": "array",
+            "items": {
+              "$ref": "#/components/schemas/appCommonTypesVariant$variant-property"
+            }
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-component"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "delta": {
+            "$ref": "#/components/schemas/appCommonGeomPoint$point"
+          },
+          "skipUndelete": {
+            "type": "boolean"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "restore-component"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          "pageId": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id",
+          "pageId"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "purge-component"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "add-typography"
+          },
+          "typography": {
+            "$ref": "#/components/schemas/appCommonTypesTypography$typography"
+          }
+        },
+        "required": [
+          "type",
+          "typography"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "mod-typography"
+          },
+          "typography": {
+            "$ref": "#/components/schemas/appCommonTypesTypography$typography"
+          }
+        },
+        "required": [
+          "type",
+          "typography"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "del-typography"
+          },
+          "id": {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          }
+        },
+        "required": [
+          "type",
+          "id"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "update-active-token-themes"
+          },
+          "themePaths": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            },
+            "uniqueItems": true
+          }
+        },
+        "required": [
+          "type",
+          "themePaths"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "rename-token-set-group"
+          },
+          "setGroupPath": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          },
+          "setGroupFname": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "type",
+          "setGroupPath",
+          "setGroupFname"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "move-token-set"
+          },
+          "fromPath": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          },
+          "toPath": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          },
+          "beforePath": {
+            "oneOf": [
+              {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "beforeGroup": {
+            "oneOf": [
+              {
+                "type": "boolean"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "fromPath",
+          "toPath",
+          "beforePath",
+          "beforeGroup"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "move-token-set-group"
+          },
+          "fromPath": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          },
+          "toPath": {
+            "type": "array",
+            "items": {
+              "type": "string"
+            }
+          },
+          "beforePath": {
+            "oneOf": [
+              {
+                "type": "array",
+                "items": {
+                  "type": "string"
+                }
+              },
+              {
+                "type": "null"
+              }
+            ]
+          },
+          "beforeGroup": {
+            "oneOf": [
+              {
+                "type": "boolean"
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "fromPath",
+          "toPath",
+          "beforePath",
+          "beforeGroup"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-token-theme"
+          },
+          "themeName": {
+            "type": "string"
+          },
+          "group": {
+            "type": "string"
+          },
+          "theme": {
+            "oneOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "id": {
+                    "$ref": "#/components/schemas/appCommonSchema$uuid"
+                  },
+                  "name": {
+                    "type": "string"
+                  },
+                  "group": {
+                    "type": "string"
+                  },
+                  "description": {
+                    "type": "string"
+                  },
+                  "isSource": {
+                    "type": "boolean"
+                  },
+                  "externalId": {
+                    "type": "string"
+                  },
+                  "modifiedAt": {
+                    "$ref": "#/components/schemas/appCommonSchema$inst"
+                  },
+                  "sets": {
+                    "type": "array",
+                    "items": {
+                      "type": "string"
+                    },
+                    "uniqueItems": true
+                  }
+                },
+                "required": [
+                  "id",
+                  "name"
+                ]
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "themeName",
+          "group",
+          "theme"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-tokens-lib"
+          },
+          "tokensLib": {
+            "$ref": "#/components/schemas/appCommonSchema$any"
+          }
+        },
+        "required": [
+          "type",
+          "tokensLib"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-token-set"
+          },
+          "setName": {
+            "type": "string"
+          },
+          "group": {
+            "type": "boolean"
+          },
+          "tokenSet": {
+            "oneOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "id": {
+                    "$ref": "#/components/schemas/appCommonSchema$uuid"
+                  },
+                  "name": {
+                    "type": "string"
+                  },
+                  "description": {
+                    "type": "string"
+                  },
+                  "modifiedAt": {
+                    "$ref": "#/components/schemas/appCommonSchema$inst"
+                  },
+                  "tokens": {
+                    "allOf": [
+                      {
+                        "type": "object",
+                        "additionalProperties": {
+                          "allOf": [
+                            {
+                              "type": "object",
+                              "properties": {
+                                "id": {
+                                  "$ref": "#/components/schemas/appCommonSchema$uuid"
+                                },
+                                "name": {
+                                  "allOf": [
+                                    {
+                                      "type": "string"
+                                    },
+                                    {
+                                      "type": "string",
+                                      "pattern": "^(?!\\$)([a-zA-Z0-9-$_]+\\.?)*(?<!\\.)$"
+                                    }
+                                  ]
+                                },
+                                "type": {},
+                                "value": {
+                                  "$ref": "#/components/schemas/appCommonSchema$any"
+                                },
+                                "description": {
+                                  "type": "string"
+                                },
+                                "modifiedAt": {
+                                  "$ref": "#/components/schemas/appCommonSchema$inst"
+                                }
+                              },
+                              "required": [
+                                "id",
+                                "name",
+                                "type",
+                                "value",
+                                "description",
+                                "modifiedAt"
+                              ]
+                            },
+                            {}
+                          ]
+                        }
+                      },
+                      {}
+                    ]
+                  }
+                },
+                "required": [
+                  "id",
+                  "name"
+                ]
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "setName",
+          "group",
+          "tokenSet"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-token"
+          },
+          "setName": {
+            "type": "string"
+          },
+          "tokenName": {
+            "type": "string"
+          },
+          "token": {
+            "oneOf": [
+              {
+                "type": "object",
+                "properties": {
+                  "id": {
+                    "$ref": "#/components/schemas/appCommonSchema$uuid"
+                  },
+                  "name": {
+                    "allOf": [
+                      {
+                        "type": "string"
+                      },
+                      {
+                        "type": "string",
+                        "pattern": "^(?!\\$)([a-zA-Z0-9-$_]+\\.?)*(?<!\\.)$"
+                      }
+                    ]
+                  },
+                  "type": {},
+                  "value": {
+                    "$ref": "#/components/schemas/appCommonSchema$any"
+                  },
+                  "description": {
+                    "type": "string"
+                  },
+                  "modifiedAt": {
+                    "$ref": "#/components/schemas/appCommonSchema$inst"
+                  }
+                },
+                "required": [
+                  "id",
+                  "name",
+                  "type",
+                  "value"
+                ]
+              },
+              {
+                "type": "null"
+              }
+            ]
+          }
+        },
+        "required": [
+          "type",
+          "setName",
+          "tokenName",
+          "token"
+        ]
+      },
+      {
+        "type": "object",
+        "properties": {
+          "type": {
+            "const": "set-base-font-size"
+          },
+          "baseFontSize": {
+            "type": "string"
+          }
+        },
+        "required": [
+          "type",
+          "baseFontSize"
+        ]
+      }
+    ]
+  },
+  "appCommonGeomPoint$point": {},
+  "appCommonSchema$any": {},
+  "appCommonSchema$boolean": {},
+  "appCommonSchema$email": {},
+  "appCommonSchema$inst": {},
+  "appCommonSchema$int": {},
+  "appCommonSchema$safe-int": {},
+  "appCommonSchema$safe-number": {},
+  "appCommonSchema$text": {},
+  "appCommonSchema$uri": {},
+  "appCommonSchema$uuid": {},
+  "appCommonSchema$word-string": {},
+  "appCommonTypesPage$flow": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "$ref": "#/components/schemas/appCommonSchema$uuid"
+      },
+      "name": {
+        "type": "string"
+      },
+      "startingFrame": {
+        "$ref": "#/components/schemas/appCommonSchema$uuid"
+      }
+    },
+    "required": [
+      "id",
+      "name",
+      "startingFrame"
+    ]
+  },
+  "appCommonTypesPage$guide": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "$ref": "#/components/schemas/appCommonSchema$uuid"
+      },
+      "axis": {},
+      "position": {
+        "$ref": "#/components/schemas/appCommonSchema$safe-number"
+      },
+      "frameId": {
+        "oneOf": [
+          {
+            "$ref": "#/components/schemas/appCommonSchema$uuid"
+          },
+          {
+            "type": "null"
+          }
+        ]
+      }
+    },
+    "required": [
+      "id",
+      "axis",
+      "position"
+    ]
+  },
+  "appCommonTypesPlugins$plugin-data": {
+    "type": "object",
+    "additionalProperties": {
+      "type": "object",
+      "additionalProperties": {
+        "type": "string"
+      }
+    }
+  },
+  "appCommonTypesTeam$role": {},
+  "appCommonTypesTypography$typography": {
+    "type": "object",
+    "properties": {
+      "id": {
+        "$ref": "#/components/schemas/appCommonSchema$uuid"
+      },
+      "name": {
+        "type": "string"
+      },
+      "fontId": {
+        "type": "string"
+      },
+      "fontFamily": {
+        "type": "string"
+      },
+      "fontVariantId": {
+        "type": "string"
+      },
+      "fontSize": {
+        "type": "string"
+      },
+      "fontWeight": {
+        "type": "string"
+      },
+      "fontStyle": {
+        "type": "string"
+      },
+      "lineHeight": {
+        "type": "string"
+      },
+      "letterSpacing": {
+        "type": "string"
+      },
+      "textTransform": {
+        "type": "string"
+      },
+      "modifiedAt": {
+        "$ref": "#/components/schemas/appCommonSchema$inst"
+      },
+      "path": {
+        "oneOf": [
+          {
+            "type": "string"
+          },
+          {
+            "type": "null"
+          }
+        ]
+      },
+      "pluginData": {
+        "$ref": "#/components/schemas/appCommonTypesPlugins$plugin-data"
+      }
+    },
+    "required": [
+      "id",
+      "name",
+      "fontId",
+      "fontFamily",
+      "fontVariantId",
+      "fontSize",
+      "fontWeight",
+      "fontStyle",
+      "lineHeight",
+      "letterSpacing",
+      "textTransform"
+    ]
+  },
+  "appCommonTypesVariant$variant-property": {
+    "type": "object",
+    "properties": {
+      "name": {
+        "type": "string"
+      },
+      "value": {
+        "type": "string"
+      }
+    },
+    "required": [
+      "name",
+      "value"
+    ]
+  },
+  "appMedia$upload": {
+    "type": "object",
+    "properties": {
+      "filename": {
+        "type": "string"
+      },
+      "size": {
+        "$ref": "#/components/schemas/appCommonSchema$int"
+      },
+      "path": {
+        "$ref": "#/components/schemas/datotekaFs$path"
+      },
+      "mtype": {
+        "type": "string"
+      },
+      "headers": {
+        "type": "object",
+        "additionalProperties": {
+          "type": "string"
+        }
+      }
+    },
+    "required": [
+      "filename",
+      "size",
+      "path"
+    ]
+  },
+  "appRpcPermissions$permissions": {
+    "type": "object",
+    "properties": {
+      "type": {
+        "type": "string"
+      },
+      "isOwner": {
+        "$ref": "#/components/schemas/appCommonSchema$boolean"
+      },
+      "isAdmin": {
+        "$ref": "#/components/schemas/appCommonSchema$boolean"
+      },
+      "canEdit": {
+        "$ref": "#/components/schemas/appCommonSchema$boolean"
+      },
+      "canRead": {
+        "$ref": "#/components/schemas/appCommonSchema$boolean"
+      },
+      "isLogged": {
+        "$ref": "#/components/schemas/appCommonSchema$boolean"
+      }
+    },
+    "required": [
+      "type",
+      "isOwner",
+      "isAdmin",
+      "canEdit",
+      "canRead",
+      "isLogged"
+    ]
+  },
+  "appUtilTime$duration": {},
+  "appUtilTime$instant": {},
+  "datotekaFs$path": {}
+};
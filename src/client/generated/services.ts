@@ -0,0 +1,2630 @@
+/**
+ * @file This file was auto-generated from `openapi.json` by `src/scripts/generate.ts`.
+ * Do not make direct changes to the file; run `deno task gen` instead.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { paths } from "./types.ts";
+
+/** The JSON request body of a command path. */
+type RequestBody<P extends keyof paths> =
+  paths[P]["post"]["requestBody"]["content"]["application/json"];
+
+/** The JSON response body of a command path that declares one. */
+type ResponseBody<P extends keyof paths> = paths[P]["post"] extends {
+  responses: { default: { content: { "application/json": infer R } } };
+}
+  ? R
+  : unknown;
+
+/**
+ * A request body whose uploaded `file` is sent as multipart form data.
+ * A `ReadableStream` is streamed to the server without being buffered in memory.
+ */
+type WithUpload<T> = Omit<T, "file"> & {
+  file: Uint8Array | Blob | ReadableStream<Uint8Array>;
+};
+
+/**
+ * The `AccessTokens` commands of the Penpot RPC API.
+ *
+ * @class AccessTokensCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class AccessTokensCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-access-token` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-access-token` endpoint.
+   *
+   * @param {RequestBody<"/command/create-access-token">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/create-access-token
+   */
+  public createAccessToken(
+    params: RequestBody<"/command/create-access-token">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-access-token",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-access-token` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-access-token` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-access-token">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/delete-access-token
+   */
+  public deleteAccessToken(
+    params: RequestBody<"/command/delete-access-token">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-access-token",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-access-tokens` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-access-tokens` endpoint.
+   *
+   * @param {RequestBody<"/command/get-access-tokens">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/get-access-tokens
+   */
+  public getAccessTokens(
+    params?: RequestBody<"/command/get-access-tokens">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-access-tokens",
+      params
+    );
+  }
+}
+
+/**
+ * The `Auth` commands of the Penpot RPC API.
+ *
+ * @class AuthCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class AuthCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `get-profile` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-profile` endpoint.
+   *
+   * @param {RequestBody<"/command/get-profile">} [params] - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-profile">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/get-profile
+   */
+  public getProfile(
+    params?: RequestBody<"/command/get-profile">
+  ): RequestBuilder<ResponseBody<"/command/get-profile">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-profile",
+      params
+    );
+  }
+
+  /**
+   * Performs the authentication using LDAP backend. Only works if LDAP
+   * is properly configured and enabled with `login-with-ldap` flag.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/login-with-ldap` endpoint.
+   *
+   * @param {RequestBody<"/command/login-with-ldap">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/login-with-ldap
+   */
+  public loginWithLdap(
+    params: RequestBody<"/command/login-with-ldap">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/login-with-ldap",
+      params
+    );
+  }
+
+  /**
+   * Performs authentication using penpot password.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/login-with-password` endpoint.
+   *
+   * @param {RequestBody<"/command/login-with-password">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/login-with-password
+   */
+  public loginWithPassword(
+    params: RequestBody<"/command/login-with-password">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/login-with-password",
+      params
+    );
+  }
+
+  /**
+   * Clears the authentication cookie and logout the current session.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/logout` endpoint.
+   *
+   * @param {RequestBody<"/command/logout">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/logout
+   */
+  public logout(
+    params?: RequestBody<"/command/logout">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/logout",
+      params
+    );
+  }
+}
+
+/**
+ * The `Comments` commands of the Penpot RPC API.
+ *
+ * @class CommentsCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class CommentsCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-comment` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-comment` endpoint.
+   *
+   * @param {RequestBody<"/command/create-comment">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/create-comment
+   */
+  public createComment(
+    params: RequestBody<"/command/create-comment">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-comment",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-comment-thread` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-comment-thread` endpoint.
+   *
+   * @param {RequestBody<"/command/create-comment-thread">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/create-comment-thread
+   */
+  public createCommentThread(
+    params: RequestBody<"/command/create-comment-thread">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-comment` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-comment` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-comment">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/delete-comment
+   */
+  public deleteComment(
+    params: RequestBody<"/command/delete-comment">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-comment",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-comment-thread` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-comment-thread` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-comment-thread">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/delete-comment-thread
+   */
+  public deleteCommentThread(
+    params: RequestBody<"/command/delete-comment-thread">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-comment-thread` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comment-thread` endpoint.
+   *
+   * @param {RequestBody<"/command/get-comment-thread">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comment-thread
+   */
+  public getCommentThread(
+    params: RequestBody<"/command/get-comment-thread">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-comment-threads` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comment-threads` endpoint.
+   *
+   * @param {RequestBody<"/command/get-comment-threads">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comment-threads
+   */
+  public getCommentThreads(
+    params?: RequestBody<"/command/get-comment-threads">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comment-threads",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-comments` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comments` endpoint.
+   *
+   * @param {RequestBody<"/command/get-comments">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comments
+   */
+  public getComments(
+    params: RequestBody<"/command/get-comments">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comments",
+      params
+    );
+  }
+
+  /**
+   * Retrieves a list of profiles with limited set of properties of all
+   * participants on comment threads of the file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-profiles-for-file-comments` endpoint.
+   *
+   * @param {RequestBody<"/command/get-profiles-for-file-comments">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-profiles-for-file-comments
+   */
+  public getProfilesForFileComments(
+    params: RequestBody<"/command/get-profiles-for-file-comments">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-profiles-for-file-comments",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-unread-comment-threads` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-unread-comment-threads` endpoint.
+   *
+   * @param {RequestBody<"/command/get-unread-comment-threads">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-unread-comment-threads
+   */
+  public getUnreadCommentThreads(
+    params: RequestBody<"/command/get-unread-comment-threads">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-unread-comment-threads",
+      params
+    );
+  }
+
+  /**
+   * Sends the `mark-all-threads-as-read` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/mark-all-threads-as-read` endpoint.
+   *
+   * @param {RequestBody<"/command/mark-all-threads-as-read">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/mark-all-threads-as-read
+   */
+  public markAllThreadsAsRead(
+    params: RequestBody<"/command/mark-all-threads-as-read">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/mark-all-threads-as-read",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-comment` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment` endpoint.
+   *
+   * @param {RequestBody<"/command/update-comment">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment
+   */
+  public updateComment(
+    params: RequestBody<"/command/update-comment">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-comment-thread` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread` endpoint.
+   *
+   * @param {RequestBody<"/command/update-comment-thread">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread
+   */
+  public updateCommentThread(
+    params: RequestBody<"/command/update-comment-thread">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-comment-thread-frame` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-frame` endpoint.
+   *
+   * @param {RequestBody<"/command/update-comment-thread-frame">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-frame
+   */
+  public updateCommentThreadFrame(
+    params: RequestBody<"/command/update-comment-thread-frame">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-frame",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-comment-thread-position` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-position` endpoint.
+   *
+   * @param {RequestBody<"/command/update-comment-thread-position">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-position
+   */
+  public updateCommentThreadPosition(
+    params: RequestBody<"/command/update-comment-thread-position">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-position",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-comment-thread-status` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-status` endpoint.
+   *
+   * @param {RequestBody<"/command/update-comment-thread-status">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-status
+   */
+  public updateCommentThreadStatus(
+    params: RequestBody<"/command/update-comment-thread-status">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-status",
+      params
+    );
+  }
+}
+
+/**
+ * The `Files` commands of the Penpot RPC API.
+ *
+ * @class FilesCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class FilesCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `clone-file-media-object` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/clone-file-media-object` endpoint.
+   *
+   * @param {RequestBody<"/command/clone-file-media-object">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/clone-file-media-object
+   */
+  public cloneFileMediaObject(
+    params: RequestBody<"/command/clone-file-media-object">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/clone-file-media-object",
+      params
+    );
+  }
+
+  /**
+   * Clone into the specified project the template by its id.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/clone-template` endpoint.
+   *
+   * @param {RequestBody<"/command/clone-template">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/clone-template
+   */
+  public cloneTemplate(
+    params: RequestBody<"/command/clone-template">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/clone-template",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file` endpoint.
+   *
+   * @param {RequestBody<"/command/create-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file
+   */
+  public createFile(
+    params: RequestBody<"/command/create-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-file-media-object-from-url` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file-media-object-from-url` endpoint.
+   *
+   * @param {RequestBody<"/command/create-file-media-object-from-url">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file-media-object-from-url
+   */
+  public createFileMediaObjectFromUrl(
+    params: RequestBody<"/command/create-file-media-object-from-url">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file-media-object-from-url",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-file-object-thumbnail` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file-object-thumbnail` endpoint.
+   *
+   * @param {RequestBody<"/command/create-file-object-thumbnail">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file-object-thumbnail
+   */
+  public createFileObjectThumbnail(
+    params: RequestBody<"/command/create-file-object-thumbnail">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file-object-thumbnail",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-file-snapshot` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file-snapshot` endpoint.
+   *
+   * @param {RequestBody<"/command/create-file-snapshot">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file-snapshot
+   */
+  public createFileSnapshot(
+    params: RequestBody<"/command/create-file-snapshot">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Creates or updates the file thumbnail. Mainly used for paint the
+   * grid thumbnails.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file-thumbnail` endpoint.
+   *
+   * @param {RequestBody<"/command/create-file-thumbnail">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file-thumbnail
+   */
+  public createFileThumbnail(
+    params: RequestBody<"/command/create-file-thumbnail">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file-thumbnail",
+      params
+    );
+  }
+
+  /**
+   * Creates a share-link object.
+   *
+   * Share links are resources that allows external users access to specific
+   * pages of a file with specific permissions (who-comment and who-inspect).
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-share-link` endpoint.
+   *
+   * @param {RequestBody<"/command/create-share-link">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-share-link
+   */
+  public createShareLink(
+    params: RequestBody<"/command/create-share-link">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-share-link",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-temp-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-temp-file` endpoint.
+   *
+   * @param {RequestBody<"/command/create-temp-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-temp-file
+   */
+  public createTempFile(
+    params: RequestBody<"/command/create-temp-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-temp-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-file` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-file
+   */
+  public deleteFile(
+    params: RequestBody<"/command/delete-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-file-object-thumbnail` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-file-object-thumbnail` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-file-object-thumbnail">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-file-object-thumbnail
+   */
+  public deleteFileObjectThumbnail(
+    params: RequestBody<"/command/delete-file-object-thumbnail">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-file-object-thumbnail",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-file-snapshot` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-file-snapshot` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-file-snapshot">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-file-snapshot
+   */
+  public deleteFileSnapshot(
+    params: RequestBody<"/command/delete-file-snapshot">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-share-link` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-share-link` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-share-link">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-share-link
+   */
+  public deleteShareLink(
+    params: RequestBody<"/command/delete-share-link">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-share-link",
+      params
+    );
+  }
+
+  /**
+   * Duplicate a single file in the same team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/duplicate-file` endpoint.
+   *
+   * @param {RequestBody<"/command/duplicate-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/duplicate-file
+   */
+  public duplicateFile(
+    params: RequestBody<"/command/duplicate-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/duplicate-file",
+      params
+    );
+  }
+
+  /**
+   * Export a penpot file in a binary format.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/export-binfile` endpoint.
+   *
+   * @param {RequestBody<"/command/export-binfile">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/export-binfile
+   */
+  public exportBinfile(
+    params: RequestBody<"/command/export-binfile">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/export-binfile",
+      params
+    );
+  }
+
+  /**
+   * Retrieve a file by its ID. Only authenticated users.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-file">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file
+   */
+  public getFile(
+    params: RequestBody<"/command/get-file">
+  ): RequestBuilder<ResponseBody<"/command/get-file">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file",
+      params
+    );
+  }
+
+  /**
+   * Retrieves the data for generate the thumbnail of the file. Used
+   * mainly for render thumbnails on dashboard.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-data-for-thumbnail` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-data-for-thumbnail">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-file-data-for-thumbnail">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-data-for-thumbnail
+   */
+  public getFileDataForThumbnail(
+    params: RequestBody<"/command/get-file-data-for-thumbnail">
+  ): RequestBuilder<ResponseBody<"/command/get-file-data-for-thumbnail">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-data-for-thumbnail",
+      params
+    );
+  }
+
+  /**
+   * Retrieve a file fragment by its ID. Only authenticated users.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-fragment` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-fragment">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-file-fragment">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-fragment
+   */
+  public getFileFragment(
+    params: RequestBody<"/command/get-file-fragment">
+  ): RequestBuilder<ResponseBody<"/command/get-file-fragment">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-fragment",
+      params
+    );
+  }
+
+  /**
+   * Retrieve minimal file info by its ID.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-info` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-info">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-info
+   */
+  public getFileInfo(
+    params: RequestBody<"/command/get-file-info">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-info",
+      params
+    );
+  }
+
+  /**
+   * Retrieve a file object thumbnails.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-object-thumbnails` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-object-thumbnails">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-file-object-thumbnails">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-object-thumbnails
+   */
+  public getFileObjectThumbnails(
+    params: RequestBody<"/command/get-file-object-thumbnails">
+  ): RequestBuilder<ResponseBody<"/command/get-file-object-thumbnails">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-object-thumbnails",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-file-snapshots` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-snapshots` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-snapshots">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-snapshots
+   */
+  public getFileSnapshots(
+    params: RequestBody<"/command/get-file-snapshots">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-snapshots",
+      params
+    );
+  }
+
+  /**
+   * Retrieve a file summary by its ID. Only authenticated users.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-summary` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-summary">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-summary
+   */
+  public getFileSummary(
+    params: RequestBody<"/command/get-file-summary">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-summary",
+      params
+    );
+  }
+
+  /**
+   * Retrieves the page data from file and returns it. If no page-id is
+   * specified, the first page will be returned. If object-id is
+   * specified, only that object and its children will be returned in the
+   * page objects data structure.
+   *
+   * If you specify the object-id, the page-id parameter becomes
+   * mandatory.
+   *
+   * Mainly used for rendering purposes on the exporter. It does not
+   * accepts client features.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-page` endpoint.
+   *
+   * @param {RequestBody<"/command/get-page">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-page
+   */
+  public getPage(
+    params: RequestBody<"/command/get-page">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-page",
+      params
+    );
+  }
+
+  /**
+   * Get all files for the specified project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-project-files` endpoint.
+   *
+   * @param {RequestBody<"/command/get-project-files">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/get-project-files">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-project-files
+   */
+  public getProjectFiles(
+    params: RequestBody<"/command/get-project-files">
+  ): RequestBuilder<ResponseBody<"/command/get-project-files">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-project-files",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team-recent-files` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-recent-files` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-recent-files">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-team-recent-files
+   */
+  public getTeamRecentFiles(
+    params: RequestBody<"/command/get-team-recent-files">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-recent-files",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-view-only-bundle` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-view-only-bundle` endpoint.
+   *
+   * @param {RequestBody<"/command/get-view-only-bundle">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-view-only-bundle
+   */
+  public getViewOnlyBundle(
+    params: RequestBody<"/command/get-view-only-bundle">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-view-only-bundle",
+      params
+    );
+  }
+
+  /**
+   * Import a penpot file in a binary format.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/import-binfile` endpoint.
+   * Because the payload carries a binary `file`, `sendRequest` sends it as `multipart/form-data`.
+   *
+   * @param {WithUpload<RequestBody<"/command/import-binfile">>} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/import-binfile
+   */
+  public importBinfile(
+    params: WithUpload<RequestBody<"/command/import-binfile">>
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/import-binfile",
+      params
+    );
+  }
+
+  /**
+   * Move a set of files from one project to other.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/move-files` endpoint.
+   *
+   * @param {RequestBody<"/command/move-files">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/move-files
+   */
+  public moveFiles(
+    params: RequestBody<"/command/move-files">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/move-files",
+      params
+    );
+  }
+
+  /**
+   * Sends the `persist-temp-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/persist-temp-file` endpoint.
+   *
+   * @param {RequestBody<"/command/persist-temp-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/persist-temp-file
+   */
+  public persistTempFile(
+    params: RequestBody<"/command/persist-temp-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/persist-temp-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `rename-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/rename-file` endpoint.
+   *
+   * @param {RequestBody<"/command/rename-file">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/rename-file">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/rename-file
+   */
+  public renameFile(
+    params: RequestBody<"/command/rename-file">
+  ): RequestBuilder<ResponseBody<"/command/rename-file">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/rename-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `restore-file-snapshot` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/restore-file-snapshot` endpoint.
+   *
+   * @param {RequestBody<"/command/restore-file-snapshot">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/restore-file-snapshot
+   */
+  public restoreFileSnapshot(
+    params: RequestBody<"/command/restore-file-snapshot">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/restore-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Sends the `search-files` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/search-files` endpoint.
+   *
+   * @param {RequestBody<"/command/search-files">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/search-files
+   */
+  public searchFiles(
+    params: RequestBody<"/command/search-files">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/search-files",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-file` endpoint.
+   *
+   * @param {RequestBody<"/command/update-file">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/update-file">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/update-file
+   */
+  public updateFile(
+    params: RequestBody<"/command/update-file">
+  ): RequestBuilder<ResponseBody<"/command/update-file">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-file-snapshot` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-file-snapshot` endpoint.
+   *
+   * @param {RequestBody<"/command/update-file-snapshot">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/update-file-snapshot
+   */
+  public updateFileSnapshot(
+    params: RequestBody<"/command/update-file-snapshot">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-temp-file` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-temp-file` endpoint.
+   *
+   * @param {RequestBody<"/command/update-temp-file">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/update-temp-file
+   */
+  public updateTempFile(
+    params: RequestBody<"/command/update-temp-file">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-temp-file",
+      params
+    );
+  }
+
+  /**
+   * Sends the `upload-file-media-object` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/upload-file-media-object` endpoint.
+   *
+   * @param {RequestBody<"/command/upload-file-media-object">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/upload-file-media-object
+   */
+  public uploadFileMediaObject(
+    params: RequestBody<"/command/upload-file-media-object">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/upload-file-media-object",
+      params
+    );
+  }
+}
+
+/**
+ * The `Fonts` commands of the Penpot RPC API.
+ *
+ * @class FontsCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class FontsCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-font-variant` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-font-variant` endpoint.
+   *
+   * @param {RequestBody<"/command/create-font-variant">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/create-font-variant
+   */
+  public createFontVariant(
+    params: RequestBody<"/command/create-font-variant">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-font-variant",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-font` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-font` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-font">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/delete-font
+   */
+  public deleteFont(
+    params: RequestBody<"/command/delete-font">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-font",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-font-variant` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-font-variant` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-font-variant">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/delete-font-variant
+   */
+  public deleteFontVariant(
+    params: RequestBody<"/command/delete-font-variant">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-font-variant",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-font-variants` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-font-variants` endpoint.
+   *
+   * @param {RequestBody<"/command/get-font-variants">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/get-font-variants
+   */
+  public getFontVariants(
+    params?: RequestBody<"/command/get-font-variants">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-font-variants",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-font` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-font` endpoint.
+   *
+   * @param {RequestBody<"/command/update-font">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/update-font
+   */
+  public updateFont(
+    params: RequestBody<"/command/update-font">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-font",
+      params
+    );
+  }
+}
+
+/**
+ * The `Libraries` commands of the Penpot RPC API.
+ *
+ * @class LibrariesCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class LibrariesCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Get libraries used by the specified file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-libraries` endpoint.
+   *
+   * @param {RequestBody<"/command/get-file-libraries">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-file-libraries
+   */
+  public getFileLibraries(
+    params: RequestBody<"/command/get-file-libraries">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-libraries",
+      params
+    );
+  }
+
+  /**
+   * Returns all the file references that use specified file (library) id.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-library-file-references` endpoint.
+   *
+   * @param {RequestBody<"/command/get-library-file-references">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-library-file-references
+   */
+  public getLibraryFileReferences(
+    params: RequestBody<"/command/get-library-file-references">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-library-file-references",
+      params
+    );
+  }
+
+  /**
+   * Get all file (libraries) for the specified team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-shared-files` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-shared-files">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-team-shared-files
+   */
+  public getTeamSharedFiles(
+    params: RequestBody<"/command/get-team-shared-files">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-shared-files",
+      params
+    );
+  }
+
+  /**
+   * Checks if the file has libraries. Returns a boolean
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/has-file-libraries` endpoint.
+   *
+   * @param {RequestBody<"/command/has-file-libraries">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/has-file-libraries">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/has-file-libraries
+   */
+  public hasFileLibraries(
+    params: RequestBody<"/command/has-file-libraries">
+  ): RequestBuilder<ResponseBody<"/command/has-file-libraries">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/has-file-libraries",
+      params
+    );
+  }
+
+  /**
+   * Ignore updates in linked files
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/ignore-file-library-sync-status` endpoint.
+   *
+   * @param {RequestBody<"/command/ignore-file-library-sync-status">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/ignore-file-library-sync-status
+   */
+  public ignoreFileLibrarySyncStatus(
+    params: RequestBody<"/command/ignore-file-library-sync-status">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/ignore-file-library-sync-status",
+      params
+    );
+  }
+
+  /**
+   * Sends the `link-file-to-library` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/link-file-to-library` endpoint.
+   *
+   * @param {RequestBody<"/command/link-file-to-library">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/link-file-to-library
+   */
+  public linkFileToLibrary(
+    params: RequestBody<"/command/link-file-to-library">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/link-file-to-library",
+      params
+    );
+  }
+
+  /**
+   * Sends the `set-file-shared` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/set-file-shared` endpoint.
+   *
+   * @param {RequestBody<"/command/set-file-shared">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/set-file-shared
+   */
+  public setFileShared(
+    params: RequestBody<"/command/set-file-shared">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/set-file-shared",
+      params
+    );
+  }
+
+  /**
+   * Sends the `unlink-file-from-library` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/unlink-file-from-library` endpoint.
+   *
+   * @param {RequestBody<"/command/unlink-file-from-library">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/unlink-file-from-library
+   */
+  public unlinkFileFromLibrary(
+    params: RequestBody<"/command/unlink-file-from-library">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/unlink-file-from-library",
+      params
+    );
+  }
+
+  /**
+   * Update the synchronization status of a file->library link
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-file-library-sync-status` endpoint.
+   *
+   * @param {RequestBody<"/command/update-file-library-sync-status">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/update-file-library-sync-status
+   */
+  public updateFileLibrarySyncStatus(
+    params: RequestBody<"/command/update-file-library-sync-status">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-file-library-sync-status",
+      params
+    );
+  }
+}
+
+/**
+ * The `Misc` commands of the Penpot RPC API.
+ *
+ * @class MiscCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class MiscCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `push-audit-events` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/push-audit-events` endpoint.
+   *
+   * @param {RequestBody<"/command/push-audit-events">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Misc/push-audit-events
+   */
+  public pushAuditEvents(
+    params: RequestBody<"/command/push-audit-events">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/push-audit-events",
+      params
+    );
+  }
+
+  /**
+   * Sends the `send-user-feedback` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/send-user-feedback` endpoint.
+   *
+   * @param {RequestBody<"/command/send-user-feedback">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Misc/send-user-feedback
+   */
+  public sendUserFeedback(
+    params: RequestBody<"/command/send-user-feedback">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/send-user-feedback",
+      params
+    );
+  }
+}
+
+/**
+ * The `Profile` commands of the Penpot RPC API.
+ *
+ * @class ProfileCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class ProfileCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `prepare-register-profile` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/prepare-register-profile` endpoint.
+   *
+   * @param {RequestBody<"/command/prepare-register-profile">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/prepare-register-profile
+   */
+  public prepareRegisterProfile(
+    params: RequestBody<"/command/prepare-register-profile">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/prepare-register-profile",
+      params
+    );
+  }
+
+  /**
+   * Sends the `recover-profile` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/recover-profile` endpoint.
+   *
+   * @param {RequestBody<"/command/recover-profile">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/recover-profile
+   */
+  public recoverProfile(
+    params: RequestBody<"/command/recover-profile">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/recover-profile",
+      params
+    );
+  }
+
+  /**
+   * Sends the `register-profile` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/register-profile` endpoint.
+   *
+   * @param {RequestBody<"/command/register-profile">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/register-profile
+   */
+  public registerProfile(
+    params: RequestBody<"/command/register-profile">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/register-profile",
+      params
+    );
+  }
+
+  /**
+   * Sends the `request-email-change` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/request-email-change` endpoint.
+   *
+   * @param {RequestBody<"/command/request-email-change">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/request-email-change
+   */
+  public requestEmailChange(
+    params: RequestBody<"/command/request-email-change">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/request-email-change",
+      params
+    );
+  }
+
+  /**
+   * Sends the `request-profile-recovery` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/request-profile-recovery` endpoint.
+   *
+   * @param {RequestBody<"/command/request-profile-recovery">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/request-profile-recovery
+   */
+  public requestProfileRecovery(
+    params: RequestBody<"/command/request-profile-recovery">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/request-profile-recovery",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-profile` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile` endpoint.
+   *
+   * @param {RequestBody<"/command/update-profile">} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/update-profile">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile
+   */
+  public updateProfile(
+    params: RequestBody<"/command/update-profile">
+  ): RequestBuilder<ResponseBody<"/command/update-profile">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-profile-notifications` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-notifications` endpoint.
+   *
+   * @param {RequestBody<"/command/update-profile-notifications">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-notifications
+   */
+  public updateProfileNotifications(
+    params: RequestBody<"/command/update-profile-notifications">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-notifications",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-profile-password` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-password` endpoint.
+   *
+   * @param {RequestBody<"/command/update-profile-password">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-password
+   */
+  public updateProfilePassword(
+    params: RequestBody<"/command/update-profile-password">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-password",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-profile-photo` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-photo` endpoint.
+   * Because the payload carries a binary `file`, `sendRequest` sends it as `multipart/form-data`.
+   *
+   * @param {WithUpload<RequestBody<"/command/update-profile-photo">>} params - The request body of the command.
+   * @returns {RequestBuilder<ResponseBody<"/command/update-profile-photo">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-photo
+   */
+  public updateProfilePhoto(
+    params: WithUpload<RequestBody<"/command/update-profile-photo">>
+  ): RequestBuilder<ResponseBody<"/command/update-profile-photo">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-photo",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-profile-props` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-props` endpoint.
+   *
+   * @param {RequestBody<"/command/update-profile-props">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-props
+   */
+  public updateProfileProps(
+    params: RequestBody<"/command/update-profile-props">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-props",
+      params
+    );
+  }
+
+  /**
+   * Sends the `verify-token` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/verify-token` endpoint.
+   *
+   * @param {RequestBody<"/command/verify-token">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/verify-token
+   */
+  public verifyToken(
+    params: RequestBody<"/command/verify-token">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/verify-token",
+      params
+    );
+  }
+}
+
+/**
+ * The `Projects` commands of the Penpot RPC API.
+ *
+ * @class ProjectsCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class ProjectsCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-project` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-project` endpoint.
+   *
+   * @param {RequestBody<"/command/create-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/create-project
+   */
+  public createProject(
+    params: RequestBody<"/command/create-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-project",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-project` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-project` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/delete-project
+   */
+  public deleteProject(
+    params: RequestBody<"/command/delete-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-project",
+      params
+    );
+  }
+
+  /**
+   * Duplicate an entire project with all the files
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/duplicate-project` endpoint.
+   *
+   * @param {RequestBody<"/command/duplicate-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/duplicate-project
+   */
+  public duplicateProject(
+    params: RequestBody<"/command/duplicate-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/duplicate-project",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-all-projects` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-all-projects` endpoint.
+   *
+   * @param {RequestBody<"/command/get-all-projects">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-all-projects
+   */
+  public getAllProjects(
+    params?: RequestBody<"/command/get-all-projects">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-all-projects",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-project` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-project` endpoint.
+   *
+   * @param {RequestBody<"/command/get-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-project
+   */
+  public getProject(
+    params: RequestBody<"/command/get-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-project",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-projects` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-projects` endpoint.
+   *
+   * @param {RequestBody<"/command/get-projects">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-projects
+   */
+  public getProjects(
+    params: RequestBody<"/command/get-projects">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-projects",
+      params
+    );
+  }
+
+  /**
+   * Move projects between teams
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/move-project` endpoint.
+   *
+   * @param {RequestBody<"/command/move-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/move-project
+   */
+  public moveProject(
+    params: RequestBody<"/command/move-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/move-project",
+      params
+    );
+  }
+
+  /**
+   * Sends the `rename-project` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/rename-project` endpoint.
+   *
+   * @param {RequestBody<"/command/rename-project">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/rename-project
+   */
+  public renameProject(
+    params: RequestBody<"/command/rename-project">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/rename-project",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-project-pin` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-project-pin` endpoint.
+   *
+   * @param {RequestBody<"/command/update-project-pin">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/update-project-pin
+   */
+  public updateProjectPin(
+    params: RequestBody<"/command/update-project-pin">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-project-pin",
+      params
+    );
+  }
+}
+
+/**
+ * The `Teams` commands of the Penpot RPC API.
+ *
+ * @class TeamsCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class TeamsCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-team` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team` endpoint.
+   *
+   * @param {RequestBody<"/command/create-team">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team
+   */
+  public createTeam(
+    params: RequestBody<"/command/create-team">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team",
+      params
+    );
+  }
+
+  /**
+   * A rpc call that allow to request for an invitations to join the team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-access-request` endpoint.
+   *
+   * @param {RequestBody<"/command/create-team-access-request">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-access-request
+   */
+  public createTeamAccessRequest(
+    params?: RequestBody<"/command/create-team-access-request">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-access-request",
+      params
+    );
+  }
+
+  /**
+   * A rpc call that allow to send a single or multiple invitations to
+   * join the team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-invitations` endpoint.
+   *
+   * @param {RequestBody<"/command/create-team-invitations">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-invitations
+   */
+  public createTeamInvitations(
+    params: RequestBody<"/command/create-team-invitations">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-invitations",
+      params
+    );
+  }
+
+  /**
+   * Sends the `create-team-with-invitations` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-with-invitations` endpoint.
+   *
+   * @param {RequestBody<"/command/create-team-with-invitations">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-with-invitations
+   */
+  public createTeamWithInvitations(
+    params: RequestBody<"/command/create-team-with-invitations">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-with-invitations",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-team` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-team">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team
+   */
+  public deleteTeam(
+    params: RequestBody<"/command/delete-team">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-team-invitation` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team-invitation` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-team-invitation">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team-invitation
+   */
+  public deleteTeamInvitation(
+    params: RequestBody<"/command/delete-team-invitation">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team-invitation",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-team-member` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team-member` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-team-member">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team-member
+   */
+  public deleteTeamMember(
+    params: RequestBody<"/command/delete-team-member">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team-member",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-owned-teams` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-owned-teams` endpoint.
+   *
+   * @param {RequestBody<"/command/get-owned-teams">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-owned-teams
+   */
+  public getOwnedTeams(
+    params?: RequestBody<"/command/get-owned-teams">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-owned-teams",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team
+   */
+  public getTeam(
+    params?: RequestBody<"/command/get-team">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team",
+      params
+    );
+  }
+
+  /**
+   * Retrieve minimal team info by its ID.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-info` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-info">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-info
+   */
+  public getTeamInfo(
+    params?: RequestBody<"/command/get-team-info">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-info",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team-invitation-token` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-invitation-token` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-invitation-token">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-invitation-token
+   */
+  public getTeamInvitationToken(
+    params: RequestBody<"/command/get-team-invitation-token">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-invitation-token",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team-invitations` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-invitations` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-invitations">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-invitations
+   */
+  public getTeamInvitations(
+    params: RequestBody<"/command/get-team-invitations">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-invitations",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team-members` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-members` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-members">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-members
+   */
+  public getTeamMembers(
+    params: RequestBody<"/command/get-team-members">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-members",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-team-stats` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-stats` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-stats">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-stats
+   */
+  public getTeamStats(
+    params: RequestBody<"/command/get-team-stats">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-stats",
+      params
+    );
+  }
+
+  /**
+   * Get team users by team-id or by file-id
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-users` endpoint.
+   *
+   * @param {RequestBody<"/command/get-team-users">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-users
+   */
+  public getTeamUsers(
+    params?: RequestBody<"/command/get-team-users">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-users",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-teams` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-teams` endpoint.
+   *
+   * @param {RequestBody<"/command/get-teams">} [params] - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-teams
+   */
+  public getTeams(
+    params?: RequestBody<"/command/get-teams">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-teams",
+      params
+    );
+  }
+
+  /**
+   * Sends the `leave-team` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/leave-team` endpoint.
+   *
+   * @param {RequestBody<"/command/leave-team">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/leave-team
+   */
+  public leaveTeam(
+    params: RequestBody<"/command/leave-team">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/leave-team",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-team` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team` endpoint.
+   *
+   * @param {RequestBody<"/command/update-team">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team
+   */
+  public updateTeam(
+    params: RequestBody<"/command/update-team">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-team-invitation-role` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-invitation-role` endpoint.
+   *
+   * @param {RequestBody<"/command/update-team-invitation-role">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-invitation-role
+   */
+  public updateTeamInvitationRole(
+    params: RequestBody<"/command/update-team-invitation-role">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-invitation-role",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-team-member-role` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-member-role` endpoint.
+   *
+   * @param {RequestBody<"/command/update-team-member-role">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-member-role
+   */
+  public updateTeamMemberRole(
+    params: RequestBody<"/command/update-team-member-role">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-member-role",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-team-photo` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-photo` endpoint.
+   * Because the payload carries a binary `file`, `sendRequest` sends it as `multipart/form-data`.
+   *
+   * @param {WithUpload<RequestBody<"/command/update-team-photo">>} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-photo
+   */
+  public updateTeamPhoto(
+    params: WithUpload<RequestBody<"/command/update-team-photo">>
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-photo",
+      params
+    );
+  }
+}
+
+/**
+ * The `Webhooks` commands of the Penpot RPC API.
+ *
+ * @class WebhooksCommands
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ */
+export class WebhooksCommands {
+  private config: PenpotClientConfig;
+
+  /** @internal - Instances are created by {@link PenpotCommands}. */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Sends the `create-webhook` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-webhook` endpoint.
+   *
+   * @param {RequestBody<"/command/create-webhook">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/create-webhook
+   */
+  public createWebhook(
+    params: RequestBody<"/command/create-webhook">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-webhook",
+      params
+    );
+  }
+
+  /**
+   * Sends the `delete-webhook` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-webhook` endpoint.
+   *
+   * @param {RequestBody<"/command/delete-webhook">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/delete-webhook
+   */
+  public deleteWebhook(
+    params: RequestBody<"/command/delete-webhook">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-webhook",
+      params
+    );
+  }
+
+  /**
+   * Sends the `get-webhooks` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-webhooks` endpoint.
+   *
+   * @param {RequestBody<"/command/get-webhooks">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/get-webhooks
+   */
+  public getWebhooks(
+    params: RequestBody<"/command/get-webhooks">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-webhooks",
+      params
+    );
+  }
+
+  /**
+   * Sends the `update-webhook` command.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-webhook` endpoint.
+   *
+   * @param {RequestBody<"/command/update-webhook">} params - The request body of the command.
+   * @returns {RequestBuilder<unknown>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/update-webhook
+   */
+  public updateWebhook(
+    params: RequestBody<"/command/update-webhook">
+  ): RequestBuilder<unknown> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-webhook",
+      params
+    );
+  }
+}
+
+/**
+ * Every command of the Penpot RPC API, grouped by domain.
+ * Exposed as `client.commands` on the main {@link PenpotClient}.
+ *
+ * @class PenpotCommands
+ */
+export class PenpotCommands {
+  public readonly accessTokens: AccessTokensCommands;
+  public readonly auth: AuthCommands;
+  public readonly comments: CommentsCommands;
+  public readonly files: FilesCommands;
+  public readonly fonts: FontsCommands;
+  public readonly libraries: LibrariesCommands;
+  public readonly misc: MiscCommands;
+  public readonly profile: ProfileCommands;
+  public readonly projects: ProjectsCommands;
+  public readonly teams: TeamsCommands;
+  public readonly webhooks: WebhooksCommands;
+
+  /** @internal - Instances are created by the main {@link PenpotClient}. */
+  constructor(config: PenpotClientConfig) {
+    this.accessTokens = new AccessTokensCommands(config);
+    this.auth = new AuthCommands(config);
+    this.comments = new CommentsCommands(config);
+    this.files = new FilesCommands(config);
+    this.fonts = new FontsCommands(config);
+    this.libraries = new LibrariesCommands(config);
+    this.misc = new MiscCommands(config);
+    this.profile = new ProfileCommands(config);
+    this.projects = new ProjectsCommands(config);
+    this.teams = new TeamsCommands(config);
+    this.webhooks = new WebhooksCommands(config);
+  }
+}
@@ -0,0 +1,343 @@
+/**
+ * @file This module reads and writes `.penpot` archives (binfile v3) without a Penpot server.
+ * It exposes {@link readPenpotArchive}, which parses the archives returned by `FilesApi.exportFile`
+ * into a typed {@link PenpotArchive}, and {@link writePenpotArchive}, which builds an archive that
+ * `FilesApi.importFile` accepts.
+ *
+ * @remarks
+ * A binfile v3 archive is a ZIP file of JSON documents with camelCase keys, plus the binary content of
+ * media objects:
+ * - `manifest.json`: the archive type and version, the exported files and the library relations between them.
+ * - `files/<file-id>.json`: the file itself (name, features, options, ...).
+ * - `files/<file-id>/pages/<page-id>.json` and `files/<file-id>/pages/<page-id>/<shape-id>.json`:
+ *   each page, and each shape of the page.
+ * - `files/<file-id>/{components,colors,typographies,media}/<id>.json`: the assets of the file.
+ * - `objects/<id>.json` and `objects/<id><extension>`: the metadata and content of each storage object,
+ *   such as images.
+ *
+ * JSON documents are kept as they are, so that reading and writing an archive preserves fields this
+ * module does not know about. Entries outside the layout above are kept byte-for-byte in
+ * {@link PenpotArchive.extraEntries}.
+ *
+ * Archives are written deterministically, so that backups of unchanged files are byte-identical.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { ApiClientError } from "./errors.ts";
+import { readZip, writeZip } from "./_internals/zip.ts";
+import type { components } from "./generated/types.ts";
+
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+
+/**
+ * An entity of an archive, e.g. a file, page, shape or color, as stored in its JSON document.
+ */
+export interface PenpotArchiveEntity {
+  id: Uuid;
+  [key: string]: unknown;
+}
+
+/**
+ * The manifest of an archive, stored as `manifest.json`.
+ *
+ * @interface PenpotArchiveManifest
+ * @property {string} type - The archive type, `"penpot/export-files"`.
+ * @property {number} version - The version of the manifest format.
+ * @property {string} [generatedBy] - The software that wrote the archive, e.g. `"penpot/2.4.0"`.
+ * @property {Array<{ id: Uuid; name: string; features?: string[] }>} files - The files of the archive.
+ * @property {Array<[Uuid, Uuid]>} [relations] - Which file uses which library, as `[fileId, libraryId]` pairs.
+ */
+export interface PenpotArchiveManifest {
+  type: string;
+  version: number;
+  generatedBy?: string;
+  files: { id: Uuid; name: string; features?: string[] }[];
+  relations?: [Uuid, Uuid][];
+  [key: string]: unknown;
+}
+
+/**
+ * A page of an archived file, with its shapes.
+ *
+ * @interface PenpotArchivePage
+ * @property {PenpotArchiveEntity} page - The page, without its shapes.
+ * @property {PenpotArchiveEntity[]} shapes - The shapes of the page.
+ */
+export interface PenpotArchivePage {
+  page: PenpotArchiveEntity;
+  shapes: PenpotArchiveEntity[];
+}
+
+/**
+ * A file of an archive, with its pages and assets.
+ *
+ * @interface PenpotArchiveFile
+ * @property {PenpotArchiveEntity} file - The file itself, e.g. its `name`, `features` and `isShared` flag.
+ * @property {PenpotArchivePage[]} pages - The pages of the file.
+ * @property {PenpotArchiveEntity[]} components - The components of the file's local library.
+ * @property {PenpotArchiveEntity[]} colors - The colors of the file's local library.
+ * @property {PenpotArchiveEntity[]} typographies - The typographies of the file's local library.
+ * @property {PenpotArchiveEntity[]} media - The media of the file, referring to storage objects.
+ */
+export interface PenpotArchiveFile {
+  file: PenpotArchiveEntity;
+  pages: PenpotArchivePage[];
+  components: PenpotArchiveEntity[];
+  colors: PenpotArchiveEntity[];
+  typographies: PenpotArchiveEntity[];
+  media: PenpotArchiveEntity[];
+}
+
+/**
+ * A storage object of an archive, e.g. the content of an image.
+ *
+ * @interface PenpotArchiveObject
+ * @property {string} id - The id of the object.
+ * @property {Record<string, unknown>} meta - The metadata of the object, e.g. its `contentType` and `size`.
+ * @property {Uint8Array} content - The content of the object.
+ * @property {string} extension - The extension of the content entry, e.g. `".png"`, or `""` if it has none.
+ */
+export interface PenpotArchiveObject {
+  id: string;
+  meta: Record<string, unknown>;
+  content: Uint8Array;
+  extension: string;
+}
+
+/**
+ * The content of a `.penpot` archive.
+ *
+ * @interface PenpotArchive
+ * @property {PenpotArchiveManifest} manifest - The manifest of the archive.
+ * @property {PenpotArchiveFile[]} files - The files of the archive.
+ * @property {PenpotArchiveObject[]} objects - The storage objects of the archive.
+ * @property {Map<string, Uint8Array>} extraEntries - Entries that are not part of the layout known to
+ * this module, keyed by path. They are written back unchanged.
+ */
+export interface PenpotArchive {
+  manifest: PenpotArchiveManifest;
+  files: PenpotArchiveFile[];
+  objects: PenpotArchiveObject[];
+  extraEntries: Map<string, Uint8Array>;
+}
+
+/**
+ * The input of {@link writePenpotArchive}. Only the files are required; the manifest is derived from
+ * them if omitted.
+ */
+export type PenpotArchiveInput = Pick<PenpotArchive, "files"> &
+  Partial<Omit<PenpotArchive, "files">>;
+
+/** The asset folders of a file, in the order they are written. */
+const ASSET_FOLDERS = [
+  "components",
+  "colors",
+  "typographies",
+  "media",
+] as const;
+
+const FILE_PATH = /^files\/([^/]+)\.json$/;
+const PAGE_PATH = /^files\/([^/]+)\/pages\/([^/]+)\.json$/;
+const SHAPE_PATH = /^files\/([^/]+)\/pages\/([^/]+)\/([^/]+)\.json$/;
+const ASSET_PATH =
+  /^files\/([^/]+)\/(components|colors|typographies|media)\/([^/]+)\.json$/;
+const OBJECT_META_PATH = /^objects\/([^/.]+)\.json$/;
+const OBJECT_CONTENT_PATH = /^objects\/([^/.]+)(\.[^/]*)?$/;
+
+/**
+ * Parses a `.penpot` archive (binfile v3), e.g. the result of `FilesApi.exportFile`.
+ *
+ * @param {ArrayBuffer | Uint8Array | Blob | ReadableStream<Uint8Array>} data - The archive.
+ * @returns {Promise<PenpotArchive>} The content of the archive.
+ * @throws {ApiClientError} If the data is not a valid ZIP archive, has no manifest, or holds invalid JSON.
+ *
+ * @example
+ * ```typescript
+ * import { readPenpotArchive } from "@ajsb85/penpot-api-client";
+ *
+ * const archive = await readPenpotArchive(await client.files.exportFile({ id: fileId }).unwrap());
+ * for (const { file, pages, media } of archive.files) {
+ * console.log(`${file.name}: ${pages.length} pages, ${media.length} media`);
+ * }
+ * ```
+ */
+export async function readPenpotArchive(
+  data: ArrayBuffer | Uint8Array | Blob | ReadableStream<Uint8Array>
+): Promise<PenpotArchive> {
+  let entries: Map<string, Uint8Array>;
+  try {
+    entries = await readZip(
+      new Uint8Array(await new Response(data as BodyInit).arrayBuffer())
+    );
+  } catch (error) {
+    throw new ApiClientError("Failed to read the Penpot archive", {
+      cause: error,
+    });
+  }
+
+  const decoder = new TextDecoder();
+  const parse = <T>(path: string, content: Uint8Array): T => {
+    try {
+      return JSON.parse(decoder.decode(content));
+    } catch (error) {
+      throw new ApiClientError(`Invalid JSON in Penpot archive entry ${path}`, {
+        cause: error,
+      });
+    }
+  };
+
+  const manifestEntry = entries.get("manifest.json");
+  if (!manifestEntry) {
+    throw new ApiClientError("Not a Penpot archive: manifest.json is missing");
+  }
+  const manifest = parse<PenpotArchiveManifest>("manifest.json", manifestEntry);
+
+  // Entries may come in any order, so files, pages and objects are collected by id first.
+  const files = new Map<string, PenpotArchiveFile>();
+  const pages = new Map<string, PenpotArchivePage>();
+  const objects = new Map<string, Partial<PenpotArchiveObject>>();
+  const extraEntries = new Map<string, Uint8Array>();
+
+  const fileOf = (id: string): PenpotArchiveFile => {
+    let file = files.get(id);
+    if (!file) {
+      file = {
+        file: { id },
+        pages: [],
+        components: [],
+        colors: [],
+        typographies: [],
+        media: [],
+      };
+      files.set(id, file);
+    }
+    return file;
+  };
+  const pageOf = (fileId: string, pageId: string): PenpotArchivePage => {
+    const key = `${fileId}/${pageId}`;
+    let page = pages.get(key);
+    if (!page) {
+      page = { page: { id: pageId }, shapes: [] };
+      pages.set(key, page);
+      fileOf(fileId).pages.push(page);
+    }
+    return page;
+  };
+  const objectOf = (id: string): Partial<PenpotArchiveObject> => {
+    let object = objects.get(id);
+    if (!object) {
+      object = { id };
+      objects.set(id, object);
+    }
+    return object;
+  };
+
+  for (const [path, content] of entries) {
+    let match: RegExpMatchArray | null;
+    if (path === "manifest.json") {
+      continue;
+    } else if ((match = path.match(FILE_PATH))) {
+      fileOf(match[1]).file = parse(path, content);
+    } else if ((match = path.match(PAGE_PATH))) {
+      pageOf(match[1], match[2]).page = parse(path, content);
+    } else if ((match = path.match(SHAPE_PATH))) {
+      pageOf(match[1], match[2]).shapes.push(parse(path, content));
+    } else if ((match = path.match(ASSET_PATH))) {
+      const folder = match[2] as (typeof ASSET_FOLDERS)[number];
+      fileOf(match[1])[folder].push(parse(path, content));
+    } else if ((match = path.match(OBJECT_META_PATH))) {
+      objectOf(match[1]).meta = parse(path, content);
+    } else if ((match = path.match(OBJECT_CONTENT_PATH))) {
+      const object = objectOf(match[1]);
+      object.content = content;
+      object.extension = match[2] ?? "";
+    } else {
+      extraEntries.set(path, content);
+    }
+  }
+
+  return {
+    manifest,
+    files: [...files.values()],
+    objects: [...objects.values()].map((object) => ({
+      id: object.id!,
+      meta: object.meta ?? {},
+      content: object.content ?? new Uint8Array(),
+      extension: object.extension ?? "",
+    })),
+    extraEntries,
+  };
+}
+
+/**
+ * Writes a `.penpot` archive (binfile v3) that `FilesApi.importFile` accepts.
+ * If the input has no manifest, one is derived from its files.
+ *
+ * @param {PenpotArchiveInput} archive - The content of the archive, e.g. a {@link PenpotArchive} read
+ * with {@link readPenpotArchive} and then modified.
+ * @returns {Promise<Uint8Array>} The bytes of the archive.
+ * @throws {ApiClientError} If an entry is larger than 4 GiB or the archive grows beyond 4 GiB before its
+ * last entry. Archives with more than 65,535 entries, e.g. files with many shapes, are written as ZIP64.
+ *
+ * @example
+ * ```typescript
+ * import { readPenpotArchive, writePenpotArchive } from "@ajsb85/penpot-api-client";
+ *
+ * // Generate a file from a template archive, entirely locally
+ * const template = await readPenpotArchive(await Deno.readFile("./template.penpot"));
+ * template.files[0].file.name = "Campaign 2026";
+ * const { fileIds } = await client.files
+ * .importFile({ projectId, name: "Campaign 2026", file: await writePenpotArchive(template) })
+ * .unwrap();
+ * ```
+ */
+export function writePenpotArchive(
+  archive: PenpotArchiveInput
+): Promise<Uint8Array> {
+  const encoder = new TextEncoder();
+  const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+
+  const manifest: PenpotArchiveManifest = archive.manifest ?? {
+    type: "penpot/export-files",
+    version: 1,
+    generatedBy: "penpot-api-client",
+    files: archive.files.map(({ file }) => ({
+      id: file.id,
+      name: String(file.name ?? ""),
+      // Penpot's import requires the features of every file, even if there are none.
+      features: Array.isArray(file.features) ? file.features : [],
+    })),
+    relations: [],
+  };
+
+  const entries: [string, Uint8Array][] = [["manifest.json", json(manifest)]];
+  for (const { file, pages, ...assets } of archive.files) {
+    const base = `files/${file.id}`;
+    entries.push([`${base}.json`, json(file)]);
+    for (const { page, shapes } of pages) {
+      entries.push([`${base}/pages/${page.id}.json`, json(page)]);
+      for (const shape of shapes) {
+        entries.push([
+          `${base}/pages/${page.id}/${shape.id}.json`,
+          json(shape),
+        ]);
+      }
+    }
+    for (const folder of ASSET_FOLDERS) {
+      for (const asset of assets[folder]) {
+        entries.push([`${base}/${folder}/${asset.id}.json`, json(asset)]);
+      }
+    }
+  }
+  for (const object of archive.objects ?? []) {
+    entries.push([`objects/${object.id}.json`, json(object.meta)]);
+    entries.push([`objects/${object.id}${object.extension}`, object.content]);
+  }
+  for (const entry of archive.extraEntries ?? []) {
+    entries.push(entry);
+  }
+
+  return writeZip(entries);
+}
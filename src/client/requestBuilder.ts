@@ -1,6 +1,8 @@
 import { sendRequest } from "./_internals/request.ts";
-import type { ApiError } from "./errors.ts";
+import { toApiError, type ApiError } from "./errors.ts";
 import type { PenpotClientConfig } from "../index.ts";
+import type { RetryPolicy } from "./_internals/retry.ts";
+import type { SseProgressEvent } from "./_internals/sse.ts";
 
 /**
  * @file This file defines the `ApiResponse` type and the `RequestBuilder` class.
@@ -13,6 +15,9 @@ import type { PenpotClientConfig } from "../index.ts";
  * way to interact with the Penpot API. It abstracts the complexities of `fetch` calls,
  * header management, and error handling into a user-friendly interface.
  *
+ * A request can be executed in two styles: `exec()` returns an {@link ApiResponse} that never throws,
+ * while `unwrap()` (or simply awaiting the builder) returns the data and throws an {@link ApiError}.
+ *
  * @packageDocumentation
  */
 
@@ -95,7 +100,7 @@ export type ApiResponse<T> =
  *
  * // Example of chaining methods to build and execute a request:
  * async function performLogin() {
- * const { data, error } = await client.auth.login({ email: "user@example.com", password: "password123" })
+ * const { data, error } = await client.auth.loginWithPassword({ email: "user@example.com", password: "password123" })
  * .withHeader("X-Request-Source", "MyWebApp") // Add a custom header
  * .withToken("temp-login-token") // Override the default client token for this request
  * .exec(); // Execute the request
@@ -109,13 +114,19 @@ export type ApiResponse<T> =
  * performLogin();
  * ```
  */
-export class RequestBuilder<T> {
+export class RequestBuilder<T> implements PromiseLike<T> {
   private requestConfig: {
     method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH";
     path: string;
     body?: unknown;
     headers: Headers;
     accessToken?: string;
+    retry?: RetryPolicy | false;
+    timeoutMs?: number;
+    signal?: AbortSignal;
+    onProgress?: (event: SseProgressEvent) => void;
+    stream?: boolean;
+    decodeSse?: (data: string) => T;
   };
   private clientConfig: PenpotClientConfig;
 
@@ -131,18 +142,22 @@ export class RequestBuilder<T> {
    * (e.g., `"/command/get-profile"`, `"/command/import-binfile"`).
    * @param {unknown} [body] - Optional. The request body payload. This can be a plain JavaScript object
    * (which will be JSON-stringified), `FormData` (for multipart/form-data), `Uint8Array`, or `Blob`.
+   * @param {(data: string) => T} [decodeSse] - Optional. Maps the payload of the 'end' event of an SSE response
+   * to the typed result of this request. By default, the payload is decoded as transit and returned as-is.
    */
   constructor(
     clientConfig: PenpotClientConfig,
     method: "GET" | "POST" | "PUT" | "DELETE" | "PATCH",
     path: string,
-    body?: unknown
+    body?: unknown,
+    decodeSse?: (data: string) => T
   ) {
     this.clientConfig = clientConfig;
     this.requestConfig = {
       method,
       path,
       body,
+      decodeSse,
       // Initialize with default JSON headers, which can be overridden.
       headers: new Headers({
         "Content-Type": "application/json",
@@ -196,6 +211,117 @@ export class RequestBuilder<T> {
     return this;
   }
 
+  /**
+   * Overrides the client's retry policy for this specific request.
+   * Transient failures (network errors, `429` and `5xx` responses) are retried with exponential
+   * backoff. Commands that may modify data are only retried if the policy sets `retryNonIdempotent`,
+   * so this is the place to opt in for commands that are known to be safe to repeat.
+   *
+   * @param {RetryPolicy | false} policy - The retry policy for this request, or `false` to disable retries.
+   * @returns {this} The current `RequestBuilder` instance, allowing for method chaining.
+   *
+   * @example
+   * ```typescript
+   * // Nightly export: retry transient gateway errors, although `export-binfile` is not a `get-*` command
+   * const { data, error } = await client.files.exportFile({ id: fileId })
+   * .withRetry({ maxAttempts: 5, baseDelayMs: 2000, retryNonIdempotent: true })
+   * .exec();
+   * ```
+   */
+  public withRetry(policy: RetryPolicy | false): this {
+    this.requestConfig.retry = policy;
+    return this;
+  }
+
+  /**
+   * Overrides the client's default timeout for this specific request.
+   * The timeout covers the whole request, including retries and reading the response body or
+   * SSE stream. When it elapses, the request fails with an {@link ApiTimeoutError}.
+   *
+   * @param {number} ms - The timeout in milliseconds.
+   * @returns {this} The current `RequestBuilder` instance, allowing for method chaining.
+   *
+   * @example
+   * ```typescript
+   * // Give a large import up to ten minutes, regardless of the client-wide timeout
+   * const { data, error } = await client.files.importFile(params)
+   * .withTimeout(10 * 60_000)
+   * .exec();
+   * ```
+   */
+  public withTimeout(ms: number): this {
+    this.requestConfig.timeoutMs = ms;
+    return this;
+  }
+
+  /**
+   * Cancels this request when the given signal is aborted.
+   * The request then fails with an {@link ApiAbortError}, whose `cause` is the abort reason.
+   *
+   * @param {AbortSignal} signal - The signal, e.g. from an `AbortController`.
+   * @returns {this} The current `RequestBuilder` instance, allowing for method chaining.
+   *
+   * @example
+   * ```typescript
+   * const controller = new AbortController();
+   * const pending = client.files.getFile({ id: fileId }).withSignal(controller.signal).exec();
+   * controller.abort(); // `pending` resolves with an ApiAbortError
+   * ```
+   */
+  public withSignal(signal: AbortSignal): this {
+    this.requestConfig.signal = signal;
+    return this;
+  }
+
+  /**
+   * Registers a callback for the progress of a long-running operation, such as `importFile`.
+   * Penpot reports the stages of these operations as `progress` events of an SSE stream; each one is
+   * passed to `callback` as it arrives, while the request still resolves with the final result.
+   * The callback is never called for requests that are not answered with an SSE stream.
+   * If it throws, the stream is cancelled and the request fails with an {@link ApiClientError}.
+   *
+   * @param {(event: SseProgressEvent) => void} callback - Called with every progress event.
+   * @returns {this} The current `RequestBuilder` instance, allowing for method chaining.
+   *
+   * @example
+   * ```typescript
+   * // Show the current stage of a large import in a CLI
+   * const { fileId } = await client.files.importFile(params)
+   * .onProgress(({ section, name, index, total }) => {
+   * const counter = total ? ` (${(index ?? 0) + 1}/${total})` : "";
+   * console.log(`Importing ${section}${name ? ` ${name}` : ""}${counter}`);
+   * })
+   * .unwrap();
+   * ```
+   */
+  public onProgress(callback: (event: SseProgressEvent) => void): this {
+    this.requestConfig.onProgress = callback;
+    return this;
+  }
+
+  /**
+   * Returns the body of the response as a stream instead of reading it into memory.
+   * This is meant for large binary responses, such as the `.penpot` files of `FilesApi.exportFile`,
+   * which can then be written to disk with {@link writeStreamToFile} chunk by chunk.
+   *
+   * Error responses are still parsed and reported as {@link ApiHttpError}s. The timeout and signal of
+   * the request keep applying while the stream is read, and a {@link RequestLimiter} slot is held
+   * until the stream has been read to the end or cancelled.
+   *
+   * @returns {RequestBuilder<ReadableStream<Uint8Array>>} The current `RequestBuilder` instance,
+   * now resolving with the response body as a `ReadableStream`.
+   *
+   * @example
+   * ```typescript
+   * const stream = await client.files.exportFile({ id: fileId }).asStream().unwrap();
+   * await writeStreamToFile(stream, `./backups/${fileId}.penpot`);
+   * ```
+   */
+  public asStream(): RequestBuilder<ReadableStream<Uint8Array>> {
+    this.requestConfig.stream = true;
+    return this as unknown as RequestBuilder<ReadableStream<Uint8Array>>;
+  }
+
   /**
    * Executes the configured API request.
    * This method is the terminal operation of the `RequestBuilder` chain,
@@ -234,9 +360,56 @@ export class RequestBuilder<T> {
       // If `sendRequest` resolves, it means the request was successful, so return data with no error.
       return { data, error: null };
     } catch (error) {
-      // If `sendRequest` throws an error (which will be an `ApiError` subclass),
-      // catch it and return it within the `ApiResponse` structure, with data as null.
-      return { data: null, error: error as ApiError };
+      // Return the failure within the `ApiResponse` structure, with data as null. `sendRequest` throws
+      // `ApiError` subclasses, but anything else (e.g. a malformed JSON body) is wrapped as well.
+      return { data: null, error: toApiError(error) };
     }
   }
+
+  /**
+   * Executes the configured API request and returns its data directly, throwing on failure.
+   * This is the exception-based counterpart of {@link RequestBuilder.exec}.
+   *
+   * @returns {Promise<T>} A Promise that resolves with the response data.
+   * @throws {ApiError} The same error that {@link RequestBuilder.exec} would return, e.g. an
+   * {@link ApiHttpError} subclass or an {@link ApiClientError}.
+   *
+   * @example
+   * ```typescript
+   * try {
+   * const profile = await client.auth.getProfile().unwrap();
+   * console.log(profile.fullname);
+   * } catch (error) {
+   * if (error instanceof ApiAuthenticationError) await refreshToken();
+   * else throw error;
+   * }
+   * ```
+   */
+  public async unwrap(): Promise<T> {
+    const { data, error } = await this.exec();
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Makes the builder awaitable: `await builder` behaves like `await builder.unwrap()`,
+   * resolving with the response data or rejecting with an {@link ApiError}.
+   * The request is sent each time the builder is awaited.
+   *
+   * @param {Function} [onfulfilled] - Called with the response data.
+   * @param {Function} [onrejected] - Called with the {@link ApiError}.
+   * @returns {Promise} A Promise for the result of the called handler.
+   *
+   * @example
+   * ```typescript
+   * const file = await client.files.getFile({ id: fileId });
+   * const teams = await client.teams.getTeams().withTimeout(5_000);
+   * ```
+   */
+  public then<TResult1 = T, TResult2 = never>(
+    onfulfilled?: ((value: T) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: ApiError) => TResult2 | PromiseLike<TResult2>) | null
+  ): Promise<TResult1 | TResult2> {
+    return this.unwrap().then(onfulfilled, onrejected);
+  }
 }
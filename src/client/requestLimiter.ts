@@ -0,0 +1,418 @@
+/**
+ * @file This module provides the {@link RequestLimiter}, a client-side rate limiter and concurrency
+ * pool that every request of a {@link PenpotClient} passes through when one is configured.
+ *
+ * @remarks
+ * Bulk jobs, such as exporting every file of a team, can easily overwhelm a self-hosted Penpot
+ * instance. The limiter protects the server in two ways:
+ * - A token bucket limits the request rate, optionally with stricter buckets for individual commands
+ *   (e.g. `export-binfile`).
+ * - A concurrency pool limits the number of requests in flight. A request occupies its slot until its
+ *   response body has been read, including its retries. Each retry takes a new token from the buckets,
+ *   so that retrying `429` and `5xx` responses does not exceed the rate.
+ *
+ * Requests that cannot start yet wait in a FIFO queue; a request whose command bucket is empty does not
+ * block the requests behind it. Queued requests honour their `AbortSignal` and timeout.
+ *
+ * A limiter is a plain object, so it can be shared by several clients by passing the same instance
+ * to each of them, or through {@link RequestLimiter.forBaseUrl}, which keeps one limiter per Penpot
+ * instance for the whole process.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * The rate of a token bucket.
+ *
+ * @interface RateLimit
+ * @property {number} requestsPerSecond - How many requests may start per second on average.
+ * @property {number} [burst] - How many requests may start at once after an idle period.
+ * Defaults to `requestsPerSecond`, rounded up.
+ */
+export interface RateLimit {
+  requestsPerSecond: number;
+  burst?: number;
+}
+
+/**
+ * Configures a {@link RequestLimiter}. Every limit is optional; a limiter without limits lets all
+ * requests through immediately and only collects statistics.
+ *
+ * @interface RequestLimiterOptions
+ * @property {number} [maxConcurrent] - The maximum number of requests in flight at the same time.
+ * @property {number} [requestsPerSecond] - The average number of requests that may start per second.
+ * @property {number} [burst] - How many requests may start at once after an idle period.
+ * Defaults to `requestsPerSecond`, rounded up.
+ * @property {Record<string, RateLimit>} [commands] - Additional rate limits for individual commands,
+ * keyed by command name (e.g. `"export-binfile"`). They apply on top of the global rate.
+ */
+export interface RequestLimiterOptions {
+  maxConcurrent?: number;
+  requestsPerSecond?: number;
+  burst?: number;
+  commands?: Record<string, RateLimit>;
+}
+
+/**
+ * A snapshot of the state of a {@link RequestLimiter}, for monitoring.
+ *
+ * @interface RequestLimiterStats
+ * @property {number} queued - The number of requests waiting to start.
+ * @property {number} active - The number of requests in flight.
+ * @property {number} started - The number of requests started since the limiter was created.
+ * @property {number} lastWaitMs - How long the most recently started request waited in the queue.
+ * @property {number} maxWaitMs - The longest time a request waited in the queue.
+ * @property {number} averageWaitMs - The average time requests waited in the queue.
+ */
+export interface RequestLimiterStats {
+  queued: number;
+  active: number;
+  started: number;
+  lastWaitMs: number;
+  maxWaitMs: number;
+  averageWaitMs: number;
+}
+
+/**
+ * A token bucket that refills continuously at a fixed rate.
+ */
+class TokenBucket {
+  private readonly ratePerMs: number;
+  private readonly capacity: number;
+  private tokens: number;
+  private updatedAt = Date.now();
+
+  constructor(limit: RateLimit) {
+    this.ratePerMs = limit.requestsPerSecond / 1000;
+    this.capacity = Math.max(
+      1,
+      limit.burst ?? Math.ceil(limit.requestsPerSecond)
+    );
+    this.tokens = this.capacity;
+  }
+
+  /** Returns how many milliseconds to wait until a token is available, `0` if one is available now. */
+  public delay(): number {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + (now - this.updatedAt) * this.ratePerMs
+    );
+    this.updatedAt = now;
+    return this.tokens >= 1 ? 0 : (1 - this.tokens) / this.ratePerMs;
+  }
+
+  /** Consumes a token. Only call it after {@link TokenBucket.delay} returned `0`. */
+  public take(): void {
+    this.tokens -= 1;
+  }
+}
+
+/**
+ * Checks that a limit is a positive number. Zero, negative and `NaN` limits would make requests wait forever.
+ *
+ * @throws {RangeError} If the limit is set and not positive, or not an integer where one is required.
+ */
+function assertPositive(
+  name: string,
+  value: number | undefined,
+  integer = false
+): void {
+  if (value === undefined) return;
+  if (
+    !(value > 0) ||
+    (integer && value !== Infinity && !Number.isInteger(value))
+  ) {
+    throw new RangeError(
+      `RequestLimiterOptions: '${name}' must be a positive ${
+        integer ? "integer" : "number"
+      }, got ${value}.`
+    );
+  }
+}
+
+/**
+ * Serialises options in a fixed order, so that {@link RequestLimiter.forBaseUrl} can tell whether two calls
+ * ask for the same limits. An unset `maxConcurrent` and `Infinity` both serialise as `null`.
+ */
+function optionsKey(options: RequestLimiterOptions): string {
+  const commands = Object.keys(options.commands ?? {})
+    .sort()
+    .map((command) => {
+      const { requestsPerSecond, burst } = options.commands![command];
+      return [command, requestsPerSecond, burst];
+    });
+  return JSON.stringify([
+    options.maxConcurrent,
+    options.requestsPerSecond,
+    options.burst,
+    commands,
+  ]);
+}
+
+/** A request waiting in the queue of a {@link RequestLimiter}. */
+interface Waiter {
+  command: string | undefined;
+  /** Whether the request already occupies a concurrency slot, i.e. it is a retry. */
+  holdsSlot: boolean;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+/** The limiters shared through {@link RequestLimiter.forBaseUrl}, keyed by normalised base URL. */
+const sharedLimiters = new Map<string, RequestLimiter>();
+
+/**
+ * Limits the rate and concurrency of the requests of one or more {@link PenpotClient} instances.
+ *
+ * @class RequestLimiter
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient, RequestLimiter } from "@ajsb85/penpot-api-client";
+ *
+ * const limiter = new RequestLimiter({
+ * maxConcurrent: 4,
+ * requestsPerSecond: 10,
+ * commands: { "export-binfile": { requestsPerSecond: 0.5 } },
+ * });
+ * const client = new PenpotClient({ baseUrl: "https://penpot.internal", accessToken: "...", limiter });
+ *
+ * await Promise.all(fileIds.map((id) => client.files.exportFile({ id }).exec()));
+ * console.log(limiter.getStats()); // { queued: 0, active: 0, started: 120, ... }
+ * ```
+ */
+export class RequestLimiter {
+  private readonly maxConcurrent: number;
+  private readonly bucket?: TokenBucket;
+  private readonly commandBuckets = new Map<string, TokenBucket>();
+  private readonly waiters: Waiter[] = [];
+  private active = 0;
+  private started = 0;
+  private lastWaitMs = 0;
+  private maxWaitMs = 0;
+  private totalWaitMs = 0;
+  private timer?: ReturnType<typeof setTimeout>;
+  private readonly optionsKey: string;
+
+  /**
+   * Creates a limiter. Pass the same instance to several clients to share its limits.
+   *
+   * @param {RequestLimiterOptions} [options] - The limits to enforce.
+   * @throws {RangeError} If a limit is zero, negative or `NaN`, or `maxConcurrent` is not an integer.
+   */
+  constructor(options: RequestLimiterOptions = {}) {
+    assertPositive("maxConcurrent", options.maxConcurrent, true);
+    assertPositive("requestsPerSecond", options.requestsPerSecond);
+    assertPositive("burst", options.burst);
+    for (const [command, limit] of Object.entries(options.commands ?? {})) {
+      assertPositive(
+        `commands.${command}.requestsPerSecond`,
+        limit.requestsPerSecond
+      );
+      assertPositive(`commands.${command}.burst`, limit.burst);
+    }
+    this.optionsKey = optionsKey(options);
+
+    this.maxConcurrent = options.maxConcurrent ?? Infinity;
+    if (options.requestsPerSecond !== undefined) {
+      this.bucket = new TokenBucket({
+        requestsPerSecond: options.requestsPerSecond,
+        burst: options.burst,
+      });
+    }
+    for (const [command, limit] of Object.entries(options.commands ?? {})) {
+      this.commandBuckets.set(command, new TokenBucket(limit));
+    }
+  }
+
+  /**
+   * Returns the limiter shared by every caller that uses the same Penpot instance, creating it on first use.
+   * The `options` are only applied when the limiter is created. Later calls may omit them, or must pass the
+   * same limits, so that a caller cannot silently run with limits other than the ones it asked for.
+   *
+   * @param {string} baseUrl - The base URL of the Penpot instance. Trailing slashes are ignored.
+   * @param {RequestLimiterOptions} [options] - The limits to enforce if the limiter does not exist yet.
+   * @returns {RequestLimiter} The shared limiter.
+   * @throws {Error} If the limiter already exists with different options.
+   * @throws {RangeError} If the limiter is created and a limit is invalid.
+   *
+   * @example
+   * ```typescript
+   * // Both clients share one queue, although they are created in different modules.
+   * const limiter = RequestLimiter.forBaseUrl("https://penpot.internal", { maxConcurrent: 4 });
+   * const reader = new PenpotClient({ baseUrl: "https://penpot.internal", accessToken: readToken, limiter });
+   * const writer = new PenpotClient({
+   * baseUrl: "https://penpot.internal",
+   * accessToken: writeToken,
+   * limiter: RequestLimiter.forBaseUrl("https://penpot.internal"),
+   * });
+   * ```
+   */
+  public static forBaseUrl(
+    baseUrl: string,
+    options?: RequestLimiterOptions
+  ): RequestLimiter {
+    const key = baseUrl.replace(/\/+$/, "");
+    let limiter = sharedLimiters.get(key);
+    if (
+      limiter &&
+      options !== undefined &&
+      optionsKey(options) !== limiter.optionsKey
+    ) {
+      throw new Error(
+        `RequestLimiter.forBaseUrl: the limiter for ${key} already exists with different options.`
+      );
+    }
+    if (!limiter) {
+      limiter = new RequestLimiter(options);
+      sharedLimiters.set(key, limiter);
+    }
+    return limiter;
+  }
+
+  /**
+   * Returns a snapshot of the queue depth, the number of requests in flight and the queue wait times.
+   *
+   * @returns {RequestLimiterStats} The current statistics.
+   */
+  public getStats(): RequestLimiterStats {
+    return {
+      queued: this.waiters.length,
+      active: this.active,
+      started: this.started,
+      lastWaitMs: this.lastWaitMs,
+      maxWaitMs: this.maxWaitMs,
+      averageWaitMs: this.started === 0 ? 0 : this.totalWaitMs / this.started,
+    };
+  }
+
+  /**
+   * @internal
+   * Waits until a request may start, and occupies a concurrency slot for it.
+   *
+   * @param {string | undefined} command - The command of the request, used for per-command limits.
+   * @param {AbortSignal} [signal] - Cancels the wait when aborted.
+   * @returns {Promise<() => void>} A function that frees the slot; call it once the request is complete.
+   * @throws {unknown} The abort reason of `signal`, if it is aborted while the request is queued.
+   */
+  public async acquire(
+    command: string | undefined,
+    signal?: AbortSignal
+  ): Promise<() => void> {
+    await this.enqueue(command, false, signal);
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.active--;
+      this.drain();
+    };
+  }
+
+  /**
+   * @internal
+   * Waits until a request that already occupies a concurrency slot may be retried, taking a new token
+   * from the global and per-command buckets.
+   *
+   * @param {string | undefined} command - The command of the request, used for per-command limits.
+   * @param {AbortSignal} [signal] - Cancels the wait when aborted.
+   * @returns {Promise<void>} A Promise that resolves when the retry may be sent.
+   * @throws {unknown} The abort reason of `signal`, if it is aborted while the retry is queued.
+   */
+  public waitForRate(
+    command: string | undefined,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return this.enqueue(command, true, signal);
+  }
+
+  /**
+   * Queues a request until it may start, and removes it from the queue when `signal` is aborted.
+   */
+  private enqueue(
+    command: string | undefined,
+    holdsSlot: boolean,
+    signal?: AbortSignal
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index !== -1) this.waiters.splice(index, 1);
+        reject(signal!.reason);
+        // Reschedule, so that no timer is left running for a request that is gone.
+        this.drain();
+      };
+      const waiter: Waiter = {
+        command,
+        holdsSlot,
+        enqueuedAt: Date.now(),
+        start: () => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve();
+        },
+      };
+
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Starts as many queued requests as the limits allow, and schedules the next attempt
+   * for when a token becomes available.
+   */
+  private drain(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+
+    let nextDelay = Infinity;
+    for (let i = 0; i < this.waiters.length; ) {
+      const waiter = this.waiters[i];
+      // Retries keep the slot of their request, so only new requests wait for a free slot.
+      if (!waiter.holdsSlot && this.active >= this.maxConcurrent) {
+        i++;
+        continue;
+      }
+
+      const commandBucket =
+        waiter.command === undefined
+          ? undefined
+          : this.commandBuckets.get(waiter.command);
+      const delay = Math.max(
+        this.bucket?.delay() ?? 0,
+        commandBucket?.delay() ?? 0
+      );
+      if (delay > 0) {
+        // Requests of other commands may still start while this one waits for its bucket.
+        nextDelay = Math.min(nextDelay, delay);
+        i++;
+        continue;
+      }
+
+      this.bucket?.take();
+      commandBucket?.take();
+      this.waiters.splice(i, 1);
+      if (!waiter.holdsSlot) {
+        this.active++;
+        this.started++;
+        this.lastWaitMs = Date.now() - waiter.enqueuedAt;
+        this.maxWaitMs = Math.max(this.maxWaitMs, this.lastWaitMs);
+        this.totalWaitMs += this.lastWaitMs;
+      }
+      waiter.start();
+    }
+
+    if (nextDelay !== Infinity) {
+      this.timer = setTimeout(() => this.drain(), Math.ceil(nextDelay));
+    }
+  }
+}
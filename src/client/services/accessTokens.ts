@@ -0,0 +1,324 @@
+/**
+ * @file This module defines the `AccessTokensApi` class, which provides methods
+ * for managing the personal access tokens of the authenticated profile.
+ * Besides listing, creating and deleting tokens, it offers helpers to find tokens that
+ * are about to expire and to rotate a token without interrupting the clients that use it.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the access-token domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * The token value is only returned once, by `create-access-token`; `get-access-tokens`
+ * lists the metadata of existing tokens without their secret.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import { ApiAuthenticationError, ApiClientError } from "../errors.ts";
+import type { PenpotClient, PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type DeleteAccessTokenParams = CommandBody<"delete-access-token">;
+
+/** The number of milliseconds in a day, used to convert expiry windows. */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** The id of the anonymous profile, which `get-profile` returns for requests without valid credentials. */
+const ANONYMOUS_PROFILE_ID = "00000000-0000-0000-0000-000000000000";
+
+/**
+ * Represents a personal access token.
+ *
+ * @interface AccessToken
+ * @property {Uuid} id - The unique identifier of the token.
+ * @property {string} name - The human-readable name given to the token.
+ * @property {string} [token] - The secret token value. Only present in the response of `create-access-token`.
+ * @property {string | null} [expiresAt] - When the token stops being accepted, or `null` if it never expires.
+ * @property {string} [createdAt] - The creation timestamp.
+ * @property {string} [updatedAt] - The last update timestamp.
+ */
+export interface AccessToken {
+  id: Uuid;
+  name: string;
+  token?: string;
+  expiresAt?: string | null;
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * The body of the `create-access-token` command.
+ * The OpenAPI specification types `expiration` as an opaque duration, so it is documented here explicitly.
+ *
+ * @interface CreateAccessTokenBody
+ * @property {string} name - The name of the token, between 1 and 250 characters.
+ * @property {string} [expiration] - How long the token stays valid, as a duration such as `"720h"` (30 days).
+ * The token never expires if omitted.
+ */
+interface CreateAccessTokenBody {
+  name: string;
+  expiration?: string;
+}
+
+/**
+ * The parameters of {@link AccessTokensApi.rotateAccessToken}.
+ *
+ * @interface RotateAccessTokenParams
+ * @property {string} name - The name of the new token.
+ * @property {number} [expiresInDays] - How many days the new token stays valid. It never expires if omitted.
+ * @property {Uuid} [previousTokenId] - The token to revoke once the new one is verified. If omitted, every
+ * other token with the same `name` is revoked, which suits tokens that are rotated under a stable name.
+ */
+export interface RotateAccessTokenParams {
+  name: string;
+  expiresInDays?: number;
+  previousTokenId?: Uuid;
+}
+
+/**
+ * The result of {@link AccessTokensApi.rotateAccessToken}.
+ *
+ * @interface RotatedAccessToken
+ * @property {AccessToken} token - The newly created token, including its secret `token` value.
+ * @property {PenpotClient} client - A new client with the same configuration, authenticated with the new token.
+ * @property {Uuid[]} revoked - The ids of the tokens that were deleted.
+ * @property {Uuid[]} notRevoked - The ids of the tokens that could not be deleted and are still valid.
+ */
+export interface RotatedAccessToken {
+  token: AccessToken;
+  client: PenpotClient;
+  revoked: Uuid[];
+  notRevoked: Uuid[];
+}
+
+/**
+ * Converts a number of days into the duration format accepted by `create-access-token`.
+ */
+function toExpiration(days: number): string {
+  return `${Math.round(days * 24)}h`;
+}
+
+/**
+ * Provides access to the Access Tokens API endpoints.
+ * This class is responsible for the personal access tokens used to authenticate API clients,
+ * such as the one passed in {@link PenpotClientConfig.accessToken}.
+ *
+ * @class AccessTokensApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: Deno.env.get("PENPOT_TOKEN")! });
+ *
+ * // Monthly CI job: replace the "ci" token and continue with the new one.
+ * const { data: rotated, error } = await client.accessTokens.rotateAccessToken({
+ * name: "ci",
+ * expiresInDays: 35,
+ * });
+ * if (error) throw error;
+ * await saveSecret("PENPOT_TOKEN", rotated.token.token!);
+ * const { data: teams } = await rotated.client.teams.getTeams().exec();
+ * ```
+ */
+export class AccessTokensApi {
+  private config: PenpotClientConfig;
+  private createClient: (config: PenpotClientConfig) => PenpotClient;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `AccessTokensApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.accessTokens` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   * @param {function(PenpotClientConfig): PenpotClient} createClient - Creates the client bound to a rotated token.
+   * It is injected by {@link PenpotClient}, so that this module does not import it at runtime.
+   */
+  constructor(
+    config: PenpotClientConfig,
+    createClient: (config: PenpotClientConfig) => PenpotClient
+  ) {
+    this.config = config;
+    this.createClient = createClient;
+  }
+
+  /**
+   * Lists the access tokens of the authenticated profile. The secret token values are not included.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-access-tokens` endpoint.
+   *
+   * @returns {RequestBuilder<AccessToken[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/get-access-tokens
+   */
+  public getAccessTokens(): RequestBuilder<AccessToken[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-access-tokens"
+    );
+  }
+
+  /**
+   * Creates a new access token. The response is the only place where the secret `token` value is returned.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-access-token` endpoint.
+   *
+   * @param {CreateAccessTokenBody} params - The `name` of the token and an optional `expiration` duration.
+   * @returns {RequestBuilder<AccessToken>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/create-access-token
+   */
+  public createAccessToken(
+    params: CreateAccessTokenBody
+  ): RequestBuilder<AccessToken> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-access-token",
+      params
+    );
+  }
+
+  /**
+   * Revokes an access token. Requests authenticated with it are rejected afterwards.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-access-token` endpoint.
+   *
+   * @param {DeleteAccessTokenParams} params - An object containing the token `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/AccessTokens/delete-access-token
+   */
+  public deleteAccessToken(
+    params: DeleteAccessTokenParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-access-token",
+      params
+    );
+  }
+
+  /**
+   * Lists the access tokens that expire within the given number of days, including already expired ones.
+   * Tokens without an expiry date are never included.
+   *
+   * @param {object} params - The expiry window.
+   * @param {number} params.withinDays - How many days ahead to look.
+   * @returns {Promise<ApiResponse<AccessToken[]>>} A Promise resolving to an {@link ApiResponse} with the
+   * matching tokens, soonest expiry first.
+   *
+   * @example
+   * ```typescript
+   * const { data: expiring } = await client.accessTokens.getExpiringAccessTokens({ withinDays: 7 });
+   * for (const token of expiring ?? []) {
+   * console.warn(`Token "${token.name}" expires at ${token.expiresAt}`);
+   * }
+   * ```
+   */
+  public async getExpiringAccessTokens(params: {
+    withinDays: number;
+  }): Promise<ApiResponse<AccessToken[]>> {
+    const { data: tokens, error } = await this.getAccessTokens().exec();
+    if (error) return { data: null, error };
+
+    const deadline = Date.now() + params.withinDays * DAY_MS;
+    const expiring = tokens
+      .filter(
+        (token) =>
+          token.expiresAt && new Date(token.expiresAt).getTime() <= deadline
+      )
+      .sort(
+        (a, b) =>
+          new Date(a.expiresAt!).getTime() - new Date(b.expiresAt!).getTime()
+      );
+    return { data: expiring, error: null };
+  }
+
+  /**
+   * Replaces an access token with a new one and returns a client bound to the new token.
+   *
+   * The rotation runs in three steps, so that a failure never leaves the caller without a working token:
+   * 1. A new token is created with the current credentials.
+   * 2. The new token is verified by fetching the profile with it. If this fails, or returns the anonymous
+   *    profile, the new token is deleted again and the error is returned.
+   * 3. The previous token (or every other token with the same name) is revoked using the new token.
+   *    Tokens that cannot be revoked are listed in `notRevoked` instead of failing the rotation.
+   *
+   * @param {RotateAccessTokenParams} params - The `name` and optional `expiresInDays` of the new token, and
+   * the optional `previousTokenId` to revoke.
+   * @returns {Promise<ApiResponse<RotatedAccessToken>>} A Promise resolving to an {@link ApiResponse} with the
+   * new token, a {@link PenpotClient} authenticated with it, and the ids of the revoked tokens.
+   */
+  public async rotateAccessToken(
+    params: RotateAccessTokenParams
+  ): Promise<ApiResponse<RotatedAccessToken>> {
+    const existing = await this.getAccessTokens().exec();
+    if (existing.error) return { data: null, error: existing.error };
+
+    const created = await this.createAccessToken({
+      name: params.name,
+      expiration:
+        params.expiresInDays === undefined
+          ? undefined
+          : toExpiration(params.expiresInDays),
+    }).exec();
+    if (created.error) return { data: null, error: created.error };
+    const token = created.data;
+    if (!token.token) {
+      return {
+        data: null,
+        error: new ApiClientError(
+          "The created access token was returned without its token value",
+          { cause: token }
+        ),
+      };
+    }
+
+    const client = this.createClient({
+      ...this.config,
+      accessToken: token.token,
+    });
+    const verified = await client.auth.getProfile().exec();
+    // Rejected credentials do not fail `get-profile`: it returns the anonymous profile instead.
+    const error =
+      verified.error ??
+      (verified.data.id === ANONYMOUS_PROFILE_ID
+        ? new ApiAuthenticationError(
+            new Response(null, { status: 401, statusText: "Unauthorized" }),
+            {
+              type: "authentication",
+              hint: "The new access token was not accepted by the server",
+            }
+          )
+        : null);
+    if (error) {
+      await this.deleteAccessToken({ id: token.id }).exec();
+      return { data: null, error };
+    }
+
+    const stale = params.previousTokenId
+      ? [params.previousTokenId]
+      : existing.data
+          .filter((previous) => previous.name === params.name)
+          .map((previous) => previous.id);
+
+    // Revocation failures are reported rather than returned as an error, because the
+    // secret of the new token cannot be retrieved again once this method returns.
+    const revoked: Uuid[] = [];
+    const notRevoked: Uuid[] = [];
+    for (const id of stale) {
+      const { error } = await client.accessTokens
+        .deleteAccessToken({ id })
+        .exec();
+      (error ? notRevoked : revoked).push(id);
+    }
+
+    return { data: { token, client, revoked, notRevoked }, error: null };
+  }
+}
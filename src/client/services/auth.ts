@@ -1,7 +1,7 @@
 /**
  * @file This module defines the `AuthApi` class, which provides methods
  * for interacting with the authentication and user-related endpoints of the Penpot API.
- * It encapsulates common authentication operations such as user login, logout, and
+ * It encapsulates common authentication operations such as password and LDAP login, logout, and
  * retrieval of the authenticated user's profile.
  *
  * @remarks
@@ -9,23 +9,91 @@
  * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
  * consistency in request handling, authentication headers, and structured error processing.
  * The methods within this class directly map to specific RPC commands on the Penpot backend,
- * such as `login`, `logout`, and `get-profile`.
+ * such as `login-with-password`, `login-with-ldap`, `logout`, and `get-profile`.
+ *
+ * A successful login does not return a token in its body: the server starts a session and
+ * sends it back as the `auth-token` cookie. {@link AuthApi.createSession} reads that cookie from
+ * the `Set-Cookie` response header, so it only works in runtimes that expose the header
+ * (Deno, Node.js, Bun); browsers hide `Set-Cookie` from scripts and manage the cookie themselves.
  *
  * @module
  * @packageDocumentation
  */
 
-import { RequestBuilder } from "../requestBuilder.ts";
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import { ApiClientError } from "../errors.ts";
 import type { PenpotClientConfig } from "../../index.ts";
-import type { operations, paths } from "../generated/types.ts";
+import type { paths } from "../generated/types.ts";
+import type { FetchMiddleware } from "../_internals/middleware.ts";
 
 // Type aliases for better readability, sourced from generated types.
 // FIX: Pointed to the correct, deeply nested type definitions within the `paths`
 // object, as the generator did not create simple aliases in `components.schemas`.
-type LoginParams = operations["login"]["parameters"]["body"]["body"];
 type UserProfile =
   paths["/command/get-profile"]["post"]["responses"]["default"]["content"]["application/json"];
 type LoginResponse = UserProfile; // The login response is the same as the user profile.
+type LogoutParams =
+  paths["/command/logout"]["post"]["requestBody"]["content"]["application/json"];
+
+/**
+ * The body of the `login-with-password` and `login-with-ldap` commands.
+ * The OpenAPI specification types `password` and `invitationToken` as `unknown`, so they are narrowed here.
+ *
+ * @interface LoginParams
+ * @property {string} email - The email of the profile (for LDAP, the address or user name the directory accepts).
+ * @property {string} password - The password of the profile.
+ * @property {string} [invitationToken] - Optional. A team invitation token to accept as part of the login.
+ */
+export interface LoginParams {
+  email: string;
+  password: string;
+  invitationToken?: string;
+}
+
+/**
+ * The credentials accepted by {@link AuthApi.createSession} and {@link PenpotClient.fromCredentials}.
+ *
+ * @interface LoginCredentials
+ * @extends LoginParams
+ * @property {"password" | "ldap"} [method="password"] - The authentication backend to log in against.
+ */
+export interface LoginCredentials extends LoginParams {
+  method?: "password" | "ldap";
+}
+
+/**
+ * An authenticated session created by {@link AuthApi.createSession}.
+ *
+ * @interface AuthSession
+ * @property {string} token - The value of the `auth-token` session cookie. It can be used as
+ * {@link PenpotClientConfig.accessToken}, because the client sends the access token in that same cookie.
+ * @property {UserProfile} profile - The profile that logged in.
+ */
+export interface AuthSession {
+  token: string;
+  profile: UserProfile;
+}
+
+/** The name of the cookie that carries the Penpot session. */
+const SESSION_COOKIE = "auth-token";
+
+/**
+ * Reads the session token from the `Set-Cookie` headers of a login response.
+ */
+function readSessionCookie(headers: Headers): string | undefined {
+  // `getSetCookie` keeps multiple cookies apart; older runtimes only offer the joined header.
+  const cookies =
+    typeof headers.getSetCookie === "function"
+      ? headers.getSetCookie()
+      : [headers.get("set-cookie") ?? ""];
+  for (const cookie of cookies) {
+    const match = cookie.match(
+      new RegExp(`(?:^|[,;]\\s*)${SESSION_COOKIE}=([^;]*)`)
+    );
+    if (match?.[1]) return decodeURIComponent(match[1]);
+  }
+  return undefined;
+}
 
 /**
  * Provides access to the Authentication API endpoints.
@@ -39,7 +107,6 @@ type LoginResponse = UserProfile; // The login response is the same as the user
  * ```typescript
  * import { PenpotClient } from "@ajsb85/penpot-api-client";
  * import { ApiHttpError } from "@ajsb85/penpot-api-client/client/errors";
- * import type { UserProfile, LoginResponseData } from "@ajsb85/penpot-api-client/client/generated/types";
  *
  * async function authenticateAndFetchUser() {
  * const client = new PenpotClient({
@@ -57,21 +124,18 @@ type LoginResponse = UserProfile; // The login response is the same as the user
  * console.error("Error fetching user profile:", profileError.message);
  * }
  *
- * // Example 2: Authenticate a user with email and password
- * // Note: Direct login with credentials might not be exposed or preferred in all Penpot setups.
- * // The 'login' RPC command typically expects 'email' and 'password' in its body.
- * const { data: loginResponse, error: loginError } = await client.auth.login({
+ * // Example 2: Log in with email and password (or `method: "ldap"`) and capture the session
+ * const { data: session, error: loginError } = await client.auth.createSession({
  * email: "testuser@example.com",
  * password: "securepassword123",
- * }).exec();
+ * });
  *
- * if (loginResponse) {
- * console.log("Login successful! User ID:", loginResponse.userId);
- * console.log("New Access Token:", loginResponse.accessToken);
- * // After successful login, you might want to update the client's accessToken
- * // client.config.accessToken = loginResponse.accessToken;
+ * if (session) {
+ * console.log("Login successful! User ID:", session.profile.id);
+ * // The session token authenticates requests like an access token:
+ * // const sessionClient = new PenpotClient({ baseUrl: "...", accessToken: session.token });
  * } else if (loginError) {
- * if (loginError instanceof ApiHttpError && loginError.details && (loginError.details as any).code === "WRONG_CREDENTIALS") {
+ * if (loginError instanceof ApiHttpError && loginError.code === "wrong-credentials") {
  * console.error("Login failed: Invalid email or password.");
  * } else {
  * console.error("Login failed with unexpected error:", loginError.message);
@@ -79,13 +143,10 @@ type LoginResponse = UserProfile; // The login response is the same as the user
  * }
  *
  * // Example 3: Log out the current user
- * // The 'logout' RPC command typically expects no body, or a profileId if specific session logout is needed.
- * // Based on openapi.json, it accepts `profileId` as optional parameter.
+ * // The 'logout' RPC command accepts an optional `profileId` and invalidates the session of the request.
  * // const { error: logoutError } = await client.auth.logout({ profileId: userProfile?.id }).exec();
  * // if (!logoutError) {
  * //   console.log("Successfully logged out.");
- * //   // Clear the access token from your client and storage after logout
- * //   // client.config.accessToken = "";
  * // } else {
  * //   console.error("Logout failed:", logoutError.message);
  * // }
@@ -113,56 +174,140 @@ export class AuthApi {
   }
 
   /**
-   * Authenticate a user with an email and password.
+   * Authenticates a user with an email and a Penpot password.
    *
-   * This method sends a `POST` request to the `/api/rpc/command/login` endpoint.
-   * Upon successful authentication, the response body typically contains an access token
-   * and basic user profile information.
+   * This method sends a `POST` request to the `/api/rpc/command/login-with-password` endpoint.
+   * On success the response body is the profile of the user, and the session is returned in the
+   * `auth-token` cookie. Use {@link AuthApi.createSession} or {@link PenpotClient.fromCredentials}
+   * to capture that cookie.
    *
-   * @param {LoginParams} params - An object containing the user's `email` and `password`.
-   * This corresponds to the request body schema for the `login` operation in the OpenAPI spec.
+   * @param {LoginParams} params - An object containing the user's `email` and `password`,
+   * and optionally an `invitationToken` to accept.
    * @returns {RequestBuilder<LoginResponse>} A {@link RequestBuilder} instance for this API call.
-   * The `LoginResponse` type represents the successful response data, which is typically
-   * the user profile associated with the new session.
-   * @see https://design.penpot.app/api-docs/index.html#/Auth/login
+   * The `LoginResponse` type represents the profile of the user that logged in.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/login-with-password
    *
    * @example
    * ```typescript
-   * // Assuming `client` is an initialized PenpotClient instance
-   * async function performLogin(email: string, password: string) {
-   * const { data: loginResult, error: loginError } = await client.auth.login({ email, password }).exec();
-   *
-   * if (loginResult) {
-   * console.log("Login successful! User ID:", loginResult.id);
-   * // loginResult also contains other user profile data like fullname, email etc.
-   * // You might want to store the new access token if it's part of the response:
-   * // client.config.accessToken = loginResult.accessToken; // (If LoginResponse included accessToken directly)
-   * } else {
-   * console.error("Login failed:", loginError?.message);
-   * // Handle specific error codes, e.g., for invalid credentials
-   * // if (loginError instanceof ApiHttpError && (loginError.details as any)?.code === "WRONG_CREDENTIALS") {
-   * //   console.error("Please check your email and password.");
-   * // }
-   * }
+   * const { data: profile, error } = await client.auth
+   * .loginWithPassword({ email: "ada@example.com", password: "secret" })
+   * .exec();
+   * if (error instanceof ApiHttpError && error.code === "wrong-credentials") {
+   * console.error("Please check your email and password.");
    * }
-   * // performLogin("your_email@example.com", "your_password");
    * ```
    */
-  public login(params: LoginParams): RequestBuilder<LoginResponse> {
+  public loginWithPassword(params: LoginParams): RequestBuilder<LoginResponse> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/login-with-password",
+      params
+    );
+  }
+
+  /**
+   * Authenticates a user against the LDAP directory configured on the Penpot instance.
+   * This only works if LDAP is configured on the server and the `login-with-ldap` flag is enabled.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/login-with-ldap` endpoint.
+   * On success the response body is the profile of the user (created on first login), and the
+   * session is returned in the `auth-token` cookie.
+   *
+   * @param {LoginParams} params - An object containing the LDAP `email` and `password`,
+   * and optionally an `invitationToken` to accept.
+   * @returns {RequestBuilder<LoginResponse>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Auth/login-with-ldap
+   */
+  public loginWithLdap(params: LoginParams): RequestBuilder<LoginResponse> {
     return new RequestBuilder(
       this.config,
       "POST",
-      "/api/rpc/command/login",
+      "/api/rpc/command/login-with-ldap",
       params
     );
   }
 
+  /**
+   * Authenticates a user with an email and a Penpot password.
+   *
+   * @deprecated The `login` command does not exist on the Penpot backend. This method is kept as an
+   * alias of {@link AuthApi.loginWithPassword} and will be removed in a future major version.
+   *
+   * @param {LoginParams} params - An object containing the user's `email` and `password`.
+   * @returns {RequestBuilder<LoginResponse>} A {@link RequestBuilder} instance for this API call.
+   */
+  public login(params: LoginParams): RequestBuilder<LoginResponse> {
+    return this.loginWithPassword(params);
+  }
+
+  /**
+   * Logs in with a password or LDAP and captures the resulting session.
+   *
+   * The login command is sent with an additional response middleware that reads the `auth-token`
+   * cookie from the `Set-Cookie` header. The returned token authenticates further requests
+   * in the same way as a personal access token, until it expires or {@link AuthApi.logout} is called with it.
+   *
+   * @param {LoginCredentials} credentials - The `email` and `password`, and the authentication `method`
+   * (`"password"` by default, or `"ldap"`).
+   * @returns {Promise<ApiResponse<AuthSession>>} A Promise resolving to an {@link ApiResponse} with the session
+   * token and the profile. If the server accepted the credentials but no session cookie could be read
+   * (e.g. in a browser), `error` is an {@link ApiClientError}.
+   *
+   * @example
+   * ```typescript
+   * const { data: session, error } = await client.auth.createSession({
+   * email: "ada",
+   * password: Deno.env.get("LDAP_PASSWORD")!,
+   * method: "ldap",
+   * });
+   * if (session) console.log(`Logged in as ${session.profile.fullname}`);
+   * ```
+   */
+  public async createSession(
+    credentials: LoginCredentials
+  ): Promise<ApiResponse<AuthSession>> {
+    const { method = "password", ...params } = credentials;
+
+    let token: string | undefined;
+    const captureSession: FetchMiddleware = {
+      onResponse: (response) => {
+        token = readSessionCookie(response.headers);
+        return response;
+      },
+    };
+    const auth = new AuthApi({
+      ...this.config,
+      middleware: [captureSession, ...(this.config.middleware ?? [])],
+    });
+
+    const login =
+      method === "ldap"
+        ? auth.loginWithLdap(params)
+        : auth.loginWithPassword(params);
+    const { data: profile, error } = await login.exec();
+    if (error) return { data: null, error };
+
+    if (!token) {
+      return {
+        data: null,
+        error: new ApiClientError(
+          `The login response did not set the "${SESSION_COOKIE}" cookie`
+        ),
+      };
+    }
+    return { data: { token, profile }, error: null };
+  }
+
   /**
    * Logs out the current user by invalidating the access token used for the request.
    *
    * This method sends a `POST` request to the `/api/rpc/command/logout` endpoint.
    * A successful logout typically results in an empty response body.
    *
+   * To also stop a {@link PenpotClient} from sending the invalidated token, use {@link PenpotClient.logout}.
+   *
+   * @param {LogoutParams} [params] - Optional. An object containing the `profileId` of the session owner.
    * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
    * The `void` type parameter indicates that no specific data payload is expected on success.
    * @see https://design.penpot.app/api-docs/index.html#/Auth/logout
@@ -189,8 +334,13 @@ export class AuthApi {
    * performLogout();
    * ```
    */
-  public logout(): RequestBuilder<void> {
-    return new RequestBuilder(this.config, "POST", "/api/rpc/command/logout");
+  public logout(params?: LogoutParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/logout",
+      params
+    );
   }
 
   /**
@@ -0,0 +1,516 @@
+/**
+ * @file This module defines the `CommentsApi` class, which provides methods
+ * for interacting with the design-review endpoints of the Penpot API.
+ * It covers comment threads pinned to a position on a page, the comments posted
+ * in those threads, and the per-user read state of threads.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the comments domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * Besides the one-to-one command wrappers it offers {@link CommentsApi.getThreadWithComments},
+ * which combines three commands into a single, fully resolved view of a thread.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type Point = components["schemas"]["appCommonGeomPoint$point"];
+type CreateCommentThreadParams = CommandBody<"create-comment-thread">;
+type GetCommentThreadsParams = CommandBody<"get-comment-threads">;
+type GetCommentThreadParams = CommandBody<"get-comment-thread">;
+type UpdateCommentThreadParams = CommandBody<"update-comment-thread">;
+type UpdateCommentThreadStatusParams =
+  CommandBody<"update-comment-thread-status">;
+type UpdateCommentThreadPositionParams =
+  CommandBody<"update-comment-thread-position">;
+type UpdateCommentThreadFrameParams =
+  CommandBody<"update-comment-thread-frame">;
+type DeleteCommentThreadParams = CommandBody<"delete-comment-thread">;
+type CreateCommentParams = CommandBody<"create-comment">;
+type GetCommentsParams = CommandBody<"get-comments">;
+type UpdateCommentParams = CommandBody<"update-comment">;
+type DeleteCommentParams = CommandBody<"delete-comment">;
+type GetUnreadCommentThreadsParams = CommandBody<"get-unread-comment-threads">;
+type MarkAllThreadsAsReadParams = CommandBody<"mark-all-threads-as-read">;
+type GetProfilesForFileCommentsParams =
+  CommandBody<"get-profiles-for-file-comments">;
+
+/**
+ * Represents a comment thread anchored to a position on a page of a file.
+ *
+ * @interface CommentThread
+ * @property {Uuid} id - The unique identifier of the thread.
+ * @property {Uuid} fileId - The file the thread belongs to.
+ * @property {Uuid} pageId - The page the thread is placed on.
+ * @property {Uuid} [frameId] - The board the thread is attached to, if any.
+ * @property {Uuid} ownerId - The profile that opened the thread.
+ * @property {Point} position - The canvas position of the thread marker.
+ * @property {number} seqn - The per-file sequence number shown on the marker.
+ * @property {boolean} isResolved - `true` once the thread has been resolved.
+ * @property {string} [content] - The content of the first comment (included in listings).
+ * @property {number} [countComments] - The total number of comments in the thread.
+ * @property {number} [countUnreadComments] - The number of comments the current user has not seen yet.
+ * @property {Uuid[]} [participants] - The profiles that have commented in the thread.
+ * @property {string} [createdAt] - The creation timestamp.
+ * @property {string} [modifiedAt] - The last modification timestamp.
+ */
+export interface CommentThread {
+  id: Uuid;
+  fileId: Uuid;
+  pageId: Uuid;
+  frameId?: Uuid;
+  ownerId: Uuid;
+  position: Point;
+  seqn: number;
+  isResolved: boolean;
+  content?: string;
+  countComments?: number;
+  countUnreadComments?: number;
+  participants?: Uuid[];
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+/**
+ * Represents a single comment posted in a thread.
+ *
+ * @interface Comment
+ * @property {Uuid} id - The unique identifier of the comment.
+ * @property {Uuid} threadId - The thread the comment belongs to.
+ * @property {Uuid} ownerId - The profile that wrote the comment.
+ * @property {string} content - The comment text.
+ * @property {string} [createdAt] - The creation timestamp.
+ * @property {string} [modifiedAt] - The last modification timestamp.
+ */
+export interface Comment {
+  id: Uuid;
+  threadId: Uuid;
+  ownerId: Uuid;
+  content: string;
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+/**
+ * The public profile of a comment author, as returned by `get-profiles-for-file-comments`.
+ *
+ * @interface CommentAuthor
+ * @property {Uuid} id - The profile identifier.
+ * @property {string} fullname - The author's full name.
+ * @property {string} [email] - The author's email address.
+ * @property {Uuid} [photoId] - The media identifier of the author's photo.
+ */
+export interface CommentAuthor {
+  id: Uuid;
+  fullname: string;
+  email?: string;
+  photoId?: Uuid;
+}
+
+/**
+ * A comment thread together with all of its comments, each resolved to its author profile.
+ * This is the result of {@link CommentsApi.getThreadWithComments}.
+ *
+ * @interface CommentThreadDetails
+ * @property {CommentThread} thread - The thread itself.
+ * @property {Array<Comment & { author?: CommentAuthor }>} comments - The comments of the thread in server order.
+ * `author` is absent if the author's profile is no longer visible (e.g. the profile was deleted).
+ * @property {CommentAuthor} [owner] - The profile that opened the thread.
+ */
+export interface CommentThreadDetails {
+  thread: CommentThread;
+  comments: Array<Comment & { author?: CommentAuthor }>;
+  owner?: CommentAuthor;
+}
+
+/**
+ * Provides access to the Comments API endpoints.
+ * This class is responsible for reading and writing design feedback:
+ * comment threads, their comments and the user's read state.
+ *
+ * @class CommentsApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * const { data: thread } = await client.comments.createCommentThread({
+ * fileId, pageId, frameId,
+ * position: { x: 120, y: 80 },
+ * content: "Contrast on this button is too low.",
+ * }).exec();
+ *
+ * if (thread) {
+ * await client.comments.createComment({ threadId: thread.id, content: "Fixed in v2." }).exec();
+ * await client.comments.updateCommentThread({ id: thread.id, isResolved: true }).exec();
+ * }
+ * ```
+ */
+export class CommentsApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `CommentsApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.comments` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Opens a new comment thread on a page, with its first comment.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-comment-thread` endpoint.
+   *
+   * @param {CreateCommentThreadParams} params - The `fileId`, `pageId`, `frameId`, the marker `position`
+   * and the `content` of the first comment.
+   * @returns {RequestBuilder<CommentThread>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/create-comment-thread
+   */
+  public createCommentThread(
+    params: CreateCommentThreadParams
+  ): RequestBuilder<CommentThread> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Lists the comment threads of a file, or of every file in a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comment-threads` endpoint.
+   *
+   * @param {GetCommentThreadsParams} params - Either a `fileId` or a `teamId` (and an optional `shareId`).
+   * @returns {RequestBuilder<CommentThread[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comment-threads
+   */
+  public getCommentThreads(
+    params: GetCommentThreadsParams
+  ): RequestBuilder<CommentThread[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comment-threads",
+      params
+    );
+  }
+
+  /**
+   * Retrieves a single comment thread.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comment-thread` endpoint.
+   *
+   * @param {GetCommentThreadParams} params - The `fileId` and the thread `id`.
+   * @returns {RequestBuilder<CommentThread>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comment-thread
+   */
+  public getCommentThread(
+    params: GetCommentThreadParams
+  ): RequestBuilder<CommentThread> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Resolves or re-opens a comment thread.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread` endpoint.
+   *
+   * @param {UpdateCommentThreadParams} params - The thread `id` and the desired `isResolved` state.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread
+   */
+  public updateCommentThread(
+    params: UpdateCommentThreadParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Marks a comment thread as read by the authenticated user.
+   * Penpot stores the read state per user and thread; this clears the thread's unread counter.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-status` endpoint.
+   *
+   * @param {UpdateCommentThreadStatusParams} params - An object containing the thread `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-status
+   */
+  public updateCommentThreadStatus(
+    params: UpdateCommentThreadStatusParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-status",
+      params
+    );
+  }
+
+  /**
+   * Moves a comment thread marker to a new position, optionally on another board.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-position` endpoint.
+   *
+   * @param {UpdateCommentThreadPositionParams} params - The thread `id`, its new `position` and `frameId`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-position
+   */
+  public updateCommentThreadPosition(
+    params: UpdateCommentThreadPositionParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-position",
+      params
+    );
+  }
+
+  /**
+   * Attaches a comment thread to another board without moving its marker.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment-thread-frame` endpoint.
+   *
+   * @param {UpdateCommentThreadFrameParams} params - The thread `id` and the new `frameId`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment-thread-frame
+   */
+  public updateCommentThreadFrame(
+    params: UpdateCommentThreadFrameParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment-thread-frame",
+      params
+    );
+  }
+
+  /**
+   * Deletes a comment thread together with all of its comments.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-comment-thread` endpoint.
+   *
+   * @param {DeleteCommentThreadParams} params - An object containing the thread `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/delete-comment-thread
+   */
+  public deleteCommentThread(
+    params: DeleteCommentThreadParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-comment-thread",
+      params
+    );
+  }
+
+  /**
+   * Posts a reply to an existing comment thread.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-comment` endpoint.
+   *
+   * @param {CreateCommentParams} params - The `threadId` and the comment `content`.
+   * @returns {RequestBuilder<Comment>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/create-comment
+   */
+  public createComment(params: CreateCommentParams): RequestBuilder<Comment> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-comment",
+      params
+    );
+  }
+
+  /**
+   * Lists the comments of a thread, oldest first.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-comments` endpoint.
+   *
+   * @param {GetCommentsParams} params - An object containing the `threadId`.
+   * @returns {RequestBuilder<Comment[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-comments
+   */
+  public getComments(params: GetCommentsParams): RequestBuilder<Comment[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-comments",
+      params
+    );
+  }
+
+  /**
+   * Edits the content of a comment. Only the author of the comment may do this.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-comment` endpoint.
+   *
+   * @param {UpdateCommentParams} params - The comment `id` and its new `content`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/update-comment
+   */
+  public updateComment(params: UpdateCommentParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-comment",
+      params
+    );
+  }
+
+  /**
+   * Deletes a single comment.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-comment` endpoint.
+   *
+   * @param {DeleteCommentParams} params - An object containing the comment `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/delete-comment
+   */
+  public deleteComment(params: DeleteCommentParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-comment",
+      params
+    );
+  }
+
+  /**
+   * Lists the comment threads of a team that contain comments the authenticated user has not read yet.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-unread-comment-threads` endpoint.
+   *
+   * @param {GetUnreadCommentThreadsParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<CommentThread[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-unread-comment-threads
+   */
+  public getUnreadCommentThreads(
+    params: GetUnreadCommentThreadsParams
+  ): RequestBuilder<CommentThread[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-unread-comment-threads",
+      params
+    );
+  }
+
+  /**
+   * Marks a batch of comment threads as read by the authenticated user.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/mark-all-threads-as-read` endpoint.
+   *
+   * @param {MarkAllThreadsAsReadParams} params - An object containing the `threads` ids to mark as read.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/mark-all-threads-as-read
+   */
+  public markAllThreadsAsRead(
+    params: MarkAllThreadsAsReadParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/mark-all-threads-as-read",
+      params
+    );
+  }
+
+  /**
+   * Lists the public profiles of everyone who can take part in the comments of a file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-profiles-for-file-comments` endpoint.
+   *
+   * @param {GetProfilesForFileCommentsParams} params - An object containing the `fileId`.
+   * @returns {RequestBuilder<CommentAuthor[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Comments/get-profiles-for-file-comments
+   */
+  public getProfilesForFileComments(
+    params: GetProfilesForFileCommentsParams
+  ): RequestBuilder<CommentAuthor[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-profiles-for-file-comments",
+      params
+    );
+  }
+
+  /**
+   * Retrieves a comment thread together with all of its comments, with every comment
+   * resolved to its author's profile.
+   *
+   * This helper issues `get-comment-thread`, `get-comments` and `get-profiles-for-file-comments`
+   * concurrently and joins the results by profile id. If any of the three requests fails,
+   * the first error encountered is returned and `data` is `null`.
+   *
+   * @param {GetCommentThreadParams} params - The `fileId` and the thread `id`.
+   * @returns {Promise<ApiResponse<CommentThreadDetails>>} A Promise resolving to an {@link ApiResponse}
+   * containing the resolved thread.
+   *
+   * @example
+   * ```typescript
+   * const { data, error } = await client.comments.getThreadWithComments({ fileId, id: threadId });
+   * data?.comments.forEach((c) => console.log(`${c.author?.fullname ?? "unknown"}: ${c.content}`));
+   * ```
+   */
+  public async getThreadWithComments(
+    params: GetCommentThreadParams
+  ): Promise<ApiResponse<CommentThreadDetails>> {
+    const [thread, comments, profiles] = await Promise.all([
+      this.getCommentThread(params).exec(),
+      this.getComments({ threadId: params.id }).exec(),
+      this.getProfilesForFileComments({ fileId: params.fileId }).exec(),
+    ]);
+
+    if (thread.error) return { data: null, error: thread.error };
+    if (comments.error) return { data: null, error: comments.error };
+    if (profiles.error) return { data: null, error: profiles.error };
+
+    // Index the profiles by id so each comment can be joined with its author.
+    const authors = new Map(
+      profiles.data.map((profile) => [profile.id, profile])
+    );
+
+    return {
+      data: {
+        thread: thread.data,
+        comments: comments.data.map((comment) => ({
+          ...comment,
+          author: authors.get(comment.ownerId),
+        })),
+        owner: authors.get(thread.data.ownerId),
+      },
+      error: null,
+    };
+  }
+}
@@ -1,23 +1,33 @@
 /**
  * @file This module defines the `FilesApi` class, which provides methods
  * for interacting with the file and project management endpoints of the Penpot API.
- * It covers essential operations such as retrieving file details, exporting files
- * in various formats, and importing binary Penpot files.
+ * It covers the whole file lifecycle: creating, renaming, duplicating, moving, deleting and
+ * searching files, retrieving file details, exporting files in various formats, and importing
+ * binary Penpot files.
  *
  * @remarks
  * This class serves as a dedicated client for the file management domain of the Penpot API.
  * It utilizes the {@link RequestBuilder} to construct and send HTTP requests, ensuring
  * consistency in request handling, authentication headers, and structured error processing.
  * The methods within this class directly map to specific RPC commands on the Penpot backend,
- * such as `get-file`, `export-binfile`, and `import-binfile`.
+ * such as `get-file`, `export-binfile`, and `import-binfile`, and to the snapshot commands
+ * that manage the version history of a file.
  *
  * @module
  * @packageDocumentation
  */
 
-import { RequestBuilder } from "../requestBuilder.ts";
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import { ApiClientError } from "../errors.ts";
 import type { PenpotClientConfig } from "../../index.ts";
 import type { components, paths } from "../generated/types.ts";
+import type { CommandBody, CommandResult } from "../_internals/commands.ts";
+import { decodeTransit, UUID_PATTERN } from "../_internals/transit.ts";
+import {
+  diffFileStates,
+  type FileState,
+  type FileStateDiff,
+} from "../fileDiff.ts";
 
 // Type aliases for better readability, sourced from generated types.
 // FIX: Pointed to the correct, namespaced type definitions from the generated types.ts file.
@@ -26,15 +36,170 @@ type PenpotFile =
   paths["/command/get-file"]["post"]["responses"]["default"]["content"]["application/json"];
 type GetFileParams =
   paths["/command/get-file"]["post"]["requestBody"]["content"]["application/json"];
+type CreateFileParams = CommandBody<"create-file">;
+type RenameFileParams = CommandBody<"rename-file">;
+type RenamedFile = CommandResult<"rename-file">;
+type DuplicateFileParams = CommandBody<"duplicate-file">;
+type DeleteFileParams = CommandBody<"delete-file">;
+type GetFileInfoParams = CommandBody<"get-file-info">;
+type GetFileSummaryParams = CommandBody<"get-file-summary">;
+type SearchFilesParams = CommandBody<"search-files">;
+type GetTeamRecentFilesParams = CommandBody<"get-team-recent-files">;
+type CloneTemplateParams = CommandBody<"clone-template">;
+type GetProjectFilesParams = CommandBody<"get-project-files">;
+type ProjectFiles = CommandResult<"get-project-files">;
+type CreateFileSnapshotParams = CommandBody<"create-file-snapshot">;
+type GetFileSnapshotsParams = CommandBody<"get-file-snapshots">;
+type UpdateFileSnapshotParams = CommandBody<"update-file-snapshot">;
+type DeleteFileSnapshotParams = CommandBody<"delete-file-snapshot">;
+type RestoreFileSnapshotParams = CommandBody<"restore-file-snapshot">;
+
+/**
+ * The body of the `move-files` command.
+ * The OpenAPI specification types `ids` as `unknown`; it is the set of files to move.
+ */
+interface MoveFilesBody {
+  ids: Uuid[];
+  projectId: Uuid;
+}
+
+/**
+ * The basic information of a file, as returned by `get-file-info`.
+ *
+ * @interface FileInfo
+ * @property {Uuid} id - The unique identifier of the file.
+ * @property {string} [name] - The name of the file.
+ * @property {Uuid} [projectId] - The project that contains the file.
+ * @property {Uuid} [teamId] - The team that owns the file.
+ * @property {boolean} [isShared] - Whether the file is published as a shared library.
+ * @property {Set<string> | string[]} [features] - The file format features the file uses. A `Set` when the
+ * client uses the transit wire format.
+ */
+export interface FileInfo {
+  id: Uuid;
+  name?: string;
+  projectId?: Uuid;
+  teamId?: Uuid;
+  isShared?: boolean;
+  features?: Set<string> | string[];
+}
+
+/**
+ * One section of a {@link FileSummary}: how many assets of a kind a file defines, and a few of them.
+ */
+export interface FileSummarySection {
+  count: number;
+  sample: Array<Record<string, unknown>>;
+}
+
+/**
+ * The library contents of a file, as returned by `get-file-summary`.
+ *
+ * @interface FileSummary
+ * @property {FileSummarySection} components - The components defined in the file.
+ * @property {FileSummarySection} media - The images in the file library.
+ * @property {FileSummarySection} colors - The colors in the file library.
+ * @property {FileSummarySection} typographies - The typographies in the file library.
+ */
+export interface FileSummary {
+  components: FileSummarySection;
+  media: FileSummarySection;
+  colors: FileSummarySection;
+  typographies: FileSummarySection;
+}
+
+/**
+ * Represents a saved version of a file in its version history.
+ *
+ * @interface FileSnapshot
+ * @property {Uuid} id - The unique identifier of the snapshot.
+ * @property {Uuid} [fileId] - The file the snapshot belongs to.
+ * @property {string} label - The label shown in the version history.
+ * @property {number} [revn] - The revision of the file when the snapshot was taken.
+ * @property {"user" | "system"} [createdBy] - Whether the snapshot was created by a user or automatically by Penpot.
+ * @property {Uuid} [profileId] - The profile that created the snapshot, for user snapshots.
+ * @property {string} [createdAt] - The creation timestamp.
+ */
+export interface FileSnapshot {
+  id: Uuid;
+  fileId?: Uuid;
+  label: string;
+  revn?: number;
+  createdBy?: "user" | "system";
+  profileId?: Uuid;
+  createdAt?: string;
+}
+
+/**
+ * Options of `FilesApi.exportFile`, i.e. how the libraries a file uses end up in the `.penpot` archive.
+ * Penpot either includes the libraries as files of their own, or embeds the assets used from them
+ * into the exported file, but never both; the type enforces this.
+ *
+ * @typedef {object} ExportFileOptions
+ * @property {boolean} [includeLibraries] - If `true`, the shared libraries the file uses are exported as
+ * additional files of the archive. Defaults to `true`, unless `embedAssets` is set.
+ * @property {boolean} [embedAssets=false] - If `true`, the components, colors and typographies used from
+ * libraries are copied into the exported file, so that the archive is self-contained without the libraries.
+ * @property {1 | 3} [version=3] - The binfile format version. Version `3`, a ZIP archive, is the format
+ * of current Penpot versions; version `1` is the legacy binary format.
+ *
+ * @example
+ * ```typescript
+ * const selfContained: ExportFileOptions = { embedAssets: true };
+ * const lean: ExportFileOptions = { includeLibraries: false };
+ * ```
+ */
+export type ExportFileOptions = { version?: 1 | 3 } & (
+  | { includeLibraries?: boolean; embedAssets?: false }
+  | { includeLibraries?: false; embedAssets: true }
+);
+
+/**
+ * The parameters of `FilesApi.exportFile`: the file to export and the {@link ExportFileOptions}.
+ */
+export type ExportFileParams = { id: Uuid } & ExportFileOptions;
+
+/**
+ * The result of importing a `.penpot` file.
+ *
+ * @interface ImportFileResult
+ * @property {Uuid} fileId - The id of the first imported file; for a file holding a single design, the only one.
+ * @property {Uuid[]} fileIds - The ids of every imported file, e.g. of all the files of a `.penpot` bundle.
+ */
+export interface ImportFileResult {
+  fileId: Uuid;
+  fileIds: Uuid[];
+}
+
+/**
+ * Decodes the 'end' payload of the SSE stream of `import-binfile` and `clone-template`:
+ * the list of created file ids, or a single id.
+ */
+function decodeFileIds(data: string): Uuid[] {
+  const decoded = decodeTransit(data);
+  const ids =
+    decoded instanceof Set
+      ? [...decoded]
+      : Array.isArray(decoded)
+      ? decoded
+      : [decoded];
+  if (
+    ids.length === 0 ||
+    !ids.every((id) => typeof id === "string" && UUID_PATTERN.test(id))
+  ) {
+    throw new TypeError(`Expected the ids of the created files: ${data}`);
+  }
+  return ids;
+}
 
 /**
  * The expected body for the import-binfile command.
- * The `file` property should be the raw binary content.
+ * The `file` property should be the raw binary content, or a stream of it for large files.
  */
 interface ImportBinfileBody {
   projectId: Uuid;
   name: string;
-  file: Uint8Array | Blob; // The raw file content
+  file: Uint8Array | Blob | ReadableStream<Uint8Array>; // The raw file content
   version?: number;
 }
 
@@ -83,7 +248,7 @@ interface ImportBinfileBody {
  * console.log(`Successfully imported file! New File ID: ${importResult.fileId}`);
  * } else if (importError) {
  * console.error("Error importing file:", importError.message);
- * if (importError instanceof ApiHttpError && (importError.details as any)?.code === "MAX_FILE_SIZE_REACHED") {
+ * if (importError instanceof ApiHttpError && importError.code === "MAX_FILE_SIZE_REACHED") {
  * console.error("File import failed: The file size exceeds the allowed limit.");
  * }
  * }
@@ -167,6 +332,220 @@ export class FilesApi {
     );
   }
 
+  /**
+   * Creates an empty file in a project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file` endpoint.
+   *
+   * @param {CreateFileParams} params - The `projectId` and `name` of the file, and optionally its `id`,
+   * whether it `isShared` as a library, and the format `features` to enable.
+   * @returns {RequestBuilder<PenpotFile>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file
+   */
+  public createFile(params: CreateFileParams): RequestBuilder<PenpotFile> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file",
+      params
+    );
+  }
+
+  /**
+   * Renames a file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/rename-file` endpoint.
+   *
+   * @param {RenameFileParams} params - The file `id` and its new `name`.
+   * @returns {RequestBuilder<RenamedFile>} A {@link RequestBuilder} instance for this API call.
+   * The response type is taken directly from the `rename-file` schema in the OpenAPI spec.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/rename-file
+   */
+  public renameFile(params: RenameFileParams): RequestBuilder<RenamedFile> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/rename-file",
+      params
+    );
+  }
+
+  /**
+   * Duplicates a file, together with its media, into the same project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/duplicate-file` endpoint.
+   *
+   * @param {DuplicateFileParams} params - The `fileId` to duplicate and an optional `name` for the copy.
+   * @returns {RequestBuilder<PenpotFile>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/duplicate-file
+   */
+  public duplicateFile(
+    params: DuplicateFileParams
+  ): RequestBuilder<PenpotFile> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/duplicate-file",
+      params
+    );
+  }
+
+  /**
+   * Moves a set of files to another project of the same team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/move-files` endpoint.
+   *
+   * @param {MoveFilesBody} params - The `ids` of the files to move and the target `projectId`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/move-files
+   */
+  public moveFiles(params: MoveFilesBody): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/move-files",
+      params
+    );
+  }
+
+  /**
+   * Deletes a file. The file is kept in the trash for the retention period configured on the server.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-file` endpoint.
+   *
+   * @param {DeleteFileParams} params - An object containing the file `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-file
+   */
+  public deleteFile(params: DeleteFileParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-file",
+      params
+    );
+  }
+
+  /**
+   * Retrieves the basic information of a file without loading its data.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-info` endpoint.
+   *
+   * @param {GetFileInfoParams} params - An object containing the file `id`.
+   * @returns {RequestBuilder<FileInfo>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-info
+   */
+  public getFileInfo(params: GetFileInfoParams): RequestBuilder<FileInfo> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-info",
+      params
+    );
+  }
+
+  /**
+   * Summarizes the library contents of a file: its components, media, colors and typographies.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-summary` endpoint.
+   *
+   * @param {GetFileSummaryParams} params - An object containing the file `id`.
+   * @returns {RequestBuilder<FileSummary>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-summary
+   */
+  public getFileSummary(
+    params: GetFileSummaryParams
+  ): RequestBuilder<FileSummary> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-summary",
+      params
+    );
+  }
+
+  /**
+   * Searches the files of a team by name.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/search-files` endpoint.
+   *
+   * @param {SearchFilesParams} params - The `teamId` and an optional `searchTerm`.
+   * @returns {RequestBuilder<ProjectFiles>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/search-files
+   */
+  public searchFiles(params: SearchFilesParams): RequestBuilder<ProjectFiles> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/search-files",
+      params
+    );
+  }
+
+  /**
+   * Lists the most recently modified files of a team, across all of its projects.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-recent-files` endpoint.
+   *
+   * @param {GetTeamRecentFilesParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<ProjectFiles>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-team-recent-files
+   */
+  public getTeamRecentFiles(
+    params: GetTeamRecentFilesParams
+  ): RequestBuilder<ProjectFiles> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-recent-files",
+      params
+    );
+  }
+
+  /**
+   * Lists the files contained in a project. This is the same command as {@link ProjectsApi.getProjectFiles},
+   * offered here so that the whole file lifecycle is available from `client.files`.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-project-files` endpoint.
+   *
+   * @param {GetProjectFilesParams} params - An object containing the `projectId`.
+   * @returns {RequestBuilder<ProjectFiles>} A {@link RequestBuilder} instance for this API call.
+   * The response type is taken directly from the `get-project-files` schema in the OpenAPI spec.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-project-files
+   */
+  public getProjectFiles(
+    params: GetProjectFilesParams
+  ): RequestBuilder<ProjectFiles> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-project-files",
+      params
+    );
+  }
+
+  /**
+   * Creates a file in a project from one of the built-in templates of the Penpot instance.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/clone-template` endpoint.
+   * Like `import-binfile`, the server streams its progress as Server-Sent Events, which
+   * `sendRequest` resolves to the final result.
+   *
+   * @param {CloneTemplateParams} params - The target `projectId` and the `templateId`, e.g. `"wireframing-kit"`.
+   * @returns {RequestBuilder<Uuid[]>} A {@link RequestBuilder} instance for this API call.
+   * The result holds the ids of the files created from the template.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/clone-template
+   */
+  public cloneTemplate(params: CloneTemplateParams): RequestBuilder<Uuid[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/clone-template",
+      params,
+      decodeFileIds
+    );
+  }
+
   /**
    * Export a file in a specified binary format (e.g., `.penpot`, SVG, PDF, PNG).
    *
@@ -174,26 +553,36 @@ export class FilesApi {
    * It initiates an export process on the server, and the response typically contains
    * the raw binary data of the exported file as an `ArrayBuffer`.
    *
-   * @param {object} params - The parameters for the export request.
+   * @param {ExportFileParams} params - The parameters for the export request.
    * @param {Uuid} params.id - The unique identifier of the file to export.
-   * @param {boolean} [params.includeLibraries=true] - Optional. For `.penpot` exports,
-   * specifies whether to include linked shared libraries in the exported file. Defaults to `true`.
+   * @param {boolean} [params.includeLibraries] - Optional. For `.penpot` exports,
+   * specifies whether to include linked shared libraries in the exported file. Defaults to `true`,
+   * unless `embedAssets` is set.
    * @param {boolean} [params.embedAssets=false] - Optional. For `.penpot` exports,
    * specifies whether to embed external library assets directly into the file's local library. Defaults to `false`.
-   * @param {number} [params.version=3] - Optional. For `.penpot` exports, specifies the binary file format version.
+   * Cannot be combined with `includeLibraries`.
+   * @param {1 | 3} [params.version=3] - Optional. For `.penpot` exports, specifies the binary file format version.
    * Currently, version `3` is recommended for modern Penpot files. Defaults to `3`.
    * @returns {RequestBuilder<ArrayBuffer>} A {@link RequestBuilder} instance for this API call.
    * The `ArrayBuffer` type indicates that the successful response will be the raw binary content of the exported file.
+   * For large files, call {@link RequestBuilder.asStream} to receive a `ReadableStream` instead,
+   * and write it to disk with {@link writeStreamToFile}.
    * @see https://design.penpot.app/api-docs/index.html#/Files/export
    *
+   * @remarks
+   * The `export-binfile` command exports one file per request. An archive holds several files when
+   * `includeLibraries` is set: the exported file and every shared library it uses, which Penpot
+   * imports together. Unrelated files cannot be combined into one archive by the server, so export
+   * them one by one.
+   *
    * @example
    * ```typescript
    * // Assuming `client` is an initialized PenpotClient instance
    * async function exportFileAsPenpot(fileId: Uuid) {
+   * // A self-contained backup: the assets used from libraries are embedded into the file
    * const { data: exportedFileBuffer, error: exportError } = await client.files.exportFile({
    * id: fileId,
-   * includeLibraries: true,
-   * embedAssets: false,
+   * embedAssets: true,
    * version: 3, // Export as Penpot binary format v3
    * }).exec();
    *
@@ -212,14 +601,14 @@ export class FilesApi {
    * // exportFileAsPenpot("your-file-uuid" as Uuid);
    * ```
    */
-  public exportFile(params: { id: Uuid }): RequestBuilder<ArrayBuffer> {
-    // Manually construct the body with the correct `file-id` key, as the
-    // generated type uses `id` which is incorrect for this endpoint.
+  public exportFile(params: ExportFileParams): RequestBuilder<ArrayBuffer> {
+    const embedAssets = params.embedAssets ?? false;
+    // The generated type uses `id`, but this endpoint reads the file from `fileId`.
     const body = {
-      "file-id": params.id,
-      "include-libraries": true,
-      "embed-assets": false,
-      version: 3,
+      fileId: params.id,
+      includeLibraries: params.includeLibraries ?? !embedAssets,
+      embedAssets,
+      version: params.version ?? 3,
     };
 
     return new RequestBuilder(
@@ -243,17 +632,20 @@ export class FilesApi {
    * `projectId`, `name`, `file` (the raw binary content as `Uint8Array` or `Blob`),
    * and `mimeType`. An optional `version` can be specified for `.penpot` files.
    * This corresponds to the request body schema for the `import-binfile` operation.
-   * @returns {RequestBuilder<{ fileId: Uuid }>} A {@link RequestBuilder} instance for this API call.
-   * The successful response will contain an object with the `fileId` of the newly imported file.
+   * @returns {RequestBuilder<ImportFileResult>} A {@link RequestBuilder} instance for this API call.
+   * The successful response will contain the `fileIds` of all imported files, and the first of them as `fileId`.
+   * A `.penpot` bundle exported with several files imports all of them.
    * @see https://design.penpot.app/api-docs/index.html#/Files/import-binfile
    *
    * @remarks
    * This endpoint internally uses Server-Sent Events (SSE) for progress updates and to
-   * deliver the final result (the `fileId`). The `sendRequest` utility automatically
+   * deliver the final result (the ids of the imported files). The `sendRequest` utility automatically
    * handles the SSE stream parsing via `handleSseResponse`.
    *
    * When providing `file` content, ensure it's a `Blob` in browser environments
-   * or a `Uint8Array` (or Node.js `Buffer`) in server-side runtimes.
+   * or a `Uint8Array` (or Node.js `Buffer`) in server-side runtimes. Large files can be passed as a
+   * `ReadableStream<Uint8Array>` (e.g. from {@link openFileStream}), which is uploaded without being
+   * buffered in memory; streamed uploads are never retried.
    * For `.penpot` files, the `mimeType` should typically be `"application/octet-stream"`.
    *
    * @example
@@ -276,7 +668,7 @@ export class FilesApi {
    * } else {
    * console.error(`Failed to import "${fileName}":`, importError?.message);
    * // Handle specific errors, e.g., file size limits, invalid file format
-   * // if (importError instanceof ApiHttpError && (importError.details as any)?.code === "INVALID_BINFILE_V3") {
+   * // if (importError instanceof ApiHttpError && importError.code === "INVALID_BINFILE_V3") {
    * //   console.error("The provided .penpot file is corrupted or invalid.");
    * // }
    * }
@@ -302,12 +694,200 @@ export class FilesApi {
    */
   public importFile(
     params: ImportBinfileBody
-  ): RequestBuilder<{ fileId: Uuid }> {
+  ): RequestBuilder<ImportFileResult> {
     return new RequestBuilder(
       this.config,
       "POST",
       "/api/rpc/command/import-binfile",
+      params,
+      (data) => {
+        const fileIds = decodeFileIds(data);
+        return { fileId: fileIds[0], fileIds };
+      }
+    );
+  }
+
+  /**
+   * Saves the current state of a file as a named version in its version history.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-file-snapshot` endpoint.
+   *
+   * @param {CreateFileSnapshotParams} params - The `fileId` and an optional `label` for the snapshot.
+   * @returns {RequestBuilder<FileSnapshot>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/create-file-snapshot
+   */
+  public createFileSnapshot(
+    params: CreateFileSnapshotParams
+  ): RequestBuilder<FileSnapshot> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Lists the version history of a file, including the snapshots Penpot takes automatically.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-snapshots` endpoint.
+   *
+   * @param {GetFileSnapshotsParams} params - An object containing the `fileId`.
+   * @returns {RequestBuilder<FileSnapshot[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/get-file-snapshots
+   */
+  public getFileSnapshots(
+    params: GetFileSnapshotsParams
+  ): RequestBuilder<FileSnapshot[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-snapshots",
       params
     );
   }
+
+  /**
+   * Renames a snapshot.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-file-snapshot` endpoint.
+   *
+   * @param {UpdateFileSnapshotParams} params - The snapshot `id` and its new `label`.
+   * @returns {RequestBuilder<FileSnapshot>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/update-file-snapshot
+   */
+  public updateFileSnapshot(
+    params: UpdateFileSnapshotParams
+  ): RequestBuilder<FileSnapshot> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Removes a snapshot from the version history of its file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-file-snapshot` endpoint.
+   *
+   * @param {DeleteFileSnapshotParams} params - An object containing the snapshot `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/delete-file-snapshot
+   */
+  public deleteFileSnapshot(
+    params: DeleteFileSnapshotParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Restores a file to the state saved in a snapshot. Connected editors are reloaded by the server.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/restore-file-snapshot` endpoint.
+   *
+   * @param {RestoreFileSnapshotParams} params - The `fileId` and the snapshot `id` to restore.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Files/restore-file-snapshot
+   */
+  public restoreFileSnapshot(
+    params: RestoreFileSnapshotParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/restore-file-snapshot",
+      params
+    );
+  }
+
+  /**
+   * Runs a mutation with a safety net: the file is snapshotted first and restored if the mutation throws.
+   *
+   * The snapshot is kept in the version history in both cases, so a successful run can still be
+   * reverted manually from the Penpot UI or with {@link FilesApi.restoreFileSnapshot}.
+   * To see what a run or a restore changed, read the file before and compare it with {@link FilesApi.diffFileState}.
+   *
+   * @template T - The value returned by `fn`.
+   * @param {Uuid} fileId - The file that `fn` modifies.
+   * @param {string} label - The label of the snapshot, e.g. `"Before bulk rename"`.
+   * @param {function(FileSnapshot): T | Promise<T>} fn - The mutation to run. It receives the snapshot that was taken.
+   * @returns {Promise<ApiResponse<T>>} A Promise resolving to an {@link ApiResponse} with the value returned
+   * by `fn`, or the error of the `create-file-snapshot` command, in which case `fn` is not run.
+   * @throws {unknown} The error thrown by `fn`, after the file has been restored. If the restore fails as well,
+   * an {@link ApiClientError} is thrown instead, with the error of `fn` as its `cause`.
+   *
+   * @example
+   * ```typescript
+   * const { error } = await client.files.withSnapshot(fileId, "Before token migration", async () => {
+   * for (const change of changes) {
+   * const { error } = await applyChange(client, fileId, change);
+   * if (error) throw error; // rolls the file back to the snapshot
+   * }
+   * });
+   * ```
+   */
+  public async withSnapshot<T>(
+    fileId: Uuid,
+    label: string,
+    fn: (snapshot: FileSnapshot) => T | Promise<T>
+  ): Promise<ApiResponse<T>> {
+    const { data: snapshot, error } = await this.createFileSnapshot({
+      fileId,
+      label,
+    }).exec();
+    if (error) return { data: null, error };
+
+    try {
+      return { data: await fn(snapshot), error: null };
+    } catch (fnError) {
+      const restored = await this.restoreFileSnapshot({
+        fileId,
+        id: snapshot.id,
+      }).exec();
+      if (restored.error) {
+        throw new ApiClientError(
+          `The mutation failed and snapshot "${label}" could not be restored: ${restored.error.message}`,
+          { cause: fnError }
+        );
+      }
+      throw fnError;
+    }
+  }
+
+  /**
+   * Compares a saved state of a file, such as the file read when a snapshot was taken, with its current state.
+   *
+   * Penpot does not return the content of snapshots, so the saved state must be read with {@link FilesApi.getFile}
+   * when the snapshot is taken. The current state is read with `get-file`, and both are compared with
+   * {@link diffFileStates}.
+   *
+   * @param {Uuid} fileId - The file to compare.
+   * @param {FileState} state - The saved state of the file, as returned by {@link FilesApi.getFile}.
+   * @returns {Promise<ApiResponse<FileStateDiff>>} A Promise resolving to an {@link ApiResponse} with the pages
+   * and objects added, removed or changed since the saved state, or the error of the `get-file` command.
+   *
+   * @example
+   * ```typescript
+   * const { data: before } = await client.files.getFile({ id: fileId }).exec();
+   * const { data: snapshot } = await client.files.createFileSnapshot({ fileId, label: "Before import" }).exec();
+   * // ... later, after restoring the snapshot
+   * const { data: diff } = await client.files.diffFileState(fileId, before!);
+   * // diff.objects.changed is empty if the restore brought every object back
+   * ```
+   */
+  public async diffFileState(
+    fileId: Uuid,
+    state: FileState
+  ): Promise<ApiResponse<FileStateDiff>> {
+    const { data: current, error } = await this.getFile({ id: fileId }).exec();
+    if (error) return { data: null, error };
+    return { data: diffFileStates(state, current), error: null };
+  }
 }
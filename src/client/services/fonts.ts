@@ -0,0 +1,307 @@
+/**
+ * @file This module defines the `FontsApi` class, which provides methods
+ * for managing the custom fonts of a Penpot team.
+ * It covers listing, uploading, renaming and deleting font variants, and offers
+ * a helper that uploads a local font file using the metadata stored inside it.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the font domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * In Penpot a *font* is a family identified by `fontId`, and each uploaded file is a
+ * *variant* of that family with its own weight and style.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import { ApiClientError } from "../errors.ts";
+import {
+  readFontMetadata,
+  type FontMimeType,
+} from "../_internals/fontMetadata.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type GetFontVariantsParams = CommandBody<"get-font-variants">;
+type UpdateFontParams = CommandBody<"update-font">;
+type DeleteFontParams = CommandBody<"delete-font">;
+type DeleteFontVariantParams = CommandBody<"delete-font-variant">;
+
+/**
+ * Represents one uploaded variant (weight and style) of a custom font family.
+ *
+ * @interface FontVariant
+ * @property {Uuid} id - The unique identifier of the variant.
+ * @property {Uuid} teamId - The team that owns the font.
+ * @property {Uuid} fontId - The identifier of the font family the variant belongs to.
+ * @property {string} fontFamily - The family name shown in the font picker.
+ * @property {number | string} fontWeight - The weight of the variant, e.g. `400`.
+ * @property {"normal" | "italic"} fontStyle - The style of the variant.
+ * @property {Uuid} [ttfFileId] - The storage id of the TrueType file, if one was generated or uploaded.
+ * @property {Uuid} [otfFileId] - The storage id of the OpenType file, if any.
+ * @property {Uuid} [woff1FileId] - The storage id of the WOFF file, if any.
+ * @property {Uuid} [woff2FileId] - The storage id of the WOFF2 file, if any.
+ * @property {string} [createdAt] - The creation timestamp.
+ */
+export interface FontVariant {
+  id: Uuid;
+  teamId: Uuid;
+  fontId: Uuid;
+  fontFamily: string;
+  fontWeight: number | string;
+  fontStyle: "normal" | "italic";
+  ttfFileId?: Uuid;
+  otfFileId?: Uuid;
+  woff1FileId?: Uuid;
+  woff2FileId?: Uuid;
+  createdAt?: string;
+}
+
+/**
+ * The expected body for the create-font-variant command.
+ * `data` maps the MIME type of each uploaded format to the raw font content, e.g.
+ * `{ "font/ttf": bytes }`; usually a variant is uploaded in a single format.
+ */
+interface CreateFontVariantBody {
+  teamId: Uuid;
+  fontId: Uuid;
+  fontFamily: string;
+  fontWeight: number | string;
+  fontStyle: "normal" | "italic";
+  data: Partial<Record<FontMimeType, Uint8Array>>;
+}
+
+/**
+ * The parameters of {@link FontsApi.uploadFontVariant}.
+ * Any metadata field given here overrides the value read from the font tables.
+ *
+ * @interface UploadFontVariantParams
+ * @property {Uuid} teamId - The team that will own the font.
+ * @property {Uint8Array} file - The raw TTF, OTF, WOFF or WOFF2 file.
+ * @property {Uuid} [fontId] - The family to add the variant to. A new family is created if omitted.
+ * @property {string} [fontFamily] - Overrides the family name read from the `name` table.
+ * @property {number} [fontWeight] - Overrides the weight read from the `OS/2` table.
+ * @property {"normal" | "italic"} [fontStyle] - Overrides the style read from the `OS/2` table.
+ */
+export interface UploadFontVariantParams {
+  teamId: Uuid;
+  file: Uint8Array;
+  fontId?: Uuid;
+  fontFamily?: string;
+  fontWeight?: number;
+  fontStyle?: "normal" | "italic";
+}
+
+/**
+ * Provides access to the Fonts API endpoints.
+ * This class is responsible for the custom fonts a team uploads for use in its files.
+ *
+ * @class FontsApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * // Upload every weight of a family into the same font.
+ * let fontId: string | undefined;
+ * for (const path of ["./Brand-Regular.ttf", "./Brand-Bold.ttf"]) {
+ * const { data: variant, error } = await client.fonts.uploadFontVariant({
+ * teamId,
+ * fontId,
+ * file: await Deno.readFile(path),
+ * });
+ * if (error) throw error;
+ * fontId = variant.fontId;
+ * }
+ * ```
+ */
+export class FontsApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `FontsApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.fonts` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Lists the custom font variants available to a team, file or project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-font-variants` endpoint.
+   *
+   * @param {GetFontVariantsParams} params - One of `teamId`, `fileId` or `projectId` (plus `shareId` for shared links).
+   * @returns {RequestBuilder<FontVariant[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/get-font-variants
+   */
+  public getFontVariants(
+    params: GetFontVariantsParams
+  ): RequestBuilder<FontVariant[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-font-variants",
+      params
+    );
+  }
+
+  /**
+   * Uploads a single font variant with explicitly supplied metadata.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-font-variant` endpoint.
+   * JSON cannot carry the binary font content, so the body is always sent as transit, whatever the
+   * `wireFormat` of the client: the MIME types of `data` stay string keys and the fonts are sent as binary data.
+   * Prefer {@link FontsApi.uploadFontVariant}, which fills in the metadata from the font file.
+   *
+   * @param {CreateFontVariantBody} params - The `teamId`, `fontId`, `fontFamily`, `fontWeight`, `fontStyle`,
+   * and the font `data` keyed by MIME type.
+   * @returns {RequestBuilder<FontVariant>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/create-font-variant
+   */
+  public createFontVariant(
+    params: CreateFontVariantBody
+  ): RequestBuilder<FontVariant> {
+    return new RequestBuilder(
+      { ...this.config, wireFormat: "transit" },
+      "POST",
+      "/api/rpc/command/create-font-variant",
+      // A `Map` keeps the MIME types as string keys instead of keywords, and out of the key conversion.
+      { ...params, data: new Map(Object.entries(params.data)) }
+    );
+  }
+
+  /**
+   * Renames a font family. All of its variants are renamed together.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-font` endpoint.
+   *
+   * @param {UpdateFontParams} params - The `teamId`, the font family `id` and its new `name`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/update-font
+   */
+  public updateFont(params: UpdateFontParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-font",
+      params
+    );
+  }
+
+  /**
+   * Deletes a font family together with all of its variants.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-font` endpoint.
+   *
+   * @param {DeleteFontParams} params - The `teamId` and the font family `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/delete-font
+   */
+  public deleteFont(params: DeleteFontParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-font",
+      params
+    );
+  }
+
+  /**
+   * Deletes a single font variant.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-font-variant` endpoint.
+   *
+   * @param {DeleteFontVariantParams} params - The `teamId` and the variant `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Fonts/delete-font-variant
+   */
+  public deleteFontVariant(
+    params: DeleteFontVariantParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-font-variant",
+      params
+    );
+  }
+
+  /**
+   * Uploads a local font file as a variant, reading its family, weight and style from the font tables.
+   *
+   * The container format is detected from the file signature (TTF, OTF, WOFF or WOFF2). The tables of WOFF2
+   * files are Brotli-compressed, which browsers cannot decompress, so there `fontFamily`, `fontWeight` and
+   * `fontStyle` must be passed explicitly. If `fontId` is omitted, a new font family is created.
+   *
+   * @param {UploadFontVariantParams} params - The `teamId`, the raw `file` and optional metadata overrides.
+   * @returns {Promise<ApiResponse<FontVariant>>} A Promise resolving to an {@link ApiResponse} with the created
+   * variant. If the file is not a supported font or its metadata is incomplete, `error` is an {@link ApiClientError}
+   * and no request is sent.
+   *
+   * @example
+   * ```typescript
+   * const { data: variant, error } = await client.fonts.uploadFontVariant({
+   * teamId,
+   * file: await Deno.readFile("./Brand-SemiboldItalic.otf"),
+   * });
+   * // variant.fontFamily === "Brand", variant.fontWeight === 600, variant.fontStyle === "italic"
+   * ```
+   */
+  public async uploadFontVariant(
+    params: UploadFontVariantParams
+  ): Promise<ApiResponse<FontVariant>> {
+    let metadata;
+    try {
+      metadata = await readFontMetadata(params.file);
+    } catch (error) {
+      return {
+        data: null,
+        error: new ApiClientError("Failed to read font metadata", {
+          cause: error,
+        }),
+      };
+    }
+
+    if (!metadata) {
+      return {
+        data: null,
+        error: new ApiClientError(
+          "Unsupported font file: expected TTF, OTF, WOFF or WOFF2 data."
+        ),
+      };
+    }
+
+    const fontFamily = params.fontFamily ?? metadata.fontFamily;
+    const fontWeight = params.fontWeight ?? metadata.fontWeight;
+    const fontStyle = params.fontStyle ?? metadata.fontStyle;
+    if (!fontFamily || fontWeight === undefined || !fontStyle) {
+      return {
+        data: null,
+        error: new ApiClientError(
+          `Could not determine the family, weight and style of the ${metadata.mtype} font; pass them explicitly.`
+        ),
+      };
+    }
+
+    return this.createFontVariant({
+      teamId: params.teamId,
+      fontId: params.fontId ?? crypto.randomUUID(),
+      fontFamily,
+      fontWeight,
+      fontStyle,
+      data: { [metadata.mtype]: params.file },
+    }).exec();
+  }
+}
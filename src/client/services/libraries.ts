@@ -0,0 +1,371 @@
+/**
+ * @file This module defines the `LibrariesApi` class, which provides methods
+ * for managing shared libraries and the links between files and the libraries they consume.
+ * It covers publishing a file as a library, linking and unlinking libraries, the update
+ * notifications shown when a library changes, and a helper that maps every library
+ * dependency of a team.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the shared-library domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * In Penpot a *library* is an ordinary file with `isShared` set; any file of the team can link it
+ * to use its components, colors and typographies.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder, type ApiResponse } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody, CommandResult } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type SetFileSharedParams = CommandBody<"set-file-shared">;
+type GetTeamSharedFilesParams = CommandBody<"get-team-shared-files">;
+type GetFileLibrariesParams = CommandBody<"get-file-libraries">;
+type HasFileLibrariesParams = CommandBody<"has-file-libraries">;
+type LinkFileToLibraryParams = CommandBody<"link-file-to-library">;
+type UnlinkFileFromLibraryParams = CommandBody<"unlink-file-from-library">;
+type GetLibraryFileReferencesParams =
+  CommandBody<"get-library-file-references">;
+type UpdateFileLibrarySyncStatusParams =
+  CommandBody<"update-file-library-sync-status">;
+
+/**
+ * Represents a file published as a shared library.
+ *
+ * @interface SharedLibrary
+ * @property {Uuid} id - The unique identifier of the library file.
+ * @property {string} name - The name of the library file.
+ * @property {Uuid} [projectId] - The project that contains the library.
+ * @property {boolean} [isShared] - Always `true` for a published library.
+ * @property {number} [revn] - The current revision of the library.
+ * @property {string} [modifiedAt] - The timestamp of the last change, used to detect pending updates.
+ * @property {Uuid | null} [thumbnailId] - The storage id of the library thumbnail, if any.
+ */
+export interface SharedLibrary {
+  id: Uuid;
+  name: string;
+  projectId?: Uuid;
+  isShared?: boolean;
+  revn?: number;
+  modifiedAt?: string;
+  thumbnailId?: Uuid | null;
+}
+
+/**
+ * Represents a file that references a library.
+ *
+ * @interface LibraryFileReference
+ * @property {Uuid} id - The unique identifier of the consuming file.
+ * @property {string} name - The name of the consuming file.
+ * @property {Uuid} [projectId] - The project that contains the consuming file.
+ */
+export interface LibraryFileReference {
+  id: Uuid;
+  name: string;
+  projectId?: Uuid;
+}
+
+/**
+ * The body of the `ignore-file-library-sync-status` command.
+ * The OpenAPI specification types `date` as `unknown`; it is the instant up to which updates are dismissed.
+ */
+interface IgnoreFileLibrarySyncStatusBody {
+  fileId: Uuid;
+  date: Date | string;
+}
+
+/**
+ * The library dependencies of a team, as built by {@link LibrariesApi.getLibraryDependencyGraph}.
+ * All identifiers are file ids; libraries appear as consumers too when they link other libraries.
+ *
+ * @interface LibraryDependencyGraph
+ * @property {SharedLibrary[]} libraries - The shared libraries of the team.
+ * @property {Record<string, LibraryFileReference>} files - Every file that consumes at least one library, by id.
+ * @property {Record<string, Uuid[]>} dependencies - For each consuming file, the ids of the libraries it links.
+ * @property {Record<string, Uuid[]>} dependents - For each library, the ids of the files that link it.
+ * Libraries that no file links map to an empty array.
+ */
+export interface LibraryDependencyGraph {
+  libraries: SharedLibrary[];
+  files: Record<string, LibraryFileReference>;
+  dependencies: Record<string, Uuid[]>;
+  dependents: Record<string, Uuid[]>;
+}
+
+/**
+ * Provides access to the shared library endpoints.
+ * This class is responsible for publishing libraries, linking them to files and keeping
+ * consuming files in sync with library changes.
+ *
+ * @class LibrariesApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * // Publish the design system and link it to a product file.
+ * await client.libraries.setFileShared({ id: designSystemId, isShared: true }).exec();
+ * await client.libraries.linkFileToLibrary({ fileId: productFileId, libraryId: designSystemId }).exec();
+ *
+ * // Which files would be affected by a breaking change in the design system?
+ * const { data: graph } = await client.libraries.getLibraryDependencyGraph({ teamId });
+ * const affected = graph!.dependents[designSystemId].map((id) => graph!.files[id].name);
+ * ```
+ */
+export class LibrariesApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `LibrariesApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.libraries` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Publishes a file as a shared library, or unpublishes it. Unpublishing unlinks the library from
+   * every file that consumes it.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/set-file-shared` endpoint.
+   *
+   * @param {SetFileSharedParams} params - The file `id` and the new `isShared` state.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/set-file-shared
+   */
+  public setFileShared(params: SetFileSharedParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/set-file-shared",
+      params
+    );
+  }
+
+  /**
+   * Lists the shared libraries of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-shared-files` endpoint.
+   *
+   * @param {GetTeamSharedFilesParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<SharedLibrary[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-team-shared-files
+   */
+  public getTeamSharedFiles(
+    params: GetTeamSharedFilesParams
+  ): RequestBuilder<SharedLibrary[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-shared-files",
+      params
+    );
+  }
+
+  /**
+   * Lists the libraries a file links, including libraries linked indirectly through other libraries.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-file-libraries` endpoint.
+   *
+   * @param {GetFileLibrariesParams} params - An object containing the `fileId`.
+   * @returns {RequestBuilder<SharedLibrary[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-file-libraries
+   */
+  public getFileLibraries(
+    params: GetFileLibrariesParams
+  ): RequestBuilder<SharedLibrary[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-file-libraries",
+      params
+    );
+  }
+
+  /**
+   * Checks whether a file links any library.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/has-file-libraries` endpoint.
+   *
+   * @param {HasFileLibrariesParams} params - An object containing the `fileId`.
+   * @returns {RequestBuilder<CommandResult<"has-file-libraries">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/has-file-libraries
+   */
+  public hasFileLibraries(
+    params: HasFileLibrariesParams
+  ): RequestBuilder<CommandResult<"has-file-libraries">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/has-file-libraries",
+      params
+    );
+  }
+
+  /**
+   * Links a shared library to a file, making its assets available in the file.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/link-file-to-library` endpoint.
+   *
+   * @param {LinkFileToLibraryParams} params - The consuming `fileId` and the `libraryId` to link.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/link-file-to-library
+   */
+  public linkFileToLibrary(
+    params: LinkFileToLibraryParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/link-file-to-library",
+      params
+    );
+  }
+
+  /**
+   * Unlinks a library from a file. Instances of its components in the file become local copies.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/unlink-file-from-library` endpoint.
+   *
+   * @param {UnlinkFileFromLibraryParams} params - The consuming `fileId` and the `libraryId` to unlink.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/unlink-file-from-library
+   */
+  public unlinkFileFromLibrary(
+    params: UnlinkFileFromLibraryParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/unlink-file-from-library",
+      params
+    );
+  }
+
+  /**
+   * Lists the files that link a library.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-library-file-references` endpoint.
+   *
+   * @param {GetLibraryFileReferencesParams} params - An object containing the `fileId` of the library.
+   * @returns {RequestBuilder<LibraryFileReference[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/get-library-file-references
+   */
+  public getLibraryFileReferences(
+    params: GetLibraryFileReferencesParams
+  ): RequestBuilder<LibraryFileReference[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-library-file-references",
+      params
+    );
+  }
+
+  /**
+   * Marks a file as synchronized with the current version of a library, which dismisses the
+   * "library updated" notification for it.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-file-library-sync-status` endpoint.
+   *
+   * @param {UpdateFileLibrarySyncStatusParams} params - The consuming `fileId` and the `libraryId`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/update-file-library-sync-status
+   */
+  public updateFileLibrarySyncStatus(
+    params: UpdateFileLibrarySyncStatusParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-file-library-sync-status",
+      params
+    );
+  }
+
+  /**
+   * Dismisses the pending library updates of a file without applying them. Library changes made
+   * after `date` are notified again.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/ignore-file-library-sync-status` endpoint.
+   *
+   * @param {IgnoreFileLibrarySyncStatusBody} params - The consuming `fileId` and the `date` up to which
+   * updates are ignored.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Libraries/ignore-file-library-sync-status
+   */
+  public ignoreFileLibrarySyncStatus(
+    params: IgnoreFileLibrarySyncStatusBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/ignore-file-library-sync-status",
+      params
+    );
+  }
+
+  /**
+   * Builds the graph of which files consume which shared libraries across a team.
+   *
+   * The graph is assembled from the consumer side of each library: one `get-team-shared-files`
+   * request followed by one `get-library-file-references` request per library, sent concurrently.
+   * Its cost therefore grows with the number of libraries, not with the number of files.
+   *
+   * @param {GetTeamSharedFilesParams} params - An object containing the `teamId`.
+   * @returns {Promise<ApiResponse<LibraryDependencyGraph>>} A Promise resolving to an {@link ApiResponse} with the
+   * graph, or the first error returned by any of the requests.
+   *
+   * @example
+   * ```typescript
+   * const { data: graph } = await client.libraries.getLibraryDependencyGraph({ teamId });
+   * for (const library of graph!.libraries) {
+   * console.log(`${library.name}: used by ${graph!.dependents[library.id].length} files`);
+   * }
+   * ```
+   */
+  public async getLibraryDependencyGraph(
+    params: GetTeamSharedFilesParams
+  ): Promise<ApiResponse<LibraryDependencyGraph>> {
+    const { data: libraries, error } = await this.getTeamSharedFiles(
+      params
+    ).exec();
+    if (error) return { data: null, error };
+
+    const references = await Promise.all(
+      libraries.map((library) =>
+        this.getLibraryFileReferences({ fileId: library.id }).exec()
+      )
+    );
+
+    const graph: LibraryDependencyGraph = {
+      libraries,
+      files: {},
+      dependencies: {},
+      dependents: {},
+    };
+    for (const [index, library] of libraries.entries()) {
+      const result = references[index];
+      if (result.error) return { data: null, error: result.error };
+
+      // The generated `Uuid` type is opaque, so ids are stringified to serve as record keys.
+      graph.dependents[String(library.id)] = result.data.map((file) => file.id);
+      for (const file of result.data) {
+        graph.files[String(file.id)] ??= file;
+        (graph.dependencies[String(file.id)] ??= []).push(library.id);
+      }
+    }
+    return { data: graph, error: null };
+  }
+}
@@ -0,0 +1,380 @@
+/**
+ * @file This module defines the `ProfileApi` class, which provides methods
+ * for managing the profile of the current user and for the account lifecycle flows
+ * that happen before a user is authenticated (registration, recovery and token verification).
+ *
+ * @remarks
+ * This class serves as a dedicated client for the profile domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * Reading the current profile stays on {@link AuthApi.getProfile}; this class covers everything
+ * that changes it.
+ *
+ * Registration is a two-step flow: `prepare-register-profile` validates the data and returns a
+ * registration token, and `register-profile` exchanges that token for the new profile. Emails sent
+ * by Penpot (verification, email change, recovery) carry tokens that are consumed by `verify-token`
+ * or `recover-profile`.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { paths } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type UserProfile =
+  paths["/command/get-profile"]["post"]["responses"]["default"]["content"]["application/json"];
+type UpdateProfilePropsParams = CommandBody<"update-profile-props">;
+type RequestEmailChangeParams = CommandBody<"request-email-change">;
+type RequestProfileRecoveryParams = CommandBody<"request-profile-recovery">;
+type VerifyTokenParams = CommandBody<"verify-token">;
+
+/**
+ * The notification level of a channel.
+ * `"partial"` only notifies about threads the user takes part in or is mentioned in.
+ */
+export type NotificationLevel = "all" | "partial" | "none";
+
+/**
+ * The notification preferences of a profile.
+ * The OpenAPI specification types these fields as `unknown`, so the accepted values are listed here explicitly.
+ *
+ * @interface ProfileNotifications
+ * @property {NotificationLevel} dashboardComments - Which comments are shown in the dashboard notifications.
+ * @property {NotificationLevel} emailComments - Which comments trigger an email.
+ * @property {"all" | "none"} emailInvites - Whether team invitations trigger an email.
+ */
+export interface ProfileNotifications {
+  dashboardComments: NotificationLevel;
+  emailComments: NotificationLevel;
+  emailInvites: "all" | "none";
+}
+
+/**
+ * The body of the `update-profile` command.
+ */
+interface UpdateProfileBody {
+  fullname: string;
+  lang?: string;
+  theme?: string;
+}
+
+/**
+ * The body of the `update-profile-password` command.
+ */
+interface UpdateProfilePasswordBody {
+  password: string;
+  oldPassword?: string;
+}
+
+/**
+ * The expected body for the update-profile-photo command.
+ * The `file` property should be the raw image content; it is sent as multipart form data.
+ */
+interface UpdateProfilePhotoBody {
+  file: Uint8Array | Blob; // The raw image content
+}
+
+/**
+ * The body of the `recover-profile` command.
+ */
+interface RecoverProfileBody {
+  token: string;
+  password: string;
+}
+
+/**
+ * The body of the `prepare-register-profile` command.
+ *
+ * @interface PrepareRegisterProfileParams
+ * @property {string} fullname - The display name of the new profile.
+ * @property {string} email - The email of the new profile.
+ * @property {string} password - The password of the new profile.
+ * @property {boolean} [createWelcomeFile] - Optional. Whether to create the onboarding file in the default project.
+ * @property {string} [invitationToken] - Optional. A team invitation to accept on registration.
+ */
+export interface PrepareRegisterProfileParams {
+  fullname: string;
+  email: string;
+  password: string;
+  createWelcomeFile?: boolean;
+  invitationToken?: string;
+}
+
+/**
+ * The result of `prepare-register-profile`: a token to pass to `register-profile`.
+ */
+export interface RegistrationToken {
+  token: string;
+}
+
+/**
+ * Provides access to the Profile API endpoints.
+ * This class is responsible for updating the current profile (name, password, photo, props and
+ * notification preferences) and for the registration, email change and recovery flows.
+ *
+ * @class ProfileApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * // Register a service account and mute its email notifications.
+ * const { data: registration } = await client.profile.prepareRegisterProfile({
+ * fullname: "Design Bot",
+ * email: "design-bot@example.com",
+ * password: crypto.randomUUID(),
+ * }).exec();
+ * await client.profile.registerProfile({ token: registration!.token }).exec();
+ *
+ * await client.profile.updateProfileNotifications({
+ * dashboardComments: "partial",
+ * emailComments: "none",
+ * emailInvites: "none",
+ * }).withToken(botSessionToken).exec();
+ * ```
+ */
+export class ProfileApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `ProfileApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.profile` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Updates the display name, language and theme of the current profile.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile` endpoint.
+   *
+   * @param {UpdateProfileBody} params - The new `fullname`, and optionally the UI `lang` and `theme`.
+   * @returns {RequestBuilder<UserProfile>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile
+   */
+  public updateProfile(params: UpdateProfileBody): RequestBuilder<UserProfile> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile",
+      params
+    );
+  }
+
+  /**
+   * Changes the password of the current profile. All other sessions of the profile are closed.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-password` endpoint.
+   *
+   * @param {UpdateProfilePasswordBody} params - The new `password` and the current `oldPassword`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-password
+   */
+  public updateProfilePassword(
+    params: UpdateProfilePasswordBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-password",
+      params
+    );
+  }
+
+  /**
+   * Merges the given properties into the `props` of the current profile, such as newsletter
+   * subscriptions, onboarding state or installed plugins.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-props` endpoint.
+   *
+   * @param {UpdateProfilePropsParams} params - An object containing the `props` to set.
+   * @returns {RequestBuilder<UserProfile["props"]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-props
+   */
+  public updateProfileProps(
+    params: UpdateProfilePropsParams
+  ): RequestBuilder<UserProfile["props"]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-props",
+      params
+    );
+  }
+
+  /**
+   * Sets the notification preferences of the current profile.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-notifications` endpoint.
+   *
+   * @param {ProfileNotifications} params - The level of the `dashboardComments`, `emailComments` and
+   * `emailInvites` channels.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-notifications
+   */
+  public updateProfileNotifications(
+    params: ProfileNotifications
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-notifications",
+      params
+    );
+  }
+
+  /**
+   * Replaces the photo of the current profile.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-profile-photo` endpoint.
+   * Because the payload carries a binary `file`, `sendRequest` sends it as `multipart/form-data`.
+   *
+   * @param {UpdateProfilePhotoBody} params - An object containing the raw image `file` (PNG, JPEG or WebP).
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/update-profile-photo
+   */
+  public updateProfilePhoto(
+    params: UpdateProfilePhotoBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-profile-photo",
+      params
+    );
+  }
+
+  /**
+   * Starts changing the email of the current profile. Penpot sends a confirmation link to the new
+   * address; the change is applied when its token is passed to {@link ProfileApi.verifyToken}.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/request-email-change` endpoint.
+   *
+   * @param {RequestEmailChangeParams} params - An object containing the new `email`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/request-email-change
+   */
+  public requestEmailChange(
+    params: RequestEmailChangeParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/request-email-change",
+      params
+    );
+  }
+
+  /**
+   * Sends a password recovery email. The request succeeds even if no profile uses the email, so that
+   * registered addresses cannot be discovered through it.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/request-profile-recovery` endpoint.
+   *
+   * @param {RequestProfileRecoveryParams} params - An object containing the `email` of the profile.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/request-profile-recovery
+   */
+  public requestProfileRecovery(
+    params: RequestProfileRecoveryParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/request-profile-recovery",
+      params
+    );
+  }
+
+  /**
+   * Sets a new password using the token from a recovery email.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/recover-profile` endpoint.
+   *
+   * @param {RecoverProfileBody} params - The recovery `token` and the new `password`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/recover-profile
+   */
+  public recoverProfile(params: RecoverProfileBody): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/recover-profile",
+      params
+    );
+  }
+
+  /**
+   * Validates the data of a new profile and returns a registration token. No profile is created yet.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/prepare-register-profile` endpoint.
+   *
+   * @param {PrepareRegisterProfileParams} params - The `fullname`, `email` and `password` of the new profile.
+   * @returns {RequestBuilder<RegistrationToken>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/prepare-register-profile
+   */
+  public prepareRegisterProfile(
+    params: PrepareRegisterProfileParams
+  ): RequestBuilder<RegistrationToken> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/prepare-register-profile",
+      params
+    );
+  }
+
+  /**
+   * Creates the profile described by a registration token. Depending on the server configuration the
+   * profile is active immediately or after its email has been verified.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/register-profile` endpoint.
+   *
+   * @param {RegistrationToken} params - The `token` returned by {@link ProfileApi.prepareRegisterProfile}.
+   * @returns {RequestBuilder<UserProfile>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/register-profile
+   */
+  public registerProfile(
+    params: RegistrationToken
+  ): RequestBuilder<UserProfile> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/register-profile",
+      params
+    );
+  }
+
+  /**
+   * Consumes a token sent by email, such as an email verification, an email change confirmation
+   * or a team invitation.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/verify-token` endpoint.
+   *
+   * @param {VerifyTokenParams} params - An object containing the `token`.
+   * @returns {RequestBuilder<Record<string, unknown>>} A {@link RequestBuilder} instance for this API call.
+   * The result holds the claims of the token; its `iss` property names the kind of token that was verified.
+   * @see https://design.penpot.app/api-docs/index.html#/Profile/verify-token
+   */
+  public verifyToken(
+    params: VerifyTokenParams
+  ): RequestBuilder<Record<string, unknown>> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/verify-token",
+      params
+    );
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * @file This module defines the `ProjectsApi` class, which provides methods
+ * for interacting with the project management endpoints of the Penpot API.
+ * It covers listing, creating, renaming, moving, duplicating, pinning and deleting
+ * projects, as well as listing the files contained in a project.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the project domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * The methods within this class directly map to specific RPC commands on the Penpot backend,
+ * such as `get-projects`, `create-project` and `delete-project`.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody, CommandResult } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type GetProjectsParams = CommandBody<"get-projects">;
+type GetProjectParams = CommandBody<"get-project">;
+type CreateProjectParams = CommandBody<"create-project">;
+type RenameProjectParams = CommandBody<"rename-project">;
+type MoveProjectParams = CommandBody<"move-project">;
+type DuplicateProjectParams = CommandBody<"duplicate-project">;
+type DeleteProjectParams = CommandBody<"delete-project">;
+type UpdateProjectPinParams = CommandBody<"update-project-pin">;
+type GetProjectFilesParams = CommandBody<"get-project-files">;
+type ProjectFiles = CommandResult<"get-project-files">;
+
+/**
+ * Represents a Penpot project, the container that groups files inside a team.
+ *
+ * The OpenAPI specification does not declare a response schema for the project
+ * commands, so this shape is maintained by hand from the backend's project queries.
+ *
+ * @interface Project
+ * @property {Uuid} id - The unique identifier of the project.
+ * @property {Uuid} teamId - The team the project belongs to.
+ * @property {string} name - The display name of the project.
+ * @property {boolean} [isDefault] - `true` for the team's default "Drafts" project.
+ * @property {boolean} [isPinned] - `true` if the project is pinned in the dashboard sidebar.
+ * @property {number} [count] - The number of files in the project (returned by listing commands).
+ * @property {string} [createdAt] - The creation timestamp.
+ * @property {string} [modifiedAt] - The last modification timestamp.
+ */
+export interface Project {
+  id: Uuid;
+  teamId: Uuid;
+  name: string;
+  isDefault?: boolean;
+  isPinned?: boolean;
+  count?: number;
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+/**
+ * Provides access to the Projects API endpoints.
+ * This class is responsible for all project-related operations,
+ * from listing the projects of a team to reorganising them across teams.
+ *
+ * @class ProjectsApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * const { data: project } = await client.projects
+ * .createProject({ teamId: "your-team-uuid", name: "Marketing Site" })
+ * .exec();
+ * if (project) {
+ * await client.projects.updateProjectPin({ teamId: project.teamId, id: project.id, isPinned: true }).exec();
+ * const { data: files } = await client.projects.getProjectFiles({ projectId: project.id }).exec();
+ * console.log(`Project ${project.name} contains ${files?.length ?? 0} files.`);
+ * }
+ * ```
+ */
+export class ProjectsApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `ProjectsApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.projects` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Lists all projects of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-projects` endpoint.
+   *
+   * @param {GetProjectsParams} params - An object containing the `teamId` whose projects are listed.
+   * @returns {RequestBuilder<Project[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-projects
+   *
+   * @example
+   * ```typescript
+   * const { data: projects } = await client.projects.getProjects({ teamId }).exec();
+   * projects?.forEach((p) => console.log(p.name, p.count));
+   * ```
+   */
+  public getProjects(params: GetProjectsParams): RequestBuilder<Project[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-projects",
+      params
+    );
+  }
+
+  /**
+   * Lists every project the authenticated user can access, across all of their teams.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-all-projects` endpoint.
+   *
+   * @returns {RequestBuilder<Project[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-all-projects
+   */
+  public getAllProjects(): RequestBuilder<Project[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-all-projects"
+    );
+  }
+
+  /**
+   * Retrieves a single project by its unique identifier.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-project` endpoint.
+   *
+   * @param {GetProjectParams} params - An object containing the `id` of the project.
+   * @returns {RequestBuilder<Project>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-project
+   */
+  public getProject(params: GetProjectParams): RequestBuilder<Project> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-project",
+      params
+    );
+  }
+
+  /**
+   * Creates a new project inside a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-project` endpoint.
+   *
+   * @param {CreateProjectParams} params - The `teamId` and `name` of the new project.
+   * An explicit `id` may be supplied to make the call idempotent.
+   * @returns {RequestBuilder<Project>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/create-project
+   *
+   * @example
+   * ```typescript
+   * const { data: project, error } = await client.projects
+   * .createProject({ teamId, name: "Q3 Campaign" })
+   * .exec();
+   * ```
+   */
+  public createProject(params: CreateProjectParams): RequestBuilder<Project> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-project",
+      params
+    );
+  }
+
+  /**
+   * Renames an existing project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/rename-project` endpoint.
+   *
+   * @param {RenameProjectParams} params - The `id` of the project and its new `name`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/rename-project
+   */
+  public renameProject(params: RenameProjectParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/rename-project",
+      params
+    );
+  }
+
+  /**
+   * Moves a project, together with all of its files, to another team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/move-project` endpoint.
+   *
+   * @param {MoveProjectParams} params - The `projectId` to move and the destination `teamId`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/move-project
+   */
+  public moveProject(params: MoveProjectParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/move-project",
+      params
+    );
+  }
+
+  /**
+   * Duplicates a project and all of its files.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/duplicate-project` endpoint.
+   *
+   * @param {DuplicateProjectParams} params - The `projectId` to duplicate and an optional `name` for the copy.
+   * @returns {RequestBuilder<Project>} A {@link RequestBuilder} instance for this API call.
+   * The successful response is the newly created project.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/duplicate-project
+   */
+  public duplicateProject(
+    params: DuplicateProjectParams
+  ): RequestBuilder<Project> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/duplicate-project",
+      params
+    );
+  }
+
+  /**
+   * Deletes a project. The server schedules its files for deletion as well.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-project` endpoint.
+   *
+   * @param {DeleteProjectParams} params - An object containing the `id` of the project to delete.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/delete-project
+   */
+  public deleteProject(params: DeleteProjectParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-project",
+      params
+    );
+  }
+
+  /**
+   * Pins or unpins a project in the dashboard sidebar of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-project-pin` endpoint.
+   *
+   * @param {UpdateProjectPinParams} params - The project `id`, its `teamId` and the desired `isPinned` state.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/update-project-pin
+   */
+  public updateProjectPin(
+    params: UpdateProjectPinParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-project-pin",
+      params
+    );
+  }
+
+  /**
+   * Lists the files contained in a project.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-project-files` endpoint.
+   *
+   * @param {GetProjectFilesParams} params - An object containing the `projectId`.
+   * @returns {RequestBuilder<ProjectFiles>} A {@link RequestBuilder} instance for this API call.
+   * The response type is taken directly from the `get-project-files` schema in the OpenAPI spec.
+   * @see https://design.penpot.app/api-docs/index.html#/Projects/get-project-files
+   */
+  public getProjectFiles(
+    params: GetProjectFilesParams
+  ): RequestBuilder<ProjectFiles> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-project-files",
+      params
+    );
+  }
+}
@@ -0,0 +1,617 @@
+/**
+ * @file This module defines the `TeamsApi` class, which provides methods
+ * for interacting with the team management endpoints of the Penpot API.
+ * It covers team lifecycle operations, membership and role management,
+ * invitations, team statistics and the team photo upload.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the team domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * The methods within this class directly map to specific RPC commands on the Penpot backend,
+ * such as `get-teams`, `update-team-member-role` and `create-team-invitations`.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type GetTeamParams = CommandBody<"get-team">;
+type GetTeamInfoParams = CommandBody<"get-team-info">;
+type CreateTeamParams = CommandBody<"create-team">;
+type UpdateTeamParams = CommandBody<"update-team">;
+type DeleteTeamParams = CommandBody<"delete-team">;
+type LeaveTeamParams = CommandBody<"leave-team">;
+type GetTeamMembersParams = CommandBody<"get-team-members">;
+type GetTeamUsersParams = CommandBody<"get-team-users">;
+type DeleteTeamMemberParams = CommandBody<"delete-team-member">;
+type GetTeamInvitationsParams = CommandBody<"get-team-invitations">;
+type GetTeamInvitationTokenParams = CommandBody<"get-team-invitation-token">;
+type DeleteTeamInvitationParams = CommandBody<"delete-team-invitation">;
+type GetTeamStatsParams = CommandBody<"get-team-stats">;
+type CreateTeamAccessRequestParams = CommandBody<"create-team-access-request">;
+
+/**
+ * The role a profile holds inside a team.
+ * The OpenAPI specification types roles as `unknown`, so the accepted values are listed here explicitly.
+ */
+export type TeamRole = "owner" | "admin" | "editor" | "viewer";
+
+/**
+ * Represents a Penpot team.
+ *
+ * @interface Team
+ * @property {Uuid} id - The unique identifier of the team.
+ * @property {string} name - The display name of the team.
+ * @property {boolean} [isDefault] - `true` for the personal team created with every profile.
+ * @property {Set<string> | string[]} [features] - The feature flags enabled for the team.
+ * @property {components["schemas"]["appRpcPermissions$permissions"]} [permissions] - The permissions of the
+ * authenticated profile on this team.
+ * @property {string} [photoId] - The media identifier of the team photo, if one was uploaded.
+ * @property {string} [createdAt] - The creation timestamp.
+ * @property {string} [modifiedAt] - The last modification timestamp.
+ */
+export interface Team {
+  id: Uuid;
+  name: string;
+  isDefault?: boolean;
+  features?: Set<string> | string[];
+  permissions?: components["schemas"]["appRpcPermissions$permissions"];
+  photoId?: Uuid;
+  createdAt?: string;
+  modifiedAt?: string;
+}
+
+/**
+ * Represents a member of a team together with their role flags.
+ *
+ * @interface TeamMember
+ * @property {Uuid} id - The profile identifier of the member.
+ * @property {string} [fullname] - The member's full name.
+ * @property {string} [email] - The member's email address.
+ * @property {boolean} [isOwner] - `true` if the member owns the team.
+ * @property {boolean} [isAdmin] - `true` if the member administers the team.
+ * @property {boolean} [canEdit] - `true` if the member may edit files in the team.
+ * @property {boolean} [isActive] - `true` if the member's profile is active.
+ */
+export interface TeamMember {
+  id: Uuid;
+  fullname?: string;
+  email?: string;
+  isOwner?: boolean;
+  isAdmin?: boolean;
+  canEdit?: boolean;
+  isActive?: boolean;
+}
+
+/**
+ * Represents a pending invitation to join a team.
+ *
+ * @interface TeamInvitation
+ * @property {string} email - The invited email address.
+ * @property {TeamRole} role - The role granted when the invitation is accepted.
+ * @property {boolean} [expired] - `true` if the invitation is no longer valid.
+ */
+export interface TeamInvitation {
+  email: string;
+  role: TeamRole;
+  expired?: boolean;
+}
+
+/**
+ * Aggregated usage counters of a team, as returned by `get-team-stats`.
+ *
+ * @interface TeamStats
+ * @property {number} projects - The number of projects in the team.
+ * @property {number} files - The number of files in the team.
+ */
+export interface TeamStats {
+  projects: number;
+  files: number;
+}
+
+/**
+ * The body of the `create-team-invitations` command.
+ * `emails` is typed as `unknown` in the generated types (it is a set on the server),
+ * so it is narrowed to a plain string array here.
+ */
+interface CreateTeamInvitationsBody {
+  teamId: Uuid;
+  role: TeamRole;
+  emails: string[];
+}
+
+/**
+ * The body of the `create-team-with-invitations` command.
+ */
+interface CreateTeamWithInvitationsBody {
+  name: string;
+  emails: string[];
+  role: TeamRole;
+  id?: Uuid;
+}
+
+/**
+ * The body of the `update-team-member-role` command.
+ */
+interface UpdateTeamMemberRoleBody {
+  teamId: Uuid;
+  memberId: Uuid;
+  role: TeamRole;
+}
+
+/**
+ * The body of the `update-team-invitation-role` command.
+ */
+interface UpdateTeamInvitationRoleBody {
+  teamId: Uuid;
+  email: string;
+  role: TeamRole;
+}
+
+/**
+ * The expected body for the update-team-photo command.
+ * The `file` property should be the raw image content; it is sent as multipart form data.
+ */
+interface UpdateTeamPhotoBody {
+  teamId: Uuid;
+  file: Uint8Array | Blob; // The raw image content
+}
+
+/**
+ * Provides access to the Teams API endpoints.
+ * This class is responsible for all team-related operations,
+ * including membership, invitations and role management.
+ *
+ * @class TeamsApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * const { data: team } = await client.teams.createTeam({ name: "Design Ops" }).exec();
+ * if (team) {
+ * await client.teams
+ * .createTeamInvitations({ teamId: team.id, role: "editor", emails: ["jane@example.com"] })
+ * .exec();
+ * const { data: members } = await client.teams.getTeamMembers({ teamId: team.id }).exec();
+ * console.log(`Team ${team.name} has ${members?.length ?? 0} members.`);
+ * }
+ * ```
+ */
+export class TeamsApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `TeamsApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.teams` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Lists all teams the authenticated user is a member of.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-teams` endpoint.
+   *
+   * @returns {RequestBuilder<Team[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-teams
+   */
+  public getTeams(): RequestBuilder<Team[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-teams"
+    );
+  }
+
+  /**
+   * Lists the teams owned by the authenticated user.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-owned-teams` endpoint.
+   *
+   * @returns {RequestBuilder<Team[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-owned-teams
+   */
+  public getOwnedTeams(): RequestBuilder<Team[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-owned-teams"
+    );
+  }
+
+  /**
+   * Retrieves a single team, either by its `id` or by the `fileId` of a file it contains.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team` endpoint.
+   *
+   * @param {GetTeamParams} params - An object containing either the team `id` or a `fileId`.
+   * @returns {RequestBuilder<Team>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team
+   */
+  public getTeam(params: GetTeamParams): RequestBuilder<Team> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team",
+      params
+    );
+  }
+
+  /**
+   * Retrieves minimal, publicly visible information about a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-info` endpoint.
+   *
+   * @param {GetTeamInfoParams} params - An object containing either the team `id` or a `fileId`.
+   * @returns {RequestBuilder<Pick<Team, "id" | "name">>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-info
+   */
+  public getTeamInfo(
+    params: GetTeamInfoParams
+  ): RequestBuilder<Pick<Team, "id" | "name">> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-info",
+      params
+    );
+  }
+
+  /**
+   * Creates a new team owned by the authenticated user.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team` endpoint.
+   *
+   * @param {CreateTeamParams} params - The `name` of the team and, optionally, an explicit `id` and `features`.
+   * @returns {RequestBuilder<Team>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team
+   */
+  public createTeam(params: CreateTeamParams): RequestBuilder<Team> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team",
+      params
+    );
+  }
+
+  /**
+   * Creates a new team and invites a list of people to it in a single call.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-with-invitations` endpoint.
+   *
+   * @param {CreateTeamWithInvitationsBody} params - The team `name`, the `emails` to invite and their `role`.
+   * @returns {RequestBuilder<Team>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-with-invitations
+   */
+  public createTeamWithInvitations(
+    params: CreateTeamWithInvitationsBody
+  ): RequestBuilder<Team> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-with-invitations",
+      params
+    );
+  }
+
+  /**
+   * Renames a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team` endpoint.
+   *
+   * @param {UpdateTeamParams} params - The team `id` and its new `name`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team
+   */
+  public updateTeam(params: UpdateTeamParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team",
+      params
+    );
+  }
+
+  /**
+   * Deletes a team. Only the team owner is allowed to do this.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team` endpoint.
+   *
+   * @param {DeleteTeamParams} params - An object containing the `id` of the team to delete.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team
+   */
+  public deleteTeam(params: DeleteTeamParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team",
+      params
+    );
+  }
+
+  /**
+   * Leaves a team. An owner must pass `reassignTo` to hand ownership over to another member first.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/leave-team` endpoint.
+   *
+   * @param {LeaveTeamParams} params - The team `id` and, for owners, the `reassignTo` member id.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/leave-team
+   */
+  public leaveTeam(params: LeaveTeamParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/leave-team",
+      params
+    );
+  }
+
+  /**
+   * Lists the members of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-members` endpoint.
+   *
+   * @param {GetTeamMembersParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<TeamMember[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-members
+   */
+  public getTeamMembers(
+    params: GetTeamMembersParams
+  ): RequestBuilder<TeamMember[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-members",
+      params
+    );
+  }
+
+  /**
+   * Lists the users of a team, looked up either by `teamId` or by the `fileId` of a file in it.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-users` endpoint.
+   *
+   * @param {GetTeamUsersParams} params - An object containing either a `teamId` or a `fileId`.
+   * @returns {RequestBuilder<TeamMember[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-users
+   */
+  public getTeamUsers(
+    params: GetTeamUsersParams
+  ): RequestBuilder<TeamMember[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-users",
+      params
+    );
+  }
+
+  /**
+   * Changes the role of a team member.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-member-role` endpoint.
+   *
+   * @param {UpdateTeamMemberRoleBody} params - The `teamId`, the `memberId` and the new `role`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-member-role
+   *
+   * @example
+   * ```typescript
+   * await client.teams.updateTeamMemberRole({ teamId, memberId, role: "admin" }).exec();
+   * ```
+   */
+  public updateTeamMemberRole(
+    params: UpdateTeamMemberRoleBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-member-role",
+      params
+    );
+  }
+
+  /**
+   * Removes a member from a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team-member` endpoint.
+   *
+   * @param {DeleteTeamMemberParams} params - The `teamId` and the `memberId` to remove.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team-member
+   */
+  public deleteTeamMember(
+    params: DeleteTeamMemberParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team-member",
+      params
+    );
+  }
+
+  /**
+   * Invites one or more email addresses to join a team with the given role.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-invitations` endpoint.
+   *
+   * @param {CreateTeamInvitationsBody} params - The `teamId`, the `role` to grant and the list of `emails`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-invitations
+   */
+  public createTeamInvitations(
+    params: CreateTeamInvitationsBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-invitations",
+      params
+    );
+  }
+
+  /**
+   * Lists the pending invitations of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-invitations` endpoint.
+   *
+   * @param {GetTeamInvitationsParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<TeamInvitation[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-invitations
+   */
+  public getTeamInvitations(
+    params: GetTeamInvitationsParams
+  ): RequestBuilder<TeamInvitation[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-invitations",
+      params
+    );
+  }
+
+  /**
+   * Retrieves the invitation token that was emailed to an invited address,
+   * e.g. to build an invitation link without relying on email delivery.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-invitation-token` endpoint.
+   *
+   * @param {GetTeamInvitationTokenParams} params - The `teamId` and the invited `email`.
+   * @returns {RequestBuilder<string>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-invitation-token
+   */
+  public getTeamInvitationToken(
+    params: GetTeamInvitationTokenParams
+  ): RequestBuilder<string> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-invitation-token",
+      params
+    );
+  }
+
+  /**
+   * Changes the role that a pending invitation will grant.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-invitation-role` endpoint.
+   *
+   * @param {UpdateTeamInvitationRoleBody} params - The `teamId`, the invited `email` and the new `role`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-invitation-role
+   */
+  public updateTeamInvitationRole(
+    params: UpdateTeamInvitationRoleBody
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-invitation-role",
+      params
+    );
+  }
+
+  /**
+   * Revokes a pending invitation.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-team-invitation` endpoint.
+   *
+   * @param {DeleteTeamInvitationParams} params - The `teamId` and the invited `email`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/delete-team-invitation
+   */
+  public deleteTeamInvitation(
+    params: DeleteTeamInvitationParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-team-invitation",
+      params
+    );
+  }
+
+  /**
+   * Requests access to the team that owns a file (or to a team directly).
+   * The team administrators are notified by email.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-team-access-request` endpoint.
+   *
+   * @param {CreateTeamAccessRequestParams} params - A `fileId` or `teamId`, and whether access is requested as a viewer.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/create-team-access-request
+   */
+  public createTeamAccessRequest(
+    params: CreateTeamAccessRequestParams
+  ): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-team-access-request",
+      params
+    );
+  }
+
+  /**
+   * Retrieves usage statistics of a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-team-stats` endpoint.
+   *
+   * @param {GetTeamStatsParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<TeamStats>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/get-team-stats
+   */
+  public getTeamStats(params: GetTeamStatsParams): RequestBuilder<TeamStats> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-team-stats",
+      params
+    );
+  }
+
+  /**
+   * Uploads a new photo for a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-team-photo` endpoint.
+   * Because the payload carries a binary `file`, `sendRequest` sends it as
+   * `multipart/form-data`, exactly like {@link FilesApi.importFile}.
+   *
+   * @param {UpdateTeamPhotoBody} params - The `teamId` and the raw image `file` (`Uint8Array` or `Blob`).
+   * @returns {RequestBuilder<Team>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Teams/update-team-photo
+   *
+   * @example
+   * ```typescript
+   * const photo = await Deno.readFile("./logo.png");
+   * await client.teams.updateTeamPhoto({ teamId, file: photo }).exec();
+   * ```
+   */
+  public updateTeamPhoto(params: UpdateTeamPhotoBody): RequestBuilder<Team> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-team-photo",
+      params
+    );
+  }
+}
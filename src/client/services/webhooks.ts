@@ -0,0 +1,181 @@
+/**
+ * @file This module defines the `WebhooksApi` class, which provides methods
+ * for managing the webhooks of a Penpot team.
+ *
+ * @remarks
+ * This class serves as a dedicated client for the webhook domain of the Penpot API.
+ * It uses the {@link RequestBuilder} to construct and send HTTP requests, ensuring
+ * consistency in request handling, authentication headers, and structured error processing.
+ * The methods within this class directly map to the `get-webhooks`, `create-webhook`,
+ * `update-webhook` and `delete-webhook` RPC commands.
+ *
+ * To receive the events delivered to a webhook, see {@link createWebhookHandler}.
+ *
+ * @module
+ * @packageDocumentation
+ */
+
+import { RequestBuilder } from "../requestBuilder.ts";
+import type { PenpotClientConfig } from "../../index.ts";
+import type { components } from "../generated/types.ts";
+import type { CommandBody } from "../_internals/commands.ts";
+
+// Type aliases for better readability, sourced from generated types.
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+type GetWebhooksParams = CommandBody<"get-webhooks">;
+type DeleteWebhookParams = CommandBody<"delete-webhook">;
+
+/**
+ * The content type Penpot uses when delivering events to a webhook.
+ * The OpenAPI specification types this field as `unknown`, so the accepted values are listed here explicitly.
+ */
+export type WebhookMimeType = "application/json" | "application/transit+json";
+
+/**
+ * Represents a webhook registered on a team.
+ *
+ * @interface Webhook
+ * @property {Uuid} id - The unique identifier of the webhook.
+ * @property {Uuid} teamId - The team whose events are delivered.
+ * @property {string} uri - The URL events are POSTed to.
+ * @property {WebhookMimeType} mtype - The content type of the delivered payloads.
+ * @property {boolean} isActive - `false` once the webhook has been disabled, manually or after repeated failures.
+ * @property {string | null} [errorCode] - The last delivery error reported by the server, if any.
+ * @property {number} [errorCount] - The number of consecutive failed deliveries.
+ */
+export interface Webhook {
+  id: Uuid;
+  teamId: Uuid;
+  uri: string;
+  mtype: WebhookMimeType;
+  isActive: boolean;
+  errorCode?: string | null;
+  errorCount?: number;
+}
+
+/**
+ * The body of the `create-webhook` command.
+ */
+interface CreateWebhookBody {
+  teamId: Uuid;
+  uri: string;
+  mtype: WebhookMimeType;
+}
+
+/**
+ * The body of the `update-webhook` command.
+ */
+interface UpdateWebhookBody {
+  id: Uuid;
+  uri: string;
+  mtype: WebhookMimeType;
+  isActive: boolean;
+}
+
+/**
+ * Provides access to the Webhooks API endpoints.
+ * This class is responsible for registering, updating and removing the webhooks of a team.
+ *
+ * @class WebhooksApi
+ * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient } from "@ajsb85/penpot-api-client";
+ *
+ * const client = new PenpotClient({ baseUrl: "...", accessToken: "..." });
+ *
+ * const { data: webhook } = await client.webhooks.createWebhook({
+ * teamId,
+ * uri: "https://hooks.example.com/penpot",
+ * mtype: "application/json",
+ * }).exec();
+ * ```
+ */
+export class WebhooksApi {
+  private config: PenpotClientConfig;
+
+  /**
+   * @internal - This constructor is not meant for public use.
+   * Instances of `WebhooksApi` are created by the main {@link PenpotClient}
+   * and exposed via the `client.webhooks` property.
+   *
+   * @param {PenpotClientConfig} config - The client configuration object, providing `baseUrl`, `accessToken`, etc.
+   */
+  constructor(config: PenpotClientConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Lists the webhooks registered on a team.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/get-webhooks` endpoint.
+   *
+   * @param {GetWebhooksParams} params - An object containing the `teamId`.
+   * @returns {RequestBuilder<Webhook[]>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/get-webhooks
+   */
+  public getWebhooks(params: GetWebhooksParams): RequestBuilder<Webhook[]> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/get-webhooks",
+      params
+    );
+  }
+
+  /**
+   * Registers a new webhook on a team. The server validates that the URI is reachable before accepting it.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/create-webhook` endpoint.
+   *
+   * @param {CreateWebhookBody} params - The `teamId`, the target `uri` and the payload `mtype`.
+   * @returns {RequestBuilder<Webhook>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/create-webhook
+   */
+  public createWebhook(params: CreateWebhookBody): RequestBuilder<Webhook> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/create-webhook",
+      params
+    );
+  }
+
+  /**
+   * Updates the target, payload format or active state of a webhook.
+   * Re-activating a webhook also resets its error counter.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/update-webhook` endpoint.
+   *
+   * @param {UpdateWebhookBody} params - The webhook `id` and its new `uri`, `mtype` and `isActive` state.
+   * @returns {RequestBuilder<Webhook>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/update-webhook
+   */
+  public updateWebhook(params: UpdateWebhookBody): RequestBuilder<Webhook> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/update-webhook",
+      params
+    );
+  }
+
+  /**
+   * Removes a webhook.
+   *
+   * This method sends a `POST` request to the `/api/rpc/command/delete-webhook` endpoint.
+   *
+   * @param {DeleteWebhookParams} params - An object containing the webhook `id`.
+   * @returns {RequestBuilder<void>} A {@link RequestBuilder} instance for this API call.
+   * @see https://design.penpot.app/api-docs/index.html#/Webhooks/delete-webhook
+   */
+  public deleteWebhook(params: DeleteWebhookParams): RequestBuilder<void> {
+    return new RequestBuilder(
+      this.config,
+      "POST",
+      "/api/rpc/command/delete-webhook",
+      params
+    );
+  }
+}
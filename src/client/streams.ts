@@ -0,0 +1,66 @@
+/**
+ * @file This module provides helpers to move large binary files between the file system and the
+ * `ReadableStream`s used by the client, without holding them in memory.
+ *
+ * @remarks
+ * Exports of team libraries can be hundreds of megabytes. Combined with {@link RequestBuilder.asStream},
+ * which returns the response body as a `ReadableStream`, {@link writeStreamToFile} writes an export to
+ * disk chunk by chunk. {@link openFileStream} does the opposite for uploads, e.g. for `FilesApi.importFile`.
+ *
+ * Both helpers use the `node:fs` module, which Deno, Node.js and Bun all provide. It is imported
+ * lazily, so that importing this module does not break browser builds; in browsers, use the
+ * streams of the File System Access API or of a `File` instead.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * Writes a stream to a file, chunk by chunk. The file is created, or truncated if it exists.
+ * If the stream fails, e.g. because the export was cancelled, the returned Promise rejects and the
+ * partially written file is left in place.
+ *
+ * @param {ReadableStream<Uint8Array>} stream - The stream to write, e.g. the result of an export.
+ * @param {string | URL} path - The path of the file to write.
+ * @returns {Promise<void>} A Promise that resolves once the whole stream has been written and the file is closed.
+ *
+ * @example
+ * ```typescript
+ * import { PenpotClient, writeStreamToFile } from "@ajsb85/penpot-api-client";
+ *
+ * const stream = await client.files.exportFile({ id: fileId }).asStream().unwrap();
+ * await writeStreamToFile(stream, `./backups/${fileId}.penpot`);
+ * ```
+ */
+export async function writeStreamToFile(
+  stream: ReadableStream<Uint8Array>,
+  path: string | URL
+): Promise<void> {
+  const { createWriteStream } = await import("node:fs");
+  const { Writable } = await import("node:stream");
+  await stream.pipeTo(
+    Writable.toWeb(createWriteStream(path)) as WritableStream<Uint8Array>
+  );
+}
+
+/**
+ * Opens a file for reading as a stream, e.g. to upload it without reading it into memory first.
+ *
+ * @param {string | URL} path - The path of the file to read.
+ * @returns {Promise<ReadableStream<Uint8Array>>} A stream of the content of the file.
+ *
+ * @example
+ * ```typescript
+ * import { openFileStream } from "@ajsb85/penpot-api-client";
+ *
+ * const { fileIds } = await client.files
+ * .importFile({ projectId, name: "Design system", file: await openFileStream("./design-system.penpot") })
+ * .unwrap();
+ * ```
+ */
+export async function openFileStream(
+  path: string | URL
+): Promise<ReadableStream<Uint8Array>> {
+  const { createReadStream } = await import("node:fs");
+  const { Readable } = await import("node:stream");
+  return Readable.toWeb(createReadStream(path)) as ReadableStream<Uint8Array>;
+}
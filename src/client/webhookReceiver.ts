@@ -0,0 +1,224 @@
+import { ApiClientError } from "./errors.ts";
+import { toCamelKeys } from "./_internals/casing.ts";
+import { decodeTransit } from "./_internals/transit.ts";
+import type { components } from "./generated/types.ts";
+
+/**
+ * @file This module provides a runtime-agnostic receiver for the events Penpot delivers to webhooks.
+ * It exposes {@link createWebhookHandler}, which builds a standard `(Request) => Promise<Response>`
+ * handler, and {@link parseWebhookRequest}, which turns an incoming request into a normalised {@link WebhookEvent}.
+ *
+ * @remarks
+ * Penpot POSTs one event per request to every active webhook of a team, encoded either as
+ * `application/json` (camelCase keys) or `application/transit+json` (kebab-case keywords),
+ * depending on the `mtype` the webhook was registered with. Both encodings are normalised
+ * into the same {@link WebhookEvent} shape, with camelCase keys down to the event `props`.
+ * Penpot does not specify the `props` of each event, so they are not typed per event name;
+ * callers that know the shape of an event can pass it as the type parameter of {@link WebhookEvent}.
+ *
+ * Because the handler only relies on the Fetch API `Request` and `Response` classes, it can be
+ * mounted directly in `Deno.serve`, `Bun.serve`, Cloudflare Workers, or any Node.js adapter that
+ * speaks Fetch (e.g. Hono, itty-router, or `@whatwg-node/server`), and it can be tested with
+ * locally constructed `Request` objects without any network access.
+ *
+ * @packageDocumentation
+ */
+
+type Uuid = components["schemas"]["appCommonSchema$uuid"];
+
+/**
+ * The names of the events Penpot commonly delivers to webhooks. Webhook events are named after the
+ * RPC command that produced them, so any other command name may appear as well.
+ */
+export type WebhookEventName =
+  | "create-project"
+  | "rename-project"
+  | "delete-project"
+  | "create-file"
+  | "update-file"
+  | "rename-file"
+  | "delete-file"
+  | "set-file-shared"
+  | "create-comment-thread"
+  | "create-comment"
+  | "create-team-invitations"
+  | "update-team-member-role"
+  | "delete-team-member"
+  | (string & Record<never, never>);
+
+/**
+ * A single event delivered by Penpot to a webhook.
+ *
+ * @template P - The shape of the event `props`, which depend on the event name. They are not checked at runtime.
+ *
+ * @interface WebhookEvent
+ * @property {WebhookEventName} name - The name of the event, e.g. `"update-file"`.
+ * @property {string} [type] - The kind of audit event, typically `"command"` or `"trigger"`.
+ * @property {P} props - The event parameters, usually the parameters of the originating command, with camelCase keys.
+ * @property {Uuid} [profileId] - The profile that caused the event.
+ * @property {Date} [trackedAt] - When the event was recorded by the server.
+ * @property {unknown} raw - The decoded request body, before normalisation (transit keys are still kebab-case).
+ */
+export interface WebhookEvent<P = Record<string, unknown>> {
+  name: WebhookEventName;
+  type?: string;
+  props: P;
+  profileId?: Uuid;
+  trackedAt?: Date;
+  raw: unknown;
+}
+
+/**
+ * Options for {@link createWebhookHandler}.
+ *
+ * @interface WebhookHandlerOptions
+ * @property {function} onEvent - Called once for every successfully parsed event. If it throws or
+ * rejects, the handler answers `500` so that Penpot records the delivery as failed.
+ * @property {WebhookEventName[]} [events] - Optional. If given, only events with these names are passed
+ * to `onEvent`; other events are acknowledged with `204` and ignored.
+ */
+export interface WebhookHandlerOptions {
+  onEvent: (event: WebhookEvent, request: Request) => void | Promise<void>;
+  events?: WebhookEventName[];
+}
+
+/**
+ * Converts a timestamp in any of the encodings Penpot uses into a `Date`.
+ */
+function toDate(value: unknown): Date | undefined {
+  if (value instanceof Date) return value;
+  if (typeof value === "string" || typeof value === "number") {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+  return undefined;
+}
+
+/**
+ * Parses an incoming webhook request into a {@link WebhookEvent}.
+ * The kebab-case keys of transit payloads, including those of `props`, are converted to the camelCase
+ * of JSON payloads; map keys such as UUIDs are kept as they are.
+ *
+ * @param {Request} request - The request Penpot sent to the webhook URI.
+ * @returns {Promise<WebhookEvent>} A Promise that resolves with the normalised event.
+ * @throws {ApiClientError} If the content type is not supported, the body cannot be decoded,
+ * or the decoded body does not look like a Penpot event (it has no `name`).
+ *
+ * @example
+ * ```typescript
+ * const event = await parseWebhookRequest(request);
+ * if (event.name === "update-file") {
+ * const { id, projectId } = event.props as { id: string; projectId?: string };
+ * console.log("File changed:", id, projectId);
+ * }
+ * ```
+ */
+export async function parseWebhookRequest(
+  request: Request
+): Promise<WebhookEvent> {
+  const contentType = request.headers.get("content-type") ?? "";
+  const text = await request.text();
+
+  let raw: unknown;
+  try {
+    if (contentType.includes("application/transit+json")) {
+      raw = decodeTransit(text);
+    } else if (contentType.includes("application/json")) {
+      raw = JSON.parse(text);
+    } else {
+      throw new ApiClientError(
+        `Unsupported webhook content type: ${contentType || "(none)"}`
+      );
+    }
+  } catch (error) {
+    if (error instanceof ApiClientError) throw error;
+    throw new ApiClientError("Failed to decode webhook payload", {
+      cause: error,
+    });
+  }
+
+  if (!raw || typeof raw !== "object") {
+    throw new ApiClientError("Webhook payload is not an object", {
+      cause: raw,
+    });
+  }
+  // Transit webhooks use kebab-case keywords; JSON webhooks already use camelCase keys.
+  const payload = toCamelKeys(raw) as Record<string, unknown>;
+  const { name, type, props, profileId, trackedAt } = payload;
+  if (typeof name !== "string") {
+    throw new ApiClientError("Webhook payload has no event name", {
+      cause: raw,
+    });
+  }
+
+  return {
+    name,
+    type: typeof type === "string" ? type : undefined,
+    props:
+      props && typeof props === "object"
+        ? (props as Record<string, unknown>)
+        : {},
+    profileId: profileId as Uuid | undefined,
+    trackedAt: toDate(trackedAt),
+    raw,
+  };
+}
+
+/**
+ * Creates a Fetch-API request handler that receives Penpot webhook deliveries.
+ *
+ * The handler answers:
+ * - `405` for any method other than `POST`,
+ * - `400` if the body cannot be parsed into a {@link WebhookEvent},
+ * - `204` once `onEvent` has completed (or the event was filtered out),
+ * - `500` if `onEvent` throws.
+ *
+ * @param {WebhookHandlerOptions} options - The event callback and optional event-name filter.
+ * @returns {(request: Request) => Promise<Response>} A handler suitable for `Deno.serve`, `Bun.serve`
+ * or any Fetch-compatible server adapter.
+ *
+ * @example
+ * ```typescript
+ * import { createWebhookHandler } from "@ajsb85/penpot-api-client";
+ *
+ * const handler = createWebhookHandler({
+ * events: ["update-file", "create-comment"],
+ * onEvent: (event) => console.log(`${event.name} by ${event.profileId}`, event.props),
+ * });
+ *
+ * // Deno
+ * Deno.serve({ port: 8787 }, handler);
+ * // Bun
+ * // Bun.serve({ port: 8787, fetch: handler });
+ * ```
+ */
+export function createWebhookHandler(
+  options: WebhookHandlerOptions
+): (request: Request) => Promise<Response> {
+  return async (request) => {
+    if (request.method !== "POST") {
+      return new Response("Method Not Allowed", {
+        status: 405,
+        headers: { Allow: "POST" },
+      });
+    }
+
+    let event: WebhookEvent;
+    try {
+      event = await parseWebhookRequest(request);
+    } catch (error) {
+      return new Response((error as Error).message, { status: 400 });
+    }
+
+    if (options.events && !options.events.includes(event.name)) {
+      return new Response(null, { status: 204 });
+    }
+
+    try {
+      await options.onEvent(event, request);
+    } catch {
+      return new Response("Webhook handler failed", { status: 500 });
+    }
+    return new Response(null, { status: 204 });
+  };
+}
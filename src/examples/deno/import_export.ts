@@ -1,7 +1,10 @@
 /// <reference lib="deno.ns" />
 
 import { PenpotClient } from "@ajsb85/penpot-api-client";
-import { ApiHttpError } from "@ajsb85/penpot-api-client/errors";
+import {
+  ApiHttpError,
+  ApiNotFoundError,
+} from "@ajsb85/penpot-api-client/errors";
 import * as path from "@std/path";
 import {
   DEMO_PENPOT_FILE_PATH,
@@ -32,33 +35,6 @@ import {
  * @packageDocumentation
  */
 
-/**
- * A type guard function to check if an `unknown` object has a `code` property.
- * This is particularly useful for safely accessing specific error codes from API error details,
- * which might be of `unknown` type.
- *
- * @interface ErrorWithCode
- * @property {string} [code] - Optional. The `code` property, if it exists on the object.
- *
- * @param {unknown} obj - The object to check.
- * @returns {obj is ErrorWithCode} `true` if the object is not null, is an object, and has a `code` property; otherwise, `false`.
- *
- * @example
- * ```typescript
- * // Assuming `error.details` is of type `unknown`
- * const apiErrorDetails: unknown = { code: "INVALID_INPUT", message: "Bad data" };
- * if (hasCode(apiErrorDetails)) {
- * console.log(`Error Code: ${apiErrorDetails.code}`); // Safely access .code
- * }
- * ```
- */
-interface ErrorWithCode {
-  code?: string;
-}
-function hasCode(obj: unknown): obj is ErrorWithCode {
-  return typeof obj === "object" && obj !== null && "code" in obj;
-}
-
 /**
  * This asynchronous function executes the main import-then-export workflow.
  * It orchestrates file reading, client initialization, API calls for import and export,
@@ -241,14 +217,11 @@ async function runWorkflow() {
     console.log(
       `\n[OK] As expected, the export failed. The enhanced error log above should show the server's response.`,
     );
-    // If the error is an `ApiHttpError`, further inspect its details using the `hasCode` type guard.
-    if (nonExistentError instanceof ApiHttpError) {
-      // Use a type guard for safer access to the 'details' property, as it's `unknown`.
-      if (hasCode(nonExistentError.details)) {
-        console.log(
-          `  Programmatic Error Details: Status=${nonExistentError.status}, Code=${nonExistentError.details.code}`,
-        );
-      }
+    // Penpot's error bodies are parsed into typed fields, and the error class reflects their `type`.
+    if (nonExistentError instanceof ApiNotFoundError) {
+      console.log(
+        `  Programmatic Error Details: Status=${nonExistentError.status}, Code=${nonExistentError.code}`,
+      );
     }
   } else {
     // This warning indicates an unexpected success for a non-existent file export,
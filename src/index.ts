@@ -16,10 +16,23 @@
  * @packageDocumentation
  */
 
-import { AuthApi } from "./client/services/auth.ts";
+import { AccessTokensApi } from "./client/services/accessTokens.ts";
+import { AuthApi, type LoginCredentials } from "./client/services/auth.ts";
+import { CommentsApi } from "./client/services/comments.ts";
 import { FilesApi } from "./client/services/files.ts";
+import { FontsApi } from "./client/services/fonts.ts";
+import { LibrariesApi } from "./client/services/libraries.ts";
+import { ProfileApi } from "./client/services/profile.ts";
+import { ProjectsApi } from "./client/services/projects.ts";
+import { TeamsApi } from "./client/services/teams.ts";
+import { WebhooksApi } from "./client/services/webhooks.ts";
+import { PenpotCommands } from "./client/generated/services.ts";
 import type { ApiError } from "./client/errors.ts";
+import type { ApiResponse } from "./client/requestBuilder.ts";
 import type { FetchMiddleware } from "./client/_internals/middleware.ts";
+import type { RetryPolicy } from "./client/_internals/retry.ts";
+import type { RequestLimiter } from "./client/requestLimiter.ts";
+import type { SchemaValidation } from "./client/_internals/schema.ts";
 
 /**
  * Configuration options for the {@link PenpotClient}.
@@ -37,6 +50,29 @@ import type { FetchMiddleware } from "./client/_internals/middleware.ts";
  * @property {boolean} [debug=false] - Optional. If `true`, enables verbose logging of request and response details
  * to the console. This is highly useful for debugging API interactions and understanding data flow.
  * Defaults to `false`.
+ * @property {boolean} [transformKeys=true] - Optional. If `true`, the keys of JSON request bodies are converted
+ * from camelCase to kebab-case, as expected by the backend, and the keys of JSON responses are converted back
+ * to camelCase, matching the generated types. Map keys such as the UUIDs of `objects` or `pagesIndex` are
+ * preserved. Set it to `false` to send and receive payloads exactly as given. Defaults to `true`.
+ * @property {"json" | "transit"} [wireFormat="json"] - Optional. The format of request and response bodies.
+ * With `"transit"`, bodies are sent as `application/transit+json` and requested through the `Accept` header,
+ * so that values such as `Set`s (e.g. file `features`), `Date`s and UUID-keyed maps round-trip faithfully.
+ * Defaults to `"json"`.
+ * @property {RetryPolicy | false} [retry] - Optional. How to retry requests that fail with a network error,
+ * `429` or `5xx`. Only read-only commands (`get-*`, `search-*`) are retried unless the policy sets
+ * `retryNonIdempotent`. Can be overridden per request with {@link RequestBuilder.withRetry}.
+ * Requests are not retried if omitted.
+ * @property {number} [timeoutMs] - Optional. The default timeout of every request in milliseconds, covering the
+ * whole request including retries and SSE streams. Requests that exceed it fail with an `ApiTimeoutError`.
+ * Can be overridden per request with {@link RequestBuilder.withTimeout}. Requests never time out if omitted.
+ * @property {RequestLimiter} [limiter] - Optional. A {@link RequestLimiter} that limits the rate and concurrency
+ * of requests. Pass the same instance to several clients, or use {@link RequestLimiter.forBaseUrl}, to share
+ * the limits between them. Requests are not limited if omitted.
+ * @property {boolean | SchemaValidation} [validate=false] - Optional. Validates bodies against the schemas of the
+ * OpenAPI specification the client was generated from, to detect drift between the client and a Penpot instance.
+ * `true` validates JSON and transit responses; pass a {@link SchemaValidation} to validate request bodies as well.
+ * Mismatches fail the request with an `ApiSchemaError` listing every mismatching path. The schemas are only
+ * loaded when validation is enabled. Bodies are not validated if omitted.
  *
  * @example
  * ```typescript
@@ -60,18 +96,49 @@ export interface PenpotClientConfig {
   middleware?: FetchMiddleware[];
   /** If true, logs detailed request information to the console. Defaults to false. */
   debug?: boolean;
+  /** If true, converts JSON keys between camelCase and the backend's kebab-case. Defaults to true. */
+  transformKeys?: boolean;
+  /** The format of request and response bodies, `"json"` or `"transit"`. Defaults to `"json"`. */
+  wireFormat?: "json" | "transit";
+  /** Optional retry policy for transient failures. Requests are not retried if omitted. */
+  retry?: RetryPolicy | false;
+  /** Optional default timeout of every request, in milliseconds. Requests never time out if omitted. */
+  timeoutMs?: number;
+  /** Optional limiter for the rate and concurrency of requests, which may be shared between clients. */
+  limiter?: RequestLimiter;
+  /** Optional validation of request and response bodies against the OpenAPI schemas. Disabled if omitted. */
+  validate?: boolean | SchemaValidation;
 }
 
 /**
  * The main client for interacting with the Penpot API.
  * This class serves as the primary entry point for developers, providing organized access
- * to different API services through dedicated namespaces (`auth`, `files`).
+ * to different API services through dedicated namespaces (`auth`, `accessTokens`, `profile`, `files`, `libraries`, `projects`, `teams`, `comments`, `webhooks`, `fonts`).
  *
  * @class PenpotClient
  * @property {AuthApi} auth - An instance of {@link AuthApi} for handling authentication-related API calls.
  * This includes operations like user login, logout, and fetching user profiles.
+ * @property {AccessTokensApi} accessTokens - An instance of {@link AccessTokensApi} for creating, listing,
+ * revoking and rotating personal access tokens.
+ * @property {ProfileApi} profile - An instance of {@link ProfileApi} for updating the current profile
+ * and for the registration, email change and recovery flows.
  * @property {FilesApi} files - An instance of {@link FilesApi} for managing files, projects,
  * and related assets (e.g., importing/exporting files, handling comments and snapshots).
+ * @property {LibrariesApi} libraries - An instance of {@link LibrariesApi} for publishing shared libraries,
+ * linking them to files and mapping the library dependencies of a team.
+ * @property {ProjectsApi} projects - An instance of {@link ProjectsApi} for listing, creating, moving
+ * and organising the projects of a team.
+ * @property {TeamsApi} teams - An instance of {@link TeamsApi} for managing teams, their members,
+ * roles and invitations.
+ * @property {CommentsApi} comments - An instance of {@link CommentsApi} for reading and posting
+ * design feedback in comment threads.
+ * @property {WebhooksApi} webhooks - An instance of {@link WebhooksApi} for registering and managing
+ * the webhooks of a team.
+ * @property {FontsApi} fonts - An instance of {@link FontsApi} for uploading and managing
+ * the custom fonts of a team.
+ * @property {PenpotCommands} commands - Generated wrappers for every RPC command in the OpenAPI specification,
+ * grouped by domain (e.g. `client.commands.files.getFileFragment(...)`). Use them for commands that the
+ * hand-written services above do not cover yet.
  * @private {PenpotClientConfig} config - The internal configuration object used to initialize this client.
  * This object holds the `baseUrl`, `accessToken`, and other global settings.
  *
@@ -124,10 +191,17 @@ export interface PenpotClientConfig {
  */
 export class PenpotClient {
   public readonly auth: AuthApi;
+  public readonly accessTokens: AccessTokensApi;
+  public readonly profile: ProfileApi;
   public readonly files: FilesApi;
+  public readonly libraries: LibrariesApi;
+  public readonly projects: ProjectsApi;
+  public readonly teams: TeamsApi;
+  public readonly comments: CommentsApi;
+  public readonly webhooks: WebhooksApi;
+  public readonly fonts: FontsApi;
   // Add other service namespaces here as they are implemented.
-  // public readonly projects: ProjectsApi;
-  // public readonly teams: TeamsApi;
+  public readonly commands: PenpotCommands;
 
   private config: PenpotClientConfig;
 
@@ -172,7 +246,77 @@ export class PenpotClient {
     // This allows each service to inherit the base URL, access token, middleware, and debug settings,
     // ensuring consistent behavior across all API interactions.
     this.auth = new AuthApi(this.config);
+    this.accessTokens = new AccessTokensApi(
+      this.config,
+      (config) => new PenpotClient(config)
+    );
+    this.profile = new ProfileApi(this.config);
     this.files = new FilesApi(this.config);
+    this.libraries = new LibrariesApi(this.config);
+    this.projects = new ProjectsApi(this.config);
+    this.teams = new TeamsApi(this.config);
+    this.comments = new CommentsApi(this.config);
+    this.webhooks = new WebhooksApi(this.config);
+    this.fonts = new FontsApi(this.config);
+    this.commands = new PenpotCommands(this.config);
+  }
+
+  /**
+   * Logs in with a password or LDAP and returns a client whose requests carry the new session.
+   *
+   * The session token is read from the `auth-token` cookie of the login response (see
+   * {@link AuthApi.createSession}), so this factory works in Deno, Node.js and Bun but not in browsers,
+   * which hide `Set-Cookie` from scripts. Call {@link PenpotClient.logout} when done to end the session.
+   *
+   * @param {Omit<PenpotClientConfig, "accessToken">} config - The client configuration, without an access token.
+   * @param {LoginCredentials} credentials - The `email`, `password` and authentication `method`
+   * (`"password"` by default, or `"ldap"`).
+   * @returns {Promise<ApiResponse<PenpotClient>>} A Promise resolving to an {@link ApiResponse} with the
+   * authenticated client, or the error returned by the login command.
+   *
+   * @example
+   * ```typescript
+   * const { data: client, error } = await PenpotClient.fromCredentials(
+   * { baseUrl: "https://penpot.internal.example.com" },
+   * { email: "ada", password: Deno.env.get("LDAP_PASSWORD")!, method: "ldap" }
+   * );
+   * if (error) throw error;
+   *
+   * const { data: teams } = await client.teams.getTeams().exec();
+   * await client.logout();
+   * ```
+   */
+  public static async fromCredentials(
+    config: Omit<PenpotClientConfig, "accessToken">,
+    credentials: LoginCredentials
+  ): Promise<ApiResponse<PenpotClient>> {
+    // The login request itself is unauthenticated, so no access token is configured for it.
+    const auth = new AuthApi({ debug: false, ...config, accessToken: "" });
+    const { data: session, error } = await auth.createSession(credentials);
+    if (error) return { data: null, error };
+
+    return {
+      data: new PenpotClient({ ...config, accessToken: session.token }),
+      error: null,
+    };
+  }
+
+  /**
+   * Ends the session or invalidates the token this client is authenticated with.
+   *
+   * This sends the `logout` command and, on success, clears the access token of the client, so that
+   * every service namespace stops sending the invalidated credentials. Requests made afterwards are
+   * unauthenticated until a new client is created.
+   *
+   * @returns {Promise<ApiResponse<void>>} A Promise resolving to the {@link ApiResponse} of the `logout` command.
+   */
+  public async logout(): Promise<ApiResponse<void>> {
+    const result = await this.auth.logout().exec();
+    if (!result.error) {
+      // All services share this configuration object, so clearing it here affects them all.
+      this.config.accessToken = "";
+    }
+    return result;
   }
 }
 
@@ -191,3 +335,92 @@ export type { ApiError };
  * @type {FetchMiddleware}
  */
 export type { FetchMiddleware };
+/**
+ * Re-exports the {@link RetryPolicy} interface.
+ * This allows consumers to type the `retry` option of the client and of {@link RequestBuilder.withRetry}.
+ * @type {RetryPolicy}
+ */
+export type { RetryPolicy };
+/**
+ * Re-exports the {@link SchemaValidation} interface.
+ * This allows consumers to type the `validate` option of the client.
+ * @type {SchemaValidation}
+ */
+export type { SchemaValidation };
+/**
+ * Re-exports the {@link SseProgressEvent} interface.
+ * This allows consumers to type the callback of {@link RequestBuilder.onProgress}.
+ */
+export type { SseProgressEvent } from "./client/_internals/sse.ts";
+
+/**
+ * Re-exports the {@link Keyword} class.
+ * With `wireFormat: "transit"`, a `Keyword` in a request body is sent as a transit keyword rather than a string.
+ */
+export { Keyword } from "./client/_internals/transit.ts";
+
+/**
+ * Re-exports the webhook receiver.
+ * {@link createWebhookHandler} builds a `(Request) => Promise<Response>` handler for
+ * `Deno.serve`, `Bun.serve` or Node adapters, and {@link parseWebhookRequest} decodes a single
+ * JSON or transit webhook delivery into a normalised {@link WebhookEvent}.
+ */
+export {
+  createWebhookHandler,
+  parseWebhookRequest,
+} from "./client/webhookReceiver.ts";
+export type {
+  WebhookEvent,
+  WebhookEventName,
+  WebhookHandlerOptions,
+} from "./client/webhookReceiver.ts";
+
+/**
+ * Re-exports the request limiter.
+ * A {@link RequestLimiter} limits the request rate (globally and per command) and the number of
+ * concurrent requests, and reports its queue depth and wait times through `getStats()`.
+ */
+export { RequestLimiter } from "./client/requestLimiter.ts";
+export type {
+  RateLimit,
+  RequestLimiterOptions,
+  RequestLimiterStats,
+} from "./client/requestLimiter.ts";
+
+/**
+ * Re-exports the file stream helpers.
+ * {@link writeStreamToFile} writes a streamed response, see {@link RequestBuilder.asStream}, to disk, and
+ * {@link openFileStream} reads a file as a stream for uploads, both without buffering the whole file.
+ */
+export { openFileStream, writeStreamToFile } from "./client/streams.ts";
+
+/**
+ * Re-exports the `.penpot` archive helpers.
+ * {@link readPenpotArchive} parses an archive returned by `FilesApi.exportFile` into typed structures, and
+ * {@link writePenpotArchive} writes an archive that `FilesApi.importFile` accepts, without a Penpot server.
+ */
+export {
+  readPenpotArchive,
+  writePenpotArchive,
+} from "./client/penpotArchive.ts";
+export type {
+  PenpotArchive,
+  PenpotArchiveEntity,
+  PenpotArchiveFile,
+  PenpotArchiveInput,
+  PenpotArchiveManifest,
+  PenpotArchiveObject,
+  PenpotArchivePage,
+} from "./client/penpotArchive.ts";
+
+/**
+ * Re-exports the file state comparison.
+ * {@link diffFileStates} lists the pages and objects added, removed or changed between two states of a
+ * file, e.g. before and after a snapshot is restored.
+ */
+export { diffFileStates } from "./client/fileDiff.ts";
+export type {
+  FileObjectRef,
+  FileState,
+  FileStateDiff,
+} from "./client/fileDiff.ts";
@@ -1,12 +1,17 @@
 import { fileURLToPath } from "node:url";
 import * as path from "jsr:@std/path";
 import openapiTS from "openapi-typescript";
+import { renderSchemas } from "./generateSchemas.ts";
+import { renderServices } from "./generateServices.ts";
 
 /**
  * @file This script is responsible for generating TypeScript type definitions
  * from the OpenAPI (Swagger) specification file (`openapi.json`).
  * It uses the `openapi-typescript` library to create a single, comprehensive
- * type definition file (`src/client/generated/types.ts`).
+ * type definition file (`src/client/generated/types.ts`), and {@link renderServices}
+ * to create one typed method per RPC command (`src/client/generated/services.ts`).
+ * {@link renderSchemas} extracts the schemas used by the opt-in runtime validation
+ * (`src/client/generated/schemas.ts`).
  *
  * @remarks
  * The primary purpose of this script is to ensure that the Penpot API client
@@ -63,6 +68,22 @@ async function generateTypes() {
     "generated",
     "types.ts"
   );
+  // Construct the full path where the generated command classes will be written.
+  const servicesPath = path.resolve(
+    projectRoot,
+    "src",
+    "client",
+    "generated",
+    "services.ts"
+  );
+  // Construct the full path where the generated validation schemas will be written.
+  const schemasPath = path.resolve(
+    projectRoot,
+    "src",
+    "client",
+    "generated",
+    "schemas.ts"
+  );
 
   try {
     console.log(`Reading OpenAPI spec from: ${openapiPath}`);
@@ -85,6 +106,14 @@ async function generateTypes() {
     // `Deno.writeTextFile` requires `--allow-write` permission.
     await Deno.writeTextFile(outputPath, finalOutput);
 
+    // Generate the command classes from the same specification. They reference the
+    // `paths` type written above, so both files always describe the same API version.
+    const spec = JSON.parse(await Deno.readTextFile(openapiPath));
+    console.log(`Writing generated services to: ${servicesPath}`);
+    await Deno.writeTextFile(servicesPath, renderServices(spec));
+    console.log(`Writing generated schemas to: ${schemasPath}`);
+    await Deno.writeTextFile(schemasPath, renderSchemas(spec));
+
     console.log("[SUCCESS] Type generation completed successfully.");
   } catch (error) {
     // Log an error message if any part of the process fails.
@@ -0,0 +1,139 @@
+/**
+ * @file This module renders the source of `src/client/generated/schemas.ts`: the request and response
+ * schemas of every `/command/*` path of the OpenAPI specification, and the component schemas they
+ * reference, for the opt-in runtime validation of `sendRequest`.
+ *
+ * @remarks
+ * Only the parts of a schema that constrain values are kept. Annotations such as `title`,
+ * `description` and `example` are dropped, which shrinks the output to a fraction of `openapi.json`.
+ * The generated module is only imported when validation is enabled, so clients that do not validate
+ * never load it.
+ *
+ * This module is pure (it only transforms the parsed specification into a string), so it can be
+ * exercised without file system access.
+ *
+ * @packageDocumentation
+ */
+
+import type { JsonSchema } from "../client/_internals/schema.ts";
+
+/**
+ * The subset of an OpenAPI 3 document that the schema generator reads.
+ */
+export interface OpenApiSchemaSpec {
+  paths: Record<
+    string,
+    {
+      post?: {
+        requestBody?: {
+          content?: { "application/json"?: { schema?: JsonSchema } };
+        };
+        responses?: {
+          default?: {
+            content?: { "application/json"?: { schema?: JsonSchema } };
+          };
+        };
+      };
+    }
+  >;
+  components?: { schemas?: Record<string, JsonSchema> };
+}
+
+/** Schema keywords that only annotate a schema and never affect validation. */
+const ANNOTATIONS = new Set(["title", "description", "example", "examples"]);
+
+/**
+ * Removes the annotations of a schema and of all its subschemas. Property maps are walked
+ * by key, so that properties named like an annotation (e.g. `description`) are kept.
+ */
+function stripAnnotations(schema: JsonSchema): JsonSchema {
+  const result: JsonSchema = {};
+  for (const [key, value] of Object.entries(schema)) {
+    if (ANNOTATIONS.has(key)) continue;
+    if (key === "properties") {
+      result.properties = Object.fromEntries(
+        Object.entries(value as Record<string, JsonSchema>).map(
+          ([name, property]) => [name, stripAnnotations(property)]
+        )
+      );
+    } else if (key === "oneOf" || key === "anyOf" || key === "allOf") {
+      result[key] = (value as JsonSchema[]).map(stripAnnotations);
+    } else if (
+      (key === "items" || key === "additionalProperties") &&
+      typeof value === "object" &&
+      value !== null
+    ) {
+      result[key] = stripAnnotations(value as JsonSchema);
+    } else {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+/**
+ * Renders the generated schemas module for an OpenAPI specification.
+ *
+ * @param {OpenApiSchemaSpec} spec - The parsed `openapi.json`.
+ * @returns {string} The TypeScript source of `src/client/generated/schemas.ts`.
+ *
+ * @example
+ * ```typescript
+ * const spec = JSON.parse(await Deno.readTextFile("openapi.json"));
+ * await Deno.writeTextFile("src/client/generated/schemas.ts", renderSchemas(spec));
+ * ```
+ */
+export function renderSchemas(spec: OpenApiSchemaSpec): string {
+  const commands: Record<
+    string,
+    { request?: JsonSchema; response?: JsonSchema }
+  > = {};
+  // Commands are sorted so that the output does not depend on the order of the specification.
+  const entries = Object.entries(spec.paths).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [path, item] of entries) {
+    const match = path.match(/^\/command\/([a-z0-9-]+)$/);
+    if (!match || !item.post) continue;
+    const request =
+      item.post.requestBody?.content?.["application/json"]?.schema;
+    const response =
+      item.post.responses?.default?.content?.["application/json"]?.schema;
+    commands[match[1]] = {
+      ...(request ? { request: stripAnnotations(request) } : {}),
+      ...(response ? { response: stripAnnotations(response) } : {}),
+    };
+  }
+
+  const components = Object.fromEntries(
+    Object.entries(spec.components?.schemas ?? {})
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([name, schema]) => [name, stripAnnotations(schema)])
+  );
+
+  return [
+    "/**",
+    " * @file This file was auto-generated from `openapi.json` by `src/scripts/generate.ts`.",
+    " * Do not make direct changes to the file; run `deno task gen` instead.",
+    " *",
+    " * @module",
+    " * @packageDocumentation",
+    " */",
+    "",
+    'import type { JsonSchema } from "../_internals/schema.ts";',
+    "",
+    "/** The request and response schemas of each command, keyed by command name. */",
+    "export const commandSchemas: Record<",
+    "  string,",
+    "  { request?: JsonSchema; response?: JsonSchema }",
+    `> = ${JSON.stringify(commands, null, 2)};`,
+    "",
+    "/** The component schemas that `$ref`s point to, keyed by name. */",
+    `export const componentSchemas: Record<string, JsonSchema> = ${JSON.stringify(
+      components,
+      null,
+      2
+    )};`,
+    "",
+  ].join("\n");
+}
@@ -0,0 +1,286 @@
+/**
+ * @file This module renders the source of `src/client/generated/services.ts`: one command class
+ * per API group, with one typed method per `/command/*` path of the OpenAPI specification.
+ *
+ * @remarks
+ * The rendered methods follow the same shape as the hand-written services: each one returns a
+ * {@link RequestBuilder} for a `POST` to `/api/rpc/command/<name>`, typed with the exact request body
+ * and, when the specification declares one, the response body from the generated `paths` type.
+ * Hand-written services keep their role as the place for richer types and multi-request helpers,
+ * while the generated classes guarantee that every command of the specification is reachable.
+ *
+ * Commands are grouped by their first OpenAPI tag. The Penpot specification currently ships without
+ * tags, so untagged commands are grouped with {@link groupForCommand}: a heuristic that matches the
+ * command name against the regular expressions of {@link COMMAND_GROUPS}, chosen to mirror the
+ * hand-written service namespaces. These groups, and the `client.commands.<group>` properties and
+ * `@see` anchors derived from them, are therefore not data from `openapi.json`; a command may move
+ * to another group when the patterns change, or when the specification starts to declare tags.
+ *
+ * This module is pure (it only transforms the parsed specification into a string), so it can be
+ * exercised without file system access.
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * The subset of an OpenAPI 3 document that the service generator reads.
+ */
+export interface OpenApiSpec {
+  paths: Record<
+    string,
+    {
+      post?: {
+        description?: string | null;
+        deprecated?: boolean;
+        tags?: string[];
+        requestBody?: {
+          content?: {
+            "application/json"?: {
+              schema?: {
+                properties?: Record<string, { $ref?: string }>;
+                required?: string[];
+              };
+            };
+          };
+        };
+        responses?: {
+          default?: { content?: { "application/json"?: unknown } };
+        };
+      };
+    }
+  >;
+}
+
+/**
+ * Heuristic groups for untagged commands, checked in order; the first matching pattern wins.
+ * More specific patterns come first, e.g. `get-team-shared-files` belongs to the libraries and
+ * `get-team-recent-files` to the files, not to the teams.
+ */
+const COMMAND_GROUPS: Array<[group: string, pattern: RegExp]> = [
+  ["AccessTokens", /access-token/],
+  ["Webhooks", /webhook/],
+  ["Fonts", /font/],
+  ["Comments", /comment|thread/],
+  ["Auth", /^(login|logout)|^get-profile$/],
+  ["Profile", /profile|register|recover|verify-token|email/],
+  ["Libraries", /librar|shared/],
+  [
+    "Files",
+    /file|page|snapshot|thumbnail|media|binfile|template|view-only|share-link/,
+  ],
+  ["Teams", /team/],
+  ["Projects", /project/],
+];
+
+/** The group of commands that match none of the {@link COMMAND_GROUPS}. */
+const FALLBACK_GROUP = "Misc";
+
+/** The schema reference of uploaded files, which are sent as multipart form data. */
+const UPLOAD_REF = "#/components/schemas/appMedia$upload";
+
+/**
+ * Determines the group of an untagged command from its name.
+ *
+ * @param {string} command - The command name, e.g. `"get-team-members"`.
+ * @returns {string} The PascalCase group name, e.g. `"Teams"`.
+ */
+export function groupForCommand(command: string): string {
+  for (const [group, pattern] of COMMAND_GROUPS) {
+    if (pattern.test(command)) return group;
+  }
+  return FALLBACK_GROUP;
+}
+
+/**
+ * Converts a kebab-case command name into a camelCase method name.
+ */
+function toCamelCase(command: string): string {
+  return command.replace(/-([a-z0-9])/g, (_, char: string) =>
+    char.toUpperCase()
+  );
+}
+
+/**
+ * Converts a PascalCase group name into the camelCase property that exposes it.
+ */
+function toPropertyName(group: string): string {
+  return group.charAt(0).toLowerCase() + group.slice(1);
+}
+
+/**
+ * Renders the doc comment and body of one command method.
+ */
+function renderMethod(
+  group: string,
+  command: string,
+  operation: NonNullable<OpenApiSpec["paths"][string]["post"]>
+): string {
+  const path = `/command/${command}`;
+  const schema = operation.requestBody?.content?.["application/json"]?.schema;
+  const properties = schema?.properties ?? {};
+  const isUpload = properties.file?.$ref === UPLOAD_REF;
+  const hasRequired = (schema?.required ?? []).length > 0;
+  const hasResponse =
+    operation.responses?.default?.content?.["application/json"] !== undefined;
+
+  let bodyType = `RequestBody<"${path}">`;
+  if (isUpload) bodyType = `WithUpload<${bodyType}>`;
+  const resultType = hasResponse ? `ResponseBody<"${path}">` : "unknown";
+  const param = hasRequired ? `params: ${bodyType}` : `params?: ${bodyType}`;
+
+  // Wrap long signatures the way the formatter does for the hand-written services.
+  const name = toCamelCase(command);
+  const returns = `RequestBuilder<${resultType}>`;
+  let signature = `  public ${name}(${param}): ${returns} {`;
+  if (signature.length > 80) {
+    signature = `  public ${name}(\n    ${param}\n  ): ${returns} {`;
+  }
+
+  const summary =
+    operation.description?.trim() || `Sends the \`${command}\` command.`;
+  const lines = [
+    "  /**",
+    ...summary.split("\n").map((line) => `   * ${line.trim()}`.trimEnd()),
+    "   *",
+    `   * This method sends a \`POST\` request to the \`/api/rpc/command/${command}\` endpoint.`,
+  ];
+  if (isUpload) {
+    lines.push(
+      "   * Because the payload carries a binary `file`, `sendRequest` sends it as `multipart/form-data`."
+    );
+  }
+  if (operation.deprecated) {
+    lines.push(
+      "   *",
+      "   * @deprecated The command is deprecated in the OpenAPI specification."
+    );
+  }
+  lines.push(
+    "   *",
+    `   * @param {${bodyType}} ${
+      hasRequired ? "params" : "[params]"
+    } - The request body of the command.`,
+    `   * @returns {RequestBuilder<${resultType}>} A {@link RequestBuilder} instance for this API call.`,
+    `   * @see https://design.penpot.app/api-docs/index.html#/${group}/${command}`,
+    "   */",
+    signature,
+    "    return new RequestBuilder(",
+    "      this.config,",
+    '      "POST",',
+    `      "/api/rpc/command/${command}",`,
+    "      params",
+    "    );",
+    "  }"
+  );
+  return lines.join("\n");
+}
+
+/**
+ * Renders the generated services module for an OpenAPI specification.
+ *
+ * @param {OpenApiSpec} spec - The parsed `openapi.json`.
+ * @returns {string} The TypeScript source of `src/client/generated/services.ts`.
+ *
+ * @example
+ * ```typescript
+ * const spec = JSON.parse(await Deno.readTextFile("openapi.json"));
+ * await Deno.writeTextFile("src/client/generated/services.ts", renderServices(spec));
+ * ```
+ */
+export function renderServices(spec: OpenApiSpec): string {
+  const groups = new Map<string, string[]>();
+  // Commands are sorted so that the output does not depend on the order of the specification.
+  const entries = Object.entries(spec.paths).sort(([a], [b]) =>
+    a.localeCompare(b)
+  );
+  for (const [path, item] of entries) {
+    const match = path.match(/^\/command\/([a-z0-9-]+)$/);
+    if (!match || !item.post) continue;
+    const command = match[1];
+    const group = item.post.tags?.[0] ?? groupForCommand(command);
+    const methods = groups.get(group) ?? [];
+    methods.push(renderMethod(group, command, item.post));
+    groups.set(group, methods);
+  }
+
+  const names = [...groups.keys()].sort();
+  const classes = names.map((group) =>
+    [
+      "/**",
+      ` * The \`${group}\` commands of the Penpot RPC API.`,
+      " *",
+      ` * @class ${group}Commands`,
+      " * @private {PenpotClientConfig} config - The client configuration inherited from the main {@link PenpotClient} instance.",
+      " */",
+      `export class ${group}Commands {`,
+      "  private config: PenpotClientConfig;",
+      "",
+      "  /** @internal - Instances are created by {@link PenpotCommands}. */",
+      "  constructor(config: PenpotClientConfig) {",
+      "    this.config = config;",
+      "  }",
+      "",
+      groups.get(group)!.join("\n\n"),
+      "}",
+    ].join("\n")
+  );
+
+  const aggregate = [
+    "/**",
+    " * Every command of the Penpot RPC API, grouped by domain.",
+    " * Exposed as `client.commands` on the main {@link PenpotClient}.",
+    " *",
+    " * @class PenpotCommands",
+    " */",
+    "export class PenpotCommands {",
+    ...names.map(
+      (group) => `  public readonly ${toPropertyName(group)}: ${group}Commands;`
+    ),
+    "",
+    "  /** @internal - Instances are created by the main {@link PenpotClient}. */",
+    "  constructor(config: PenpotClientConfig) {",
+    ...names.map(
+      (group) =>
+        `    this.${toPropertyName(group)} = new ${group}Commands(config);`
+    ),
+    "  }",
+    "}",
+  ].join("\n");
+
+  return [
+    "/**",
+    " * @file This file was auto-generated from `openapi.json` by `src/scripts/generate.ts`.",
+    " * Do not make direct changes to the file; run `deno task gen` instead.",
+    " *",
+    " * @module",
+    " * @packageDocumentation",
+    " */",
+    "",
+    'import { RequestBuilder } from "../requestBuilder.ts";',
+    'import type { PenpotClientConfig } from "../../index.ts";',
+    'import type { paths } from "./types.ts";',
+    "",
+    "/** The JSON request body of a command path. */",
+    "type RequestBody<P extends keyof paths> =",
+    '  paths[P]["post"]["requestBody"]["content"]["application/json"];',
+    "",
+    "/** The JSON response body of a command path that declares one. */",
+    'type ResponseBody<P extends keyof paths> = paths[P]["post"] extends {',
+    '  responses: { default: { content: { "application/json": infer R } } };',
+    "}",
+    "  ? R",
+    "  : unknown;",
+    "",
+    "/**",
+    " * A request body whose uploaded `file` is sent as multipart form data.",
+    " * A `ReadableStream` is streamed to the server without being buffered in memory.",
+    " */",
+    'type WithUpload<T> = Omit<T, "file"> & {',
+    "  file: Uint8Array | Blob | ReadableStream<Uint8Array>;",
+    "};",
+    "",
+    ...classes.flatMap((source) => [source, ""]),
+    aggregate,
+    "",
+  ].join("\n");
+}
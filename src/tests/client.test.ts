@@ -6,9 +6,14 @@ import {
   afterEach,
 } from "jsr:@std/testing@1.0.14/bdd";
 import { type Spy as _Spy, type Stub, stub } from "jsr:@std/testing@1.0.14/mock";
-import { assertEquals, assertInstanceOf } from "jsr:@std/assert";
+import { assertEquals, assertInstanceOf, assertRejects } from "jsr:@std/assert";
 import { PenpotClient } from "../index.ts";
-import { ApiHttpError } from "../client/errors.ts";
+import {
+  ApiAuthenticationError,
+  ApiClientError,
+  ApiHttpError,
+  ApiNotFoundError,
+} from "../client/errors.ts";
 import type { paths } from "../client/generated/types.ts";
 
 describe("PenpotClient Integration", () => {
@@ -105,4 +110,446 @@ describe("PenpotClient Integration", () => {
       "auth-token=override-for-logout"
     );
   });
+
+  it("should expose the projects namespace and send its command payload", async () => {
+    const mockProject = {
+      id: "project-123",
+      teamId: "team-123",
+      name: "New Project",
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(JSON.stringify(mockProject), {
+          headers: { "Content-Type": "application/json" },
+        })
+      )
+    );
+
+    const { data, error } = await client.projects
+      .createProject({ teamId: "team-123", name: "New Project" })
+      .exec();
+
+    assertEquals(error, null);
+    assertEquals(data, mockProject);
+
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(
+      request.url,
+      "https://mock.penpot.app/api/rpc/command/create-project"
+    );
+    assertEquals(await request.json(), {
+      "team-id": "team-123",
+      name: "New Project",
+    });
+  });
+
+  it("should upload the team photo as multipart form data", async () => {
+    const { error } = await client.teams
+      .updateTeamPhoto({
+        teamId: "team-123",
+        file: new Uint8Array([137, 80, 78, 71]),
+      })
+      .exec();
+
+    assertEquals(error, null);
+
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(
+      request.url,
+      "https://mock.penpot.app/api/rpc/command/update-team-photo"
+    );
+    const form = await request.formData();
+    assertEquals(form.get("team-id"), "team-123");
+    assertInstanceOf(form.get("file"), Blob);
+  });
+
+  it("should join a comment thread with its comments and authors", async () => {
+    const responses: Record<string, unknown> = {
+      "get-comment-thread": { id: "thread-1", ownerId: "user-1", seqn: 1 },
+      "get-comments": [
+        { id: "c-1", threadId: "thread-1", ownerId: "user-1", content: "Hi" },
+        { id: "c-2", threadId: "thread-1", ownerId: "user-2", content: "Yo" },
+      ],
+      "get-profiles-for-file-comments": [
+        { id: "user-1", fullname: "Ada" },
+        { id: "user-2", fullname: "Grace" },
+      ],
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", (input) => {
+      const command = new URL((input as Request).url).pathname.split("/").pop()!;
+      return Promise.resolve(
+        new Response(JSON.stringify(responses[command]), {
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    });
+
+    const { data, error } = await client.comments.getThreadWithComments({
+      fileId: "file-1",
+      id: "thread-1",
+    });
+
+    assertEquals(error, null);
+    assertEquals(fetchStub.calls.length, 3);
+    assertEquals(data?.owner?.fullname, "Ada");
+    assertEquals(
+      data?.comments.map((c) => c.author?.fullname),
+      ["Ada", "Grace"]
+    );
+  });
+
+  it("should rotate an access token and revoke the previous one", async () => {
+    const responses: Record<string, unknown> = {
+      "get-access-tokens": [
+        { id: "token-old", name: "ci" },
+        { id: "token-other", name: "local" },
+      ],
+      "create-access-token": { id: "token-new", name: "ci", token: "new-secret" },
+      "get-profile": { id: "user-1" },
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", (input) => {
+      const command = new URL((input as Request).url).pathname.split("/").pop()!;
+      return Promise.resolve(
+        responses[command] === undefined
+          ? new Response(null, { status: 204 })
+          : new Response(JSON.stringify(responses[command]), {
+            headers: { "Content-Type": "application/json" },
+          })
+      );
+    });
+
+    const { data, error } = await client.accessTokens.rotateAccessToken({
+      name: "ci",
+      expiresInDays: 30,
+    });
+
+    assertEquals(error, null);
+    assertEquals(data?.revoked, ["token-old"]);
+    assertInstanceOf(data?.client, PenpotClient);
+
+    const requests = fetchStub.calls.map((call) => call.args[0] as Request);
+    assertEquals(await requests[1].json(), { name: "ci", expiration: "720h" });
+    // The profile check and the revocation are authenticated with the new token.
+    assertEquals(requests[2].headers.get("Cookie"), "auth-token=new-secret");
+    assertEquals(requests[3].headers.get("Cookie"), "auth-token=new-secret");
+    assertEquals(await requests[3].json(), { id: "token-old" });
+  });
+
+  it("should delete the new access token if the server answers with the anonymous profile", async () => {
+    const responses: Record<string, unknown> = {
+      "get-access-tokens": [{ id: "token-old", name: "ci" }],
+      "create-access-token": { id: "token-new", name: "ci", token: "new-secret" },
+      "get-profile": { id: "00000000-0000-0000-0000-000000000000", fullname: "Anonymous User" },
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", (input) => {
+      const command = new URL((input as Request).url).pathname.split("/").pop()!;
+      return Promise.resolve(
+        responses[command] === undefined
+          ? new Response(null, { status: 204 })
+          : new Response(JSON.stringify(responses[command]), {
+            headers: { "Content-Type": "application/json" },
+          })
+      );
+    });
+
+    const { data, error } = await client.accessTokens.rotateAccessToken({ name: "ci" });
+
+    assertEquals(data, null);
+    assertInstanceOf(error, ApiAuthenticationError);
+    const requests = fetchStub.calls.map((call) => call.args[0] as Request);
+    assertEquals(requests.length, 4);
+    // The new token is deleted with the current credentials, and the previous one is kept.
+    assertEquals(requests[3].url.endsWith("/delete-access-token"), true);
+    assertEquals(requests[3].headers.get("Cookie"), "auth-token=client-token");
+    assertEquals(await requests[3].json(), { id: "token-new" });
+  });
+
+  it("should log in with LDAP and authenticate with the session cookie", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", (input) => {
+      const command = new URL((input as Request).url).pathname.split("/").pop()!;
+      if (command === "login-with-ldap") {
+        return Promise.resolve(
+          new Response(JSON.stringify({ id: "user-1", fullname: "Ada" }), {
+            headers: {
+              "Content-Type": "application/json",
+              "Set-Cookie": "auth-token=session-123; Path=/; HttpOnly",
+            },
+          })
+        );
+      }
+      return Promise.resolve(new Response(null, { status: 204 }));
+    });
+
+    const { data: sessionClient, error } = await PenpotClient.fromCredentials(
+      { baseUrl: "https://mock.penpot.app" },
+      { email: "ada", password: "secret", method: "ldap" }
+    );
+    assertEquals(error, null);
+
+    await sessionClient!.logout();
+    await sessionClient!.auth.getProfile().exec();
+
+    const [login, logout, afterLogout] = fetchStub.calls.map(
+      (call) => call.args[0] as Request
+    );
+    assertEquals(
+      login.url,
+      "https://mock.penpot.app/api/rpc/command/login-with-ldap"
+    );
+    assertEquals(login.headers.get("Cookie"), null);
+    assertEquals(logout.headers.get("Cookie"), "auth-token=session-123");
+    assertEquals(afterLogout.headers.get("Cookie"), null);
+  });
+
+  it("should upload the profile photo as multipart form data", async () => {
+    const { error } = await client.profile
+      .updateProfilePhoto({ file: new Uint8Array([255, 216, 255, 224]) })
+      .exec();
+
+    assertEquals(error, null);
+
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(
+      request.url,
+      "https://mock.penpot.app/api/rpc/command/update-profile-photo"
+    );
+    const form = await request.formData();
+    assertInstanceOf(form.get("file"), Blob);
+  });
+
+  it("should restore the snapshot when the wrapped mutation throws", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", (input) => {
+      const command = new URL((input as Request).url).pathname.split("/").pop()!;
+      return Promise.resolve(
+        command === "create-file-snapshot"
+          ? new Response(JSON.stringify({ id: "snap-1", label: "Before" }), {
+            headers: { "Content-Type": "application/json" },
+          })
+          : new Response(null, { status: 204 })
+      );
+    });
+
+    await assertRejects(
+      () =>
+        client.files.withSnapshot("file-1", "Before", () => {
+          throw new Error("bulk edit failed");
+        }),
+      Error,
+      "bulk edit failed"
+    );
+
+    const restore = fetchStub.calls[1].args[0] as Request;
+    assertEquals(
+      restore.url,
+      "https://mock.penpot.app/api/rpc/command/restore-file-snapshot"
+    );
+    assertEquals(await restore.json(), { "file-id": "file-1", id: "snap-1" });
+  });
+
+  it("should diff a saved file state against the current file", async () => {
+    const pageId = "a03ea8b8-fc8a-8124-8006-78afc3fac2fa";
+    const newPageId = "a03ea8b8-fc8a-8124-8006-78afc3fac2fb";
+    const [rectId, textId, frameId] = [
+      "a03ea8b8-fc8a-8124-8006-7c45ed7029c1",
+      "a03ea8b8-fc8a-8124-8006-7c45ed7029c2",
+      "a03ea8b8-fc8a-8124-8006-7c45ed7029c3",
+    ];
+    const before = {
+      data: {
+        pagesIndex: {
+          [pageId]: {
+            name: "Home",
+            objects: {
+              [rectId]: { type: "rect", x: 0 },
+              [textId]: { type: "text", x: 0 },
+            },
+          },
+        },
+      },
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({
+            data: {
+              "pages-index": {
+                [pageId]: {
+                  name: "Home",
+                  objects: {
+                    [rectId]: { type: "rect", x: 10 },
+                    [frameId]: { type: "frame", x: 0 },
+                  },
+                },
+                [newPageId]: { name: "Drafts", objects: {} },
+              },
+            },
+          }),
+          { headers: { "Content-Type": "application/json" } }
+        )
+      )
+    );
+
+    const { data: diff, error } = await client.files.diffFileState("file-1", before);
+
+    assertEquals(error, null);
+    assertEquals(diff, {
+      pages: { added: [newPageId], removed: [], changed: [pageId] },
+      objects: {
+        added: [{ pageId, id: frameId }],
+        removed: [{ pageId, id: textId }],
+        changed: [{ pageId, id: rectId }],
+      },
+    });
+  });
+
+  it("should build the library dependency graph of a team", async () => {
+    const references: Record<string, unknown[]> = {
+      "lib-icons": [{ id: "lib-ds", name: "Design System" }],
+      "lib-ds": [
+        { id: "file-app", name: "App" },
+        { id: "file-web", name: "Website" },
+      ],
+    };
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", async (input) => {
+      const request = input as Request;
+      const command = new URL(request.url).pathname.split("/").pop()!;
+      const body = command === "get-team-shared-files"
+        ? [
+          { id: "lib-ds", name: "Design System" },
+          { id: "lib-icons", name: "Icons" },
+        ]
+        : references[(await request.json())["file-id"]];
+      return new Response(JSON.stringify(body), {
+        headers: { "Content-Type": "application/json" },
+      });
+    });
+
+    const { data, error } = await client.libraries.getLibraryDependencyGraph({
+      teamId: "team-123",
+    });
+
+    assertEquals(error, null);
+    assertEquals(data?.dependents, {
+      "lib-ds": ["file-app", "file-web"],
+      "lib-icons": ["lib-ds"],
+    });
+    assertEquals(data?.dependencies, {
+      "file-app": ["lib-ds"],
+      "file-web": ["lib-ds"],
+      "lib-ds": ["lib-icons"],
+    });
+    assertEquals(data?.files["file-web"].name, "Website");
+  });
+
+  it("should move a set of files to another project", async () => {
+    const { error } = await client.files
+      .moveFiles({ ids: ["file-1", "file-2"], projectId: "project-2" })
+      .exec();
+
+    assertEquals(error, null);
+
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(
+      request.url,
+      "https://mock.penpot.app/api/rpc/command/move-files"
+    );
+    assertEquals(await request.json(), {
+      ids: ["file-1", "file-2"],
+      "project-id": "project-2",
+    });
+  });
+
+  it("should send the export options, embedding assets instead of libraries", async () => {
+    await client.files.exportFile({ id: "file-1" }).exec();
+    await client.files.exportFile({ id: "file-1", embedAssets: true }).exec();
+    await client.files
+      .exportFile({ id: "file-1", includeLibraries: false, version: 1 })
+      .exec();
+
+    const bodies = await Promise.all(
+      fetchStub.calls.map((call) => (call.args[0] as Request).json())
+    );
+    assertEquals(bodies, [
+      { "file-id": "file-1", "include-libraries": true, "embed-assets": false, version: 3 },
+      { "file-id": "file-1", "include-libraries": false, "embed-assets": true, version: 3 },
+      { "file-id": "file-1", "include-libraries": false, "embed-assets": false, version: 1 },
+    ]);
+  });
+
+  it("should return the ids of every file imported from a bundle", async () => {
+    const fileIds = [
+      "a03ea8b8-fc8a-8124-8006-7c45ed7029cf",
+      "a03ea8b8-fc8a-8124-8006-78afc3fac2fa",
+    ];
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          `event: end\ndata: ${JSON.stringify(fileIds.map((id) => `~u${id}`))}\n\n`,
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+      )
+    );
+
+    const { data, error } = await client.files
+      .importFile({ projectId: "project-1", name: "Bundle", file: new Uint8Array([1]) })
+      .exec();
+
+    assertEquals(error, null);
+    assertEquals(data, { fileId: fileIds[0], fileIds });
+  });
+
+  it("should return data from unwrap and when the builder is awaited", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(JSON.stringify({ id: "user-1" }), {
+          headers: { "Content-Type": "application/json" },
+        })
+      )
+    );
+
+    assertEquals(await client.auth.getProfile().unwrap(), { id: "user-1" });
+    assertEquals(await client.auth.getProfile(), { id: "user-1" });
+    assertEquals(fetchStub.calls.length, 2);
+  });
+
+  it("should throw typed errors from unwrap and normalise unexpected failures", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(JSON.stringify({ type: "not-found", code: "object-not-found" }), {
+          status: 404,
+          headers: { "Content-Type": "application/json" },
+        })
+      )
+    );
+
+    const notFound = await assertRejects(
+      () => client.files.getFile({ id: "missing" }).unwrap(),
+      ApiNotFoundError
+    );
+    assertEquals(notFound.code, "object-not-found");
+
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response("{not json", {
+          headers: { "Content-Type": "application/json" },
+        })
+      )
+    );
+
+    const { error } = await client.auth.getProfile().exec();
+    assertInstanceOf(error, ApiClientError);
+    assertInstanceOf(error.cause, SyntaxError);
+  });
 });
@@ -1,7 +1,15 @@
 /// <reference lib="deno.ns" />
 import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
 import { assertEquals, assertInstanceOf } from "jsr:@std/assert";
-import { ApiClientError, ApiHttpError } from "../client/errors.ts";
+import {
+  ApiAuthenticationError,
+  ApiClientError,
+  ApiHttpError,
+  ApiNotFoundError,
+  ApiRateLimitError,
+  ApiValidationError,
+  createHttpError,
+} from "../client/errors.ts";
 
 describe("Custom Error Classes", () => {
   describe("ApiHttpError", () => {
@@ -26,6 +34,57 @@ describe("Custom Error Classes", () => {
     });
   });
 
+  describe("createHttpError", () => {
+    it("should select the subclass from the Penpot error type and parse its fields", () => {
+      const details = {
+        type: "validation",
+        code: "params-validation",
+        hint: "invalid params",
+        explain: "id: should be a uuid",
+      };
+      const error = createHttpError(
+        new Response(null, { status: 400, statusText: "Bad Request" }),
+        details
+      );
+
+      assertInstanceOf(error, ApiValidationError);
+      assertInstanceOf(error, ApiHttpError);
+      assertEquals(error.name, "ApiValidationError");
+      assertEquals(error.type, "validation");
+      assertEquals(error.code, "params-validation");
+      assertEquals(error.hint, "invalid params");
+      assertEquals((error as ApiValidationError).explain, "id: should be a uuid");
+      assertEquals(error.details, details);
+    });
+
+    it("should prefer the error type over the HTTP status", () => {
+      const error = createHttpError(new Response(null, { status: 400 }), {
+        type: "not-found",
+        code: "object-not-found",
+      });
+      assertInstanceOf(error, ApiNotFoundError);
+    });
+
+    it("should fall back to the HTTP status for other bodies", () => {
+      assertInstanceOf(
+        createHttpError(new Response(null, { status: 401 }), "Unauthorized"),
+        ApiAuthenticationError
+      );
+      const rateLimited = createHttpError(
+        new Response(null, { status: 429, headers: { "Retry-After": "3" } }),
+        undefined
+      );
+      assertInstanceOf(rateLimited, ApiRateLimitError);
+      assertEquals((rateLimited as ApiRateLimitError).retryAfterMs, 3000);
+
+      const serverError = createHttpError(new Response(null, { status: 502 }), {
+        type: "internal",
+      });
+      assertEquals(serverError.constructor, ApiHttpError);
+      assertEquals(serverError.type, "internal");
+    });
+  });
+
   describe("ApiClientError", () => {
     it("should correctly construct with a message", () => {
       const error = new ApiClientError("Network request failed");
@@ -0,0 +1,185 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { stub } from "jsr:@std/testing@1.0.14/mock";
+import { assertEquals } from "jsr:@std/assert";
+import { brotliCompressSync } from "node:zlib";
+import { PenpotClient } from "../index.ts";
+import {
+  detectFontMimeType,
+  readFontMetadata,
+} from "../client/_internals/fontMetadata.ts";
+import { decodeTransit } from "../client/_internals/transit.ts";
+import { commandSchemas } from "../client/generated/schemas.ts";
+
+/**
+ * Builds a minimal TrueType font containing only a `name` table (with a Windows
+ * English family name) and an `OS/2` table (with weight and fsSelection).
+ */
+function createMockTtf(family: string, weight: number, italic: boolean) {
+  // name table: format 0, one record, UTF-16BE string data.
+  const nameString = new Uint8Array(family.length * 2);
+  const nameStringView = new DataView(nameString.buffer);
+  for (let i = 0; i < family.length; i++) {
+    nameStringView.setUint16(i * 2, family.charCodeAt(i));
+  }
+  const name = new Uint8Array(6 + 12 + nameString.length);
+  const nameView = new DataView(name.buffer);
+  nameView.setUint16(2, 1); // count
+  nameView.setUint16(4, 18); // stringOffset
+  nameView.setUint16(6, 3); // platformID: Windows
+  nameView.setUint16(8, 1); // encodingID: Unicode BMP
+  nameView.setUint16(10, 0x0409); // languageID: en-US
+  nameView.setUint16(12, 1); // nameID: family
+  nameView.setUint16(14, nameString.length); // length
+  nameView.setUint16(16, 0); // offset
+  name.set(nameString, 18);
+
+  // OS/2 table: only usWeightClass and fsSelection are relevant.
+  const os2 = new Uint8Array(78);
+  const os2View = new DataView(os2.buffer);
+  os2View.setUint16(4, weight);
+  os2View.setUint16(62, italic ? 0x0001 : 0x0040);
+
+  const tables: Array<[string, Uint8Array]> = [
+    ["OS/2", os2],
+    ["name", name],
+  ];
+  const headerLength = 12 + tables.length * 16;
+  const font = new Uint8Array(
+    headerLength + tables.reduce((sum, [, t]) => sum + t.length, 0)
+  );
+  const fontView = new DataView(font.buffer);
+  fontView.setUint32(0, 0x00010000);
+  fontView.setUint16(4, tables.length);
+
+  let offset = headerLength;
+  tables.forEach(([tag, table], i) => {
+    const record = 12 + i * 16;
+    for (let c = 0; c < 4; c++) fontView.setUint8(record + c, tag.charCodeAt(c));
+    fontView.setUint32(record + 8, offset);
+    fontView.setUint32(record + 12, table.length);
+    font.set(table, offset);
+    offset += table.length;
+  });
+  return font;
+}
+
+/**
+ * Wraps the tables of an sfnt font in a WOFF2 container. The `name` table uses its known-table
+ * index and `OS/2` an explicit tag, to cover both kinds of table directory entries.
+ */
+function createMockWoff2(sfnt: Uint8Array) {
+  const sfntView = new DataView(sfnt.buffer);
+  const tables: Array<[string, Uint8Array]> = [];
+  for (let i = 0; i < sfntView.getUint16(4); i++) {
+    const record = 12 + i * 16;
+    const tag = new TextDecoder().decode(sfnt.subarray(record, record + 4));
+    const offset = sfntView.getUint32(record + 8);
+    tables.push([tag, sfnt.subarray(offset, offset + sfntView.getUint32(record + 12))]);
+  }
+
+  const directory: number[] = [];
+  for (const [tag, table] of tables) {
+    if (tag === "name") {
+      directory.push(5);
+    } else {
+      directory.push(63, ...new TextEncoder().encode(tag));
+    }
+    // UIntBase128 length; the mock tables are shorter than 16384 bytes.
+    directory.push(0x80 | (table.length >> 7), table.length & 0x7f);
+  }
+  const compressed = brotliCompressSync(
+    new Uint8Array(tables.flatMap(([, table]) => [...table]))
+  );
+
+  const font = new Uint8Array(48 + directory.length + compressed.length);
+  const view = new DataView(font.buffer);
+  font.set(new TextEncoder().encode("wOF2"), 0);
+  view.setUint32(4, 0x00010000); // flavor
+  view.setUint32(8, font.length);
+  view.setUint16(12, tables.length);
+  view.setUint32(20, compressed.length); // totalCompressedSize
+  font.set(directory, 48);
+  font.set(compressed, 48 + directory.length);
+  return font;
+}
+
+describe("readFontMetadata", () => {
+  it("should read family, weight and style from a TrueType font", async () => {
+    const metadata = await readFontMetadata(
+      createMockTtf("Brand Sans", 600, true)
+    );
+
+    assertEquals(metadata, {
+      mtype: "font/ttf",
+      fontFamily: "Brand Sans",
+      fontWeight: 600,
+      fontStyle: "italic",
+    });
+  });
+
+  it("should read family, weight and style from a WOFF2 font", async () => {
+    const woff2 = createMockWoff2(createMockTtf("Brand Sans", 300, false));
+
+    assertEquals(detectFontMimeType(woff2), "font/woff2");
+    assertEquals(await readFontMetadata(woff2), {
+      mtype: "font/woff2",
+      fontFamily: "Brand Sans",
+      fontWeight: 300,
+      fontStyle: "normal",
+    });
+  });
+
+  it("should return undefined for data that is not a font", async () => {
+    const png = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]);
+
+    assertEquals(await readFontMetadata(png), undefined);
+  });
+});
+
+describe("FontsApi.uploadFontVariant", () => {
+  it("should send the fields of the create-font-variant schema, with the font keyed by MIME type", async () => {
+    const client = new PenpotClient({
+      baseUrl: "https://mock.penpot.app",
+      accessToken: "client-token",
+      validate: { requests: true },
+    });
+    const font = createMockTtf("Brand Sans", 600, true);
+    const fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response('["^ ","~:id","~ua03ea8b8-fc8a-8124-8006-78afc477c885"]', {
+          headers: { "Content-Type": "application/transit+json" },
+        })
+      )
+    );
+
+    try {
+      const { error } = await client.fonts.uploadFontVariant({
+        teamId: "a03ea8b8-fc8a-8124-8006-7c45ed7029cf",
+        fontId: "a03ea8b8-fc8a-8124-8006-78afc477c886",
+        file: font,
+      });
+      assertEquals(error, null);
+
+      const request = fetchStub.calls[0].args[0] as Request;
+      assertEquals(request.headers.get("Content-Type"), "application/transit+json");
+      const body = decodeTransit(await request.text()) as Record<string, unknown>;
+
+      const schema = commandSchemas["create-font-variant"].request as { required: string[] };
+      assertEquals(
+        Object.keys(body).sort(),
+        schema.required.map((key) => key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)).sort()
+      );
+      assertEquals(body, {
+        "team-id": "a03ea8b8-fc8a-8124-8006-7c45ed7029cf",
+        "font-id": "a03ea8b8-fc8a-8124-8006-78afc477c886",
+        "font-family": "Brand Sans",
+        "font-weight": 600,
+        "font-style": "italic",
+        data: { "font/ttf": font },
+      });
+    } finally {
+      fetchStub.restore();
+    }
+  });
+});
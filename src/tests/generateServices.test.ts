@@ -0,0 +1,73 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert";
+import {
+  groupForCommand,
+  renderServices,
+} from "../scripts/generateServices.ts";
+
+describe("groupForCommand", () => {
+  it("should group untagged commands by their name", () => {
+    assertEquals(groupForCommand("get-team-members"), "Teams");
+    assertEquals(groupForCommand("get-team-shared-files"), "Libraries");
+    assertEquals(groupForCommand("get-team-recent-files"), "Files");
+    assertEquals(groupForCommand("login-with-ldap"), "Auth");
+    assertEquals(groupForCommand("update-profile-photo"), "Profile");
+    assertEquals(groupForCommand("push-audit-events"), "Misc");
+  });
+});
+
+describe("renderServices", () => {
+  it("should emit a typed method per command, grouped by tag when present", () => {
+    const source = renderServices({
+      paths: {
+        "/command/get-file": {
+          post: {
+            description: "Retrieve a file by its ID.",
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: { properties: { id: {} }, required: ["id"] },
+                },
+              },
+            },
+            responses: { default: { content: { "application/json": {} } } },
+          },
+        },
+        "/command/update-team-photo": {
+          post: {
+            tags: ["Teams"],
+            requestBody: {
+              content: {
+                "application/json": {
+                  schema: {
+                    properties: {
+                      teamId: {},
+                      file: { $ref: "#/components/schemas/appMedia$upload" },
+                    },
+                    required: ["teamId", "file"],
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+
+    assertStringIncludes(source, "export class FilesCommands {");
+    assertStringIncludes(
+      source,
+      'public getFile(\n    params: RequestBody<"/command/get-file">\n  ): RequestBuilder<ResponseBody<"/command/get-file">> {'
+    );
+    assertStringIncludes(source, "   * Retrieve a file by its ID.");
+    assertStringIncludes(
+      source,
+      'params: WithUpload<RequestBody<"/command/update-team-photo">>'
+    );
+    assertStringIncludes(
+      source,
+      "  public readonly teams: TeamsCommands;"
+    );
+  });
+});
@@ -0,0 +1,112 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import {
+  type PenpotArchiveFile,
+  readPenpotArchive,
+  writePenpotArchive,
+} from "../client/penpotArchive.ts";
+import { ApiClientError } from "../client/errors.ts";
+import { writeZip } from "../client/_internals/zip.ts";
+
+describe("Penpot archives", () => {
+  const encoder = new TextEncoder();
+  const file: PenpotArchiveFile = {
+    file: { id: "f1", name: "Design system", features: ["components/v2"] },
+    pages: [
+      {
+        page: { id: "p1", name: "Page 1" },
+        shapes: [
+          { id: "s1", type: "frame", name: "Root" },
+          { id: "s2", type: "rect", parentId: "s1", fills: [{ fillColor: "#ff0000" }] },
+        ],
+      },
+    ],
+    components: [{ id: "c1", name: "Button", mainInstanceId: "s1" }],
+    colors: [{ id: "k1", name: "Primary", color: "#ff0000" }],
+    typographies: [],
+    media: [{ id: "m1", name: "logo", mediaId: "o1" }],
+  };
+  const object = {
+    id: "o1",
+    meta: { contentType: "image/png", size: 4 },
+    content: new Uint8Array([0x89, 0x50, 0x4e, 0x47]),
+    extension: ".png",
+  };
+
+  it("should write an archive that reads back to the same content, with a derived manifest", async () => {
+    const data = await writePenpotArchive({
+      files: [file],
+      objects: [object],
+      extraEntries: new Map([["files/f1/tokens.json", encoder.encode("{}")]]),
+    });
+    const archive = await readPenpotArchive(data);
+
+    assertEquals(archive.manifest, {
+      type: "penpot/export-files",
+      version: 1,
+      generatedBy: "penpot-api-client",
+      files: [{ id: "f1", name: "Design system", features: ["components/v2"] }],
+      relations: [],
+    });
+    assertEquals(archive.files, [file]);
+    assertEquals(archive.objects, [object]);
+    assertEquals([...archive.extraEntries.keys()], ["files/f1/tokens.json"]);
+
+    // Writing is deterministic, so the same content produces the same bytes.
+    assertEquals(await writePenpotArchive(archive), data);
+  });
+
+  it("should list empty features in the derived manifest of files without features", async () => {
+    const data = await writePenpotArchive({
+      files: [{ ...file, file: { id: "f2", name: "Sketches" } }],
+    });
+    const { manifest } = await readPenpotArchive(data);
+
+    assertEquals(manifest.files, [{ id: "f2", name: "Sketches", features: [] }]);
+  });
+
+  it("should read entries in any order, e.g. shapes before their page", async () => {
+    const json = (value: unknown) => encoder.encode(JSON.stringify(value));
+    const data = await writeZip([
+      ["files/f1/pages/p1/s1.json", json({ id: "s1", type: "frame" })],
+      ["objects/o1", new Uint8Array([1, 2, 3])],
+      ["files/f1/pages/p1.json", json({ id: "p1", name: "Page 1" })],
+      ["files/f1.json", json({ id: "f1", name: "File" })],
+      ["manifest.json", json({ type: "penpot/export-files", version: 1, files: [{ id: "f1", name: "File" }] })],
+    ]);
+    const archive = await readPenpotArchive(new Blob([data as BlobPart]));
+
+    assertEquals(archive.files[0].file, { id: "f1", name: "File" });
+    assertEquals(archive.files[0].pages, [
+      { page: { id: "p1", name: "Page 1" }, shapes: [{ id: "s1", type: "frame" }] },
+    ]);
+    assertEquals(archive.objects, [
+      { id: "o1", meta: {}, content: new Uint8Array([1, 2, 3]), extension: "" },
+    ]);
+  });
+
+  it("should write and read archives with more than 65535 entries", async () => {
+    const shapes = Array.from({ length: 0x10000 }, (_, i) => ({ id: `s${i}` }));
+    const data = await writePenpotArchive({
+      files: [{ ...file, pages: [{ page: { id: "p1" }, shapes }] }],
+    });
+    const archive = await readPenpotArchive(data);
+
+    assertEquals(archive.files[0].pages[0].shapes.length, 0x10000);
+    assertEquals(archive.files[0].pages[0].shapes.at(-1), { id: "s65535" });
+  });
+
+  it("should reject data that is not a Penpot archive", async () => {
+    await assertRejects(
+      () => readPenpotArchive(encoder.encode("not a zip")),
+      ApiClientError,
+      "Failed to read the Penpot archive",
+    );
+    await assertRejects(
+      async () => readPenpotArchive(await writeZip([["readme.txt", encoder.encode("hi")]])),
+      ApiClientError,
+      "manifest.json is missing",
+    );
+  });
+});
@@ -6,14 +6,35 @@ import {
   it,
 } from "jsr:@std/testing@1.0.14/bdd";
 import { type Spy, type Stub, stub } from "jsr:@std/testing@1.0.14/mock";
-import { assertEquals, assertInstanceOf, assertRejects } from "jsr:@std/assert";
+import {
+  assertEquals,
+  assertInstanceOf,
+  assertLess,
+  assertRejects,
+} from "jsr:@std/assert";
 import { sendRequest } from "../client/_internals/request.ts";
-import { ApiClientError, ApiHttpError } from "../client/errors.ts";
+import {
+  ApiAbortError,
+  ApiClientError,
+  ApiHttpError,
+  ApiSchemaError,
+  ApiTimeoutError,
+} from "../client/errors.ts";
 import type { PenpotClientConfig } from "../index.ts";
+import { openFileStream } from "../client/streams.ts";
 
 // Mock the global fetch function
 let fetchStub: Stub<typeof globalThis, [input: RequestInfo | URL, init?: RequestInit | undefined], Promise<Response>>;
 
+// A server that never answers, until the request is cancelled.
+function hangingFetch(input: RequestInfo | URL): Promise<Response> {
+  const { signal } = input as Request;
+  return new Promise((_, reject) => {
+    if (signal.aborted) reject(signal.reason);
+    signal.addEventListener("abort", () => reject(signal.reason));
+  });
+}
+
 describe("sendRequest", () => {
   const baseClientConfig: PenpotClientConfig = {
     baseUrl: "https://testing.penpot.app",
@@ -124,6 +145,407 @@ describe("sendRequest", () => {
     assertEquals(error.cause, networkError);
   });
 
+  it("should convert JSON keys between camelCase and kebab-case", async () => {
+    const pageId = "a03ea8b8-fc8a-8124-8006-78afc3fac2fa";
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({
+            "file-id": "file-1",
+            data: { "pages-index": { [pageId]: { "page-name": "Home" } } },
+          }),
+          { headers: { "Content-Type": "application/json" } }
+        )
+      )
+    );
+
+    const result = await sendRequest(baseClientConfig, {
+      method: "POST",
+      path: "/api/rpc/command/get-file",
+      body: { fileId: "file-1", features: ["layout/grid"] },
+      headers: new Headers(),
+    });
+
+    assertEquals(result, {
+      fileId: "file-1",
+      data: { pagesIndex: { [pageId]: { pageName: "Home" } } },
+    });
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(await request.json(), {
+      "file-id": "file-1",
+      features: ["layout/grid"],
+    });
+  });
+
+  it("should leave JSON keys untouched when transformKeys is false", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(JSON.stringify({ "file-id": "file-1" }), {
+          headers: { "Content-Type": "application/json" },
+        })
+      )
+    );
+
+    const result = await sendRequest(
+      { ...baseClientConfig, transformKeys: false },
+      {
+        method: "POST",
+        path: "/api/rpc/command/get-file",
+        body: { fileId: "file-1" },
+        headers: new Headers(),
+      }
+    );
+
+    assertEquals(result, { "file-id": "file-1" });
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(await request.json(), { fileId: "file-1" });
+  });
+
+  it("should negotiate transit when wireFormat is transit", async () => {
+    const fileId = "a03ea8b8-fc8a-8124-8006-7c45ed7029cf";
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          `["^ ","~:id","~u${fileId}","~:features",["~#set",["~:layout/grid"]],"~:is-shared",false]`,
+          { headers: { "Content-Type": "application/transit+json" } }
+        )
+      )
+    );
+
+    const result = await sendRequest(
+      { ...baseClientConfig, wireFormat: "transit" },
+      {
+        method: "POST",
+        path: "/api/rpc/command/get-file-info",
+        body: { id: fileId },
+        // The JSON defaults of RequestBuilder are replaced by transit.
+        headers: new Headers({
+          "Content-Type": "application/json",
+          Accept: "application/json",
+        }),
+      }
+    );
+
+    assertEquals(result, {
+      id: fileId,
+      features: new Set(["layout/grid"]),
+      isShared: false,
+    });
+    const request = fetchStub.calls[0].args[0] as Request;
+    assertEquals(request.headers.get("Accept"), "application/transit+json");
+    assertEquals(request.headers.get("Content-Type"), "application/transit+json");
+    assertEquals(await request.text(), `["^ ","~:id","~u${fileId}"]`);
+  });
+
+  it("should retry transient failures of read-only commands", async () => {
+    const responses = [
+      () => Promise.reject(new TypeError("Failed to fetch")),
+      () =>
+        Promise.resolve(
+          new Response("Bad Gateway", {
+            status: 502,
+            headers: { "Retry-After": "0" },
+          })
+        ),
+      () =>
+        Promise.resolve(
+          new Response('{"id":"123"}', {
+            headers: { "Content-Type": "application/json" },
+          })
+        ),
+    ];
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () => responses.shift()!());
+
+    const result = await sendRequest(
+      { ...baseClientConfig, retry: { maxAttempts: 3, baseDelayMs: 0 } },
+      {
+        method: "POST",
+        path: "/api/rpc/command/get-profile",
+        headers: new Headers(),
+      }
+    );
+
+    assertEquals(result, { id: "123" });
+    assertEquals(fetchStub.calls.length, 3);
+  });
+
+  it("should not retry commands that may modify data unless opted in", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(new Response("Service Unavailable", { status: 503 }))
+    );
+    const retry = { maxAttempts: 3, baseDelayMs: 0 };
+    const requestConfig = {
+      method: "POST" as const,
+      path: "/api/rpc/command/export-binfile",
+      body: { fileId: "file-1" },
+      headers: new Headers(),
+    };
+
+    await assertRejects(
+      () => sendRequest({ ...baseClientConfig, retry }, requestConfig),
+      ApiHttpError
+    );
+    assertEquals(fetchStub.calls.length, 1);
+
+    await assertRejects(
+      () =>
+        sendRequest(baseClientConfig, {
+          ...requestConfig,
+          retry: { ...retry, retryNonIdempotent: true },
+        }),
+      ApiHttpError
+    );
+    assertEquals(fetchStub.calls.length, 4);
+  });
+
+  it("should not wait for a Retry-After longer than maxDelayMs", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response("Service Unavailable", {
+          status: 503,
+          headers: { "Retry-After": "86400" },
+        })
+      )
+    );
+
+    const error = await assertRejects(
+      () =>
+        sendRequest(
+          { ...baseClientConfig, retry: { maxAttempts: 3, maxDelayMs: 1000 } },
+          {
+            method: "POST",
+            path: "/api/rpc/command/get-profile",
+            headers: new Headers(),
+          }
+        ),
+      ApiHttpError
+    );
+    assertEquals((error as ApiHttpError).status, 503);
+    assertEquals(fetchStub.calls.length, 1);
+  });
+
+  it("should fail with ApiTimeoutError when the timeout elapses", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", hangingFetch);
+
+    const error = await assertRejects(
+      () =>
+        sendRequest(
+          { ...baseClientConfig, timeoutMs: 1000 },
+          {
+            method: "POST",
+            path: "/api/rpc/command/get-profile",
+            headers: new Headers(),
+            timeoutMs: 10,
+          }
+        ),
+      ApiTimeoutError
+    );
+    assertEquals(error.timeoutMs, 10);
+  });
+
+  it("should fail with ApiAbortError when the signal is aborted", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", hangingFetch);
+    const controller = new AbortController();
+
+    const pending = sendRequest(baseClientConfig, {
+      method: "POST",
+      path: "/api/rpc/command/get-profile",
+      headers: new Headers(),
+      signal: controller.signal,
+    });
+    controller.abort();
+
+    await assertRejects(() => pending, ApiAbortError);
+  });
+
+  it("should stop reading an SSE stream when the request times out", async () => {
+    fetchStub.restore();
+    // An import that reports progress once and then stalls.
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(
+                new TextEncoder().encode('event: progress\ndata: {}\n\n')
+              );
+            },
+          }),
+          { headers: { "Content-Type": "text/event-stream" } }
+        )
+      )
+    );
+
+    await assertRejects(
+      () =>
+        sendRequest(
+          { ...baseClientConfig, timeoutMs: 10 },
+          {
+            method: "POST",
+            path: "/api/rpc/command/import-binfile",
+            headers: new Headers(),
+          }
+        ),
+      ApiTimeoutError
+    );
+  });
+
+  it("should report responses that do not match their schema when validation is enabled", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({
+            id: "a03ea8b8",
+            fullname: "Jane Doe",
+            email: "jane@example.com",
+            props: { plugins: { ids: "all", data: {} } },
+          }),
+          { headers: { "Content-Type": "application/json" } }
+        )
+      )
+    );
+
+    const error = await assertRejects(
+      () =>
+        sendRequest(
+          { ...baseClientConfig, validate: true },
+          {
+            method: "POST",
+            path: "/api/rpc/command/get-profile",
+            headers: new Headers(),
+          }
+        ),
+      ApiSchemaError
+    );
+
+    assertEquals(error.command, "get-profile");
+    assertEquals(error.direction, "response");
+    assertEquals(error.issues, [
+      { path: "$.props.plugins.ids", message: "expected array, received a string" },
+    ]);
+  });
+
+  it("should not send requests that do not match their schema", async () => {
+    const error = await assertRejects(
+      () =>
+        sendRequest(
+          { ...baseClientConfig, validate: { requests: true } },
+          {
+            method: "POST",
+            path: "/api/rpc/command/get-file",
+            body: { projectId: "a03ea8b8" },
+            headers: new Headers(),
+          }
+        ),
+      ApiSchemaError
+    );
+
+    assertEquals(error.direction, "request");
+    assertEquals(error.issues, [
+      { path: "$.id", message: "required property is missing" },
+    ]);
+    assertEquals(fetchStub.calls.length, 0);
+  });
+
+  it("should return the body as a stream in streaming mode", async () => {
+    fetchStub.restore();
+    fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(
+        new Response(new Uint8Array([1, 2, 3]), {
+          headers: { "Content-Type": "application/octet-stream" },
+        })
+      )
+    );
+
+    const result = await sendRequest<ReadableStream<Uint8Array>>(
+      baseClientConfig,
+      {
+        method: "POST",
+        path: "/api/rpc/command/export-binfile",
+        headers: new Headers(),
+        stream: true,
+      }
+    );
+
+    assertInstanceOf(result, ReadableStream);
+    assertEquals(
+      new Uint8Array(await new Response(result).arrayBuffer()),
+      new Uint8Array([1, 2, 3])
+    );
+  });
+
+  it("should upload a streamed file as multipart form data", async () => {
+    const file = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode("penpot "));
+        controller.enqueue(new TextEncoder().encode("archive"));
+        controller.close();
+      },
+    });
+
+    await sendRequest(baseClientConfig, {
+      method: "POST",
+      path: "/api/rpc/command/import-binfile",
+      body: { projectId: "project-1", name: "Library", file },
+      headers: new Headers({ "Content-Type": "application/json" }),
+    });
+
+    const request = fetchStub.calls[0].args[0] as Request;
+    const form = await request.formData();
+    assertEquals(form.get("project-id"), "project-1");
+    assertEquals(form.get("name"), "Library");
+    const uploaded = form.get("file") as File;
+    assertEquals(uploaded.name, "Library");
+    assertEquals(await uploaded.text(), "penpot archive");
+  });
+
+  it("should not read a streamed upload before sending it when debug logging is enabled", async () => {
+    const path = await Deno.makeTempFile({ suffix: ".penpot" });
+    const logStub = stub(console, "log");
+    try {
+      // 20 chunks of 64 KiB, the chunk size of file streams.
+      await Deno.writeFile(path, new Uint8Array(20 * 64 * 1024).fill(1));
+      let reads = 0;
+      const file = (await openFileStream(path)).pipeThrough(
+        new TransformStream<Uint8Array, Uint8Array>({
+          transform(chunk, controller) {
+            reads++;
+            controller.enqueue(chunk);
+          },
+        })
+      );
+      let readsBeforeFetch = -1;
+      fetchStub.restore();
+      fetchStub = stub(globalThis, "fetch", async (input: RequestInfo | URL) => {
+        readsBeforeFetch = reads;
+        await (input as Request).arrayBuffer();
+        return new Response(null, { status: 204 });
+      });
+
+      await sendRequest({ ...baseClientConfig, debug: true }, {
+        method: "POST",
+        path: "/api/rpc/command/import-binfile",
+        body: { projectId: "project-1", name: "Library", file },
+        headers: new Headers({ "Content-Type": "application/json" }),
+      });
+
+      assertLess(readsBeforeFetch, 3);
+      assertEquals(reads, 20);
+    } finally {
+      logStub.restore();
+      await Deno.remove(path);
+    }
+  });
+
   it("should correctly apply custom middleware", async () => {
     fetchStub.restore();
     fetchStub = stub(globalThis, "fetch", () =>
@@ -0,0 +1,146 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { stub } from "jsr:@std/testing@1.0.14/mock";
+import { assertEquals, assertLess, assertRejects, assertThrows } from "jsr:@std/assert";
+import { RequestLimiter } from "../client/requestLimiter.ts";
+import { sendRequest } from "../client/_internals/request.ts";
+import { ApiAbortError } from "../client/errors.ts";
+
+describe("RequestLimiter", () => {
+  it("should queue requests beyond maxConcurrent until a slot is released", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2 });
+    const started: number[] = [];
+    const releases = [1, 2, 3].map((n) =>
+      limiter.acquire("get-file").then((release) => {
+        started.push(n);
+        return release;
+      })
+    );
+
+    const first = await releases[0];
+    await releases[1];
+    assertEquals(started, [1, 2]);
+    assertEquals(limiter.getStats().queued, 1);
+    assertEquals(limiter.getStats().active, 2);
+
+    first();
+    await releases[2];
+    assertEquals(started, [1, 2, 3]);
+    assertEquals(limiter.getStats().queued, 0);
+    assertEquals(limiter.getStats().started, 3);
+  });
+
+  it("should not let a throttled command block other commands", async () => {
+    const limiter = new RequestLimiter({
+      commands: { "export-binfile": { requestsPerSecond: 0.001 } },
+    });
+    await limiter.acquire("export-binfile");
+
+    const controller = new AbortController();
+    const throttled = limiter.acquire("export-binfile", controller.signal);
+    await limiter.acquire("get-file");
+    assertEquals(limiter.getStats().queued, 1);
+
+    controller.abort(new Error("cancelled"));
+    await assertRejects(() => throttled, Error, "cancelled");
+    assertEquals(limiter.getStats().queued, 0);
+  });
+
+  it("should share one limiter per base URL", () => {
+    const limiter = RequestLimiter.forBaseUrl("https://penpot.example", {
+      maxConcurrent: 1,
+    });
+    assertEquals(RequestLimiter.forBaseUrl("https://penpot.example/"), limiter);
+    assertEquals(
+      RequestLimiter.forBaseUrl("https://penpot.example", { maxConcurrent: 1 }),
+      limiter
+    );
+    assertThrows(
+      () => RequestLimiter.forBaseUrl("https://penpot.example", { maxConcurrent: 8 }),
+      Error,
+      "already exists with different options"
+    );
+  });
+
+  it("should reject limits that would make requests wait forever", () => {
+    for (const options of [
+      { requestsPerSecond: 0 },
+      { requestsPerSecond: -1 },
+      { requestsPerSecond: NaN },
+      { maxConcurrent: 0 },
+      { maxConcurrent: 1.5 },
+      { commands: { "export-binfile": { requestsPerSecond: 0 } } },
+    ]) {
+      assertThrows(() => new RequestLimiter(options), RangeError, "must be a positive");
+    }
+  });
+
+  it("should make sendRequest wait for a slot and honour its signal", async () => {
+    const fetchStub = stub(globalThis, "fetch", () =>
+      Promise.resolve(new Response(null, { status: 204 }))
+    );
+    try {
+      const limiter = new RequestLimiter({ maxConcurrent: 1 });
+      const config = { baseUrl: "https://penpot.example", accessToken: "", limiter };
+      const release = await limiter.acquire(undefined);
+
+      const controller = new AbortController();
+      const pending = sendRequest(config, {
+        method: "POST",
+        path: "/api/rpc/command/get-profile",
+        headers: new Headers(),
+        signal: controller.signal,
+      });
+      controller.abort();
+      await assertRejects(() => pending, ApiAbortError);
+      assertEquals(fetchStub.calls.length, 0);
+
+      release();
+      await sendRequest(config, {
+        method: "POST",
+        path: "/api/rpc/command/get-profile",
+        headers: new Headers(),
+      });
+      assertEquals(fetchStub.calls.length, 1);
+      assertEquals(limiter.getStats().active, 0);
+    } finally {
+      fetchStub.restore();
+    }
+  });
+
+  it("should take a rate token for each retry while keeping the slot of the request", async () => {
+    const sentAt: number[] = [];
+    const fetchStub = stub(globalThis, "fetch", () => {
+      sentAt.push(Date.now());
+      return Promise.resolve(new Response(null, { status: sentAt.length < 3 ? 503 : 204 }));
+    });
+    try {
+      // One token every 50ms for get-file, and a single slot that the retries must not wait for.
+      const limiter = new RequestLimiter({
+        maxConcurrent: 1,
+        commands: { "get-file": { requestsPerSecond: 20, burst: 1 } },
+      });
+      const config = {
+        baseUrl: "https://penpot.example",
+        accessToken: "",
+        limiter,
+        retry: { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 },
+      };
+
+      await sendRequest(config, {
+        method: "POST",
+        path: "/api/rpc/command/get-file",
+        headers: new Headers(),
+      });
+
+      assertEquals(fetchStub.calls.length, 3);
+      for (let i = 1; i < sentAt.length; i++) {
+        assertLess(40, sentAt[i] - sentAt[i - 1]);
+      }
+      assertEquals(limiter.getStats().started, 1);
+      assertEquals(limiter.getStats().active, 0);
+    } finally {
+      fetchStub.restore();
+    }
+  });
+});
@@ -0,0 +1,67 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { assertEquals } from "jsr:@std/assert";
+import {
+  type JsonSchema,
+  validateSchema,
+} from "../client/_internals/schema.ts";
+
+describe("validateSchema", () => {
+  const components: Record<string, JsonSchema> = {
+    uuid: { type: "string" },
+    page: {
+      type: "object",
+      properties: { id: { $ref: "#/components/schemas/uuid" }, name: {} },
+      required: ["id", "name"],
+    },
+  };
+  const file: JsonSchema = {
+    type: "object",
+    properties: {
+      id: { $ref: "#/components/schemas/uuid" },
+      pages: { type: "array", items: { $ref: "#/components/schemas/page" } },
+      revn: { oneOf: [{ type: "integer" }, { type: "null" }] },
+    },
+    required: ["id"],
+  };
+
+  it("should accept a matching value, including sets decoded from transit", () => {
+    const issues = validateSchema(
+      { id: "a", pages: new Set([{ id: "b", name: "Page 1" }]), revn: null },
+      file,
+      components
+    );
+
+    assertEquals(issues, []);
+  });
+
+  it("should report every mismatch with its path", () => {
+    const issues = validateSchema(
+      { pages: [{ id: 1, name: "Page 1" }, { id: "c" }], revn: "3" },
+      file,
+      components
+    );
+
+    assertEquals(issues, [
+      { path: "$.id", message: "required property is missing" },
+      { path: "$.pages[0].id", message: "expected string, received a number" },
+      { path: "$.pages[1].name", message: "required property is missing" },
+      { path: "$.revn", message: "expected integer, received a string" },
+    ]);
+  });
+
+  it("should use bracket notation for keys that are not identifiers", () => {
+    const issues = validateSchema(
+      { "a03ea8b8-fc8a-8124-8006-7c45ed7029cf": 1 },
+      { type: "object", additionalProperties: { type: "string" } },
+      {}
+    );
+
+    assertEquals(issues, [
+      {
+        path: '$["a03ea8b8-fc8a-8124-8006-7c45ed7029cf"]',
+        message: "expected string, received a number",
+      },
+    ]);
+  });
+});
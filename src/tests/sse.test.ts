@@ -1,7 +1,10 @@
 /// <reference lib="deno.ns" />
 import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
 import { assertEquals, assertRejects } from "jsr:@std/assert";
-import { handleSseResponse } from "../client/_internals/sse.ts";
+import {
+  handleSseResponse,
+  type SseProgressEvent,
+} from "../client/_internals/sse.ts";
 import { ApiClientError } from "../client/errors.ts";
 
 function createMockSseResponse(streamContent: string): Response {
@@ -17,7 +20,7 @@ function createMockSseResponse(streamContent: string): Response {
 }
 
 describe("handleSseResponse", () => {
-  it("should correctly parse a valid stream and extract the fileId", async () => {
+  it("should correctly parse a valid stream and decode the 'end' payload", async () => {
     const mockStream = `
 event: progress
 data: {"~:section":"~:manifest"}
@@ -30,8 +33,8 @@ data: ["~ua03ea8b8-fc8a-8124-8006-7c45ed7029cf"]
 
 `;
     const response = createMockSseResponse(mockStream);
-    const result = await handleSseResponse<{ fileId: string }>(response);
-    assertEquals(result, { fileId: "a03ea8b8-fc8a-8124-8006-7c45ed7029cf" });
+    const result = await handleSseResponse<string[]>(response);
+    assertEquals(result, ["a03ea8b8-fc8a-8124-8006-7c45ed7029cf"]);
   });
 
   it("should reject if the stream ends without an 'end' event", async () => {
@@ -43,7 +46,7 @@ data: {"~:section":"~:manifest"}
     await assertRejects(
       () => handleSseResponse(response),
       ApiClientError,
-      "SSE stream ended unexpectedly without a valid 'end' event containing the file ID."
+      "SSE stream ended unexpectedly without an 'end' event."
     );
   });
 
@@ -51,6 +54,7 @@ data: {"~:section":"~:manifest"}
     const mockStream = `
 event: end
 data: this is not json
+
 `;
     const response = createMockSseResponse(mockStream);
     await assertRejects(
@@ -60,16 +64,26 @@ data: this is not json
     );
   });
 
-  it("should reject if the 'end' event data is not in the expected format", async () => {
+  it("should decode any 'end' payload, or reject if the custom decoder throws", async () => {
     const mockStream = `
 event: end
 data: {"someOtherKey": "someValue"}
+
 `;
-    const response = createMockSseResponse(mockStream);
+    assertEquals(
+      await handleSseResponse(createMockSseResponse(mockStream)),
+      { someOtherKey: "someValue" }
+    );
+
     await assertRejects(
-      () => handleSseResponse(response),
+      () =>
+        handleSseResponse(createMockSseResponse(mockStream), {
+          decode: (data) => {
+            throw new TypeError(`Expected a list of ids: ${data}`);
+          },
+        }),
       ApiClientError,
-      'Unexpected SSE \'end\' event data format: {"someOtherKey": "someValue"}'
+      'Failed to parse SSE \'end\' event data: {"someOtherKey": "someValue"}'
     );
   });
 
@@ -82,6 +96,7 @@ data: {"someOtherKey": "someValue"}
     const mockStream = `
 event: error
 data: ${JSON.stringify(errorPayload)}
+
 `;
     const response = createMockSseResponse(mockStream);
 
@@ -92,4 +107,57 @@ data: ${JSON.stringify(errorPayload)}
     );
     assertEquals((error as ApiClientError).cause, errorPayload);
   });
+
+  it("should pass progress events to the onProgress callback", async () => {
+    const mockStream = `
+event: progress
+data: {"~:section":"~:manifest"}
+
+event: progress
+data: ["^ ","~:section","~:file","~:name","New File 9","~:index",0,"~:total",2]
+
+event: progress
+data: not transit
+
+event: end
+data: ["~ua03ea8b8-fc8a-8124-8006-7c45ed7029cf"]
+
+`;
+    const events: SseProgressEvent[] = [];
+    const result = await handleSseResponse(createMockSseResponse(mockStream), {
+      onProgress: (event) => events.push(event),
+    });
+
+    assertEquals(result, ["a03ea8b8-fc8a-8124-8006-7c45ed7029cf"]);
+    assertEquals(events, [
+      { section: "manifest", data: { section: "manifest" } },
+      {
+        section: "file",
+        name: "New File 9",
+        index: 0,
+        total: 2,
+        data: { section: "file", name: "New File 9", index: 0, total: 2 },
+      },
+    ]);
+  });
+
+  it("should reject if the onProgress callback throws", async () => {
+    const mockStream = `
+event: progress
+data: {"~:section":"~:manifest"}
+
+`;
+    const failure = new Error("progress bar crashed");
+    const error = await assertRejects(
+      () =>
+        handleSseResponse(createMockSseResponse(mockStream), {
+          onProgress: () => {
+            throw failure;
+          },
+        }),
+      ApiClientError,
+      "`onProgress` callback error"
+    );
+    assertEquals((error as ApiClientError).cause, failure);
+  });
 });
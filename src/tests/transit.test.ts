@@ -0,0 +1,60 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { assertEquals } from "jsr:@std/assert";
+import {
+  decodeTransit,
+  encodeTransit,
+  Keyword,
+} from "../client/_internals/transit.ts";
+
+describe("encodeTransit", () => {
+  const fileId = "a03ea8b8-fc8a-8124-8006-7c45ed7029cf";
+  const shapeId = "a03ea8b8-fc8a-8124-8006-78afc3fac2fa";
+
+  it("should encode keywords, UUIDs, instants and sets", () => {
+    const text = encodeTransit({
+      "file-id": fileId,
+      features: new Set(["layout/grid"]),
+      "modified-at": new Date(1714557600000),
+      name: "~draft",
+    });
+
+    assertEquals(
+      text,
+      `["^ ","~:file-id","~u${fileId}","~:features",["~#set",["layout/grid"]],"~:modified-at","~m1714557600000","~:name","~~draft"]`
+    );
+  });
+
+  it("should round-trip file data through decodeTransit", () => {
+    const data = {
+      id: fileId,
+      features: new Set(["components/v2", "layout/grid"]),
+      objects: { [shapeId]: { name: "Rectangle", x: 10.5, hidden: false } },
+      "created-at": new Date(1714557600000),
+      tags: ["^", "`quoted"],
+    };
+
+    assertEquals(decodeTransit(encodeTransit(data)), data);
+  });
+
+  it("should quote top-level scalars and omit undefined fields", () => {
+    assertEquals(encodeTransit(fileId), `["~#'","~u${fileId}"]`);
+    assertEquals(encodeTransit({ name: "File", projectId: undefined }), '["^ ","~:name","File"]');
+    assertEquals(decodeTransit(encodeTransit(42)), 42);
+  });
+
+  it("should re-encode documents decoded with keywords unchanged", () => {
+    const text = '["^ ","~:type","~:rect","~:data",["^ ","font/ttf","~bAAEAAA=="],"~:objects",["^ ","~u' + shapeId + '",["^ ","~:name","rect"]]]';
+    const decoded = decodeTransit(text, { keywords: true });
+
+    assertEquals(decoded, {
+      type: new Keyword("rect"),
+      data: new Map([["font/ttf", new Uint8Array([0, 1, 0, 0])]]),
+      objects: { [shapeId]: { name: "rect" } },
+    });
+    assertEquals(encodeTransit(decoded), text);
+
+    // Without the option, keywords are plain strings.
+    assertEquals((decodeTransit(text) as { type: unknown }).type, "rect");
+  });
+});
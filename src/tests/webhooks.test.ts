@@ -0,0 +1,139 @@
+/// <reference lib="deno.ns" />
+import { describe, it } from "jsr:@std/testing@1.0.14/bdd";
+import { assertEquals, assertRejects } from "jsr:@std/assert";
+import {
+  createWebhookHandler,
+  parseWebhookRequest,
+  type WebhookEvent,
+} from "../client/webhookReceiver.ts";
+import { ApiClientError } from "../client/errors.ts";
+
+function createWebhookRequest(body: string, contentType: string): Request {
+  return new Request("http://localhost:8787/penpot", {
+    method: "POST",
+    headers: { "Content-Type": contentType },
+    body,
+  });
+}
+
+describe("parseWebhookRequest", () => {
+  it("should parse a JSON webhook payload", async () => {
+    const request = createWebhookRequest(
+      JSON.stringify({
+        name: "rename-file",
+        type: "command",
+        props: { id: "file-1", name: "Renamed" },
+        profileId: "user-1",
+        trackedAt: "2024-05-01T10:00:00.000Z",
+      }),
+      "application/json"
+    );
+
+    const event = await parseWebhookRequest(request);
+
+    assertEquals(event.name, "rename-file");
+    assertEquals(event.type, "command");
+    assertEquals(event.props, { id: "file-1", name: "Renamed" });
+    assertEquals(event.profileId, "user-1");
+    assertEquals(event.trackedAt, new Date("2024-05-01T10:00:00.000Z"));
+  });
+
+  it("should parse a transit webhook payload", async () => {
+    const request = createWebhookRequest(
+      '["^ ","~:name","update-file","~:type","command","~:props",["^ ","~:id","~ua03ea8b8-fc8a-8124-8006-7c45ed7029cf"],"~:profile-id","~ua03ea8b8-fc8a-8124-8006-78afc4663290","~:tracked-at","~m1714557600000"]',
+      "application/transit+json"
+    );
+
+    const event = await parseWebhookRequest(request);
+
+    assertEquals(event.name, "update-file");
+    assertEquals(event.props, { id: "a03ea8b8-fc8a-8124-8006-7c45ed7029cf" });
+    assertEquals(event.profileId, "a03ea8b8-fc8a-8124-8006-78afc4663290");
+    assertEquals(event.trackedAt, new Date(1714557600000));
+  });
+
+  it("should convert the kebab-case keys of transit props to camelCase", async () => {
+    const fileId = "a03ea8b8-fc8a-8124-8006-7c45ed7029cf";
+    const request = createWebhookRequest(
+      `["^ ","~:name","create-comment-thread","~:props",["^ ","~:file-id","~u${fileId}","~:position",["^ ","~:frame-id","~u${fileId}"]]]`,
+      "application/transit+json"
+    );
+
+    const event = await parseWebhookRequest(request);
+
+    assertEquals(event.props, { fileId, position: { frameId: fileId } });
+    assertEquals((event.raw as { props: unknown }).props, { "file-id": fileId, position: { "frame-id": fileId } });
+  });
+
+  it("should reject unsupported content types", async () => {
+    await assertRejects(
+      () => parseWebhookRequest(createWebhookRequest("name=x", "text/plain")),
+      ApiClientError,
+      "Unsupported webhook content type: text/plain"
+    );
+  });
+});
+
+describe("createWebhookHandler", () => {
+  it("should deliver parsed events and answer 204", async () => {
+    const received: WebhookEvent[] = [];
+    const handler = createWebhookHandler({
+      onEvent: (event) => {
+        received.push(event);
+      },
+    });
+
+    const response = await handler(
+      createWebhookRequest('{"name":"create-file","props":{}}', "application/json")
+    );
+
+    assertEquals(response.status, 204);
+    assertEquals(received.length, 1);
+    assertEquals(received[0].name, "create-file");
+  });
+
+  it("should skip events that are not in the filter", async () => {
+    const received: WebhookEvent[] = [];
+    const handler = createWebhookHandler({
+      events: ["delete-file"],
+      onEvent: (event) => {
+        received.push(event);
+      },
+    });
+
+    const response = await handler(
+      createWebhookRequest('{"name":"create-file","props":{}}', "application/json")
+    );
+
+    assertEquals(response.status, 204);
+    assertEquals(received.length, 0);
+  });
+
+  it("should answer 400 for malformed bodies and 405 for other methods", async () => {
+    const handler = createWebhookHandler({ onEvent: () => {} });
+
+    const badBody = await handler(
+      createWebhookRequest("not json", "application/json")
+    );
+    const badMethod = await handler(
+      new Request("http://localhost:8787/penpot", { method: "GET" })
+    );
+
+    assertEquals(badBody.status, 400);
+    assertEquals(badMethod.status, 405);
+  });
+
+  it("should answer 500 when the event callback throws", async () => {
+    const handler = createWebhookHandler({
+      onEvent: () => {
+        throw new Error("boom");
+      },
+    });
+
+    const response = await handler(
+      createWebhookRequest('{"name":"create-file","props":{}}', "application/json")
+    );
+
+    assertEquals(response.status, 500);
+  });
+});
@@ -151,3 +151,207 @@ export type UserProfile =
  */
 export type Permissions =
   components["schemas"]["appRpcPermissions$permissions"];
+
+/**
+ * Represents a Penpot project, the container that groups files inside a team.
+ * This type is returned by the project listing and creation commands of {@link ProjectsApi}.
+ * @typedef {import("./client/services/projects.ts").Project} Project
+ * @example
+ * ```ts
+ * import type { Project } from "@ajsb85/penpot-api-client/types";
+ *
+ * const drafts: Project = {
+ * id: "a03ea8b8-fc8a-8124-8006-78afc4663291",
+ * teamId: "a03ea8b8-fc8a-8124-8006-78afc4663290",
+ * name: "Drafts",
+ * isDefault: true,
+ * isPinned: false,
+ * count: 4
+ * };
+ * ```
+ */
+export type { Project } from "./client/services/projects.ts";
+
+/**
+ * Re-exports the team-related types used by {@link TeamsApi}.
+ * These describe teams, their members, pending invitations, usage statistics
+ * and the roles a member can hold (`"owner" | "admin" | "editor" | "viewer"`).
+ * @example
+ * ```ts
+ * import type { TeamMember, TeamRole } from "@ajsb85/penpot-api-client/types";
+ *
+ * const promote = (member: TeamMember): TeamRole => (member.isAdmin ? "admin" : "editor");
+ * ```
+ */
+export type {
+  Team,
+  TeamInvitation,
+  TeamMember,
+  TeamRole,
+  TeamStats,
+} from "./client/services/teams.ts";
+
+/**
+ * Re-exports the comment-related types used by {@link CommentsApi}.
+ * `CommentThreadDetails` is the joined view returned by `CommentsApi.getThreadWithComments`.
+ * @example
+ * ```ts
+ * import type { CommentThreadDetails } from "@ajsb85/penpot-api-client/types";
+ *
+ * const summarize = ({ thread, comments }: CommentThreadDetails) =>
+ * `#${thread.seqn}: ${comments.length} comments, ${thread.isResolved ? "resolved" : "open"}`;
+ * ```
+ */
+export type {
+  Comment,
+  CommentAuthor,
+  CommentThread,
+  CommentThreadDetails,
+} from "./client/services/comments.ts";
+
+/**
+ * Re-exports the webhook types used by {@link WebhooksApi}.
+ * `WebhookMimeType` selects whether Penpot delivers events as JSON or transit+json.
+ * @example
+ * ```ts
+ * import type { Webhook } from "@ajsb85/penpot-api-client/types";
+ *
+ * const isFailing = (webhook: Webhook) => !webhook.isActive && (webhook.errorCount ?? 0) > 0;
+ * ```
+ */
+export type { Webhook, WebhookMimeType } from "./client/services/webhooks.ts";
+
+/**
+ * Re-exports the font types used by {@link FontsApi}.
+ * `FontMetadata` is what `FontsApi.uploadFontVariant` reads from a font file's `name` and `OS/2` tables.
+ * @example
+ * ```ts
+ * import type { FontVariant } from "@ajsb85/penpot-api-client/types";
+ *
+ * const label = (v: FontVariant) => `${v.fontFamily} ${v.fontWeight}${v.fontStyle === "italic" ? " Italic" : ""}`;
+ * ```
+ */
+export type {
+  FontVariant,
+  UploadFontVariantParams,
+} from "./client/services/fonts.ts";
+export type {
+  FontMetadata,
+  FontMimeType,
+} from "./client/_internals/fontMetadata.ts";
+
+/**
+ * Re-exports the access token types used by {@link AccessTokensApi}.
+ * `RotatedAccessToken` is returned by `AccessTokensApi.rotateAccessToken` and carries a client bound to the new token.
+ * @example
+ * ```ts
+ * import type { AccessToken } from "@ajsb85/penpot-api-client/types";
+ *
+ * const neverExpires = (token: AccessToken) => !token.expiresAt;
+ * ```
+ */
+export type {
+  AccessToken,
+  RotateAccessTokenParams,
+  RotatedAccessToken,
+} from "./client/services/accessTokens.ts";
+
+/**
+ * Re-exports the login types used by {@link AuthApi} and {@link PenpotClient.fromCredentials}.
+ * `AuthSession.token` is the `auth-token` session cookie and can be used wherever an access token is expected.
+ * @example
+ * ```ts
+ * import type { LoginCredentials } from "@ajsb85/penpot-api-client/types";
+ *
+ * const credentials: LoginCredentials = { email: "ada", password: "secret", method: "ldap" };
+ * ```
+ */
+export type {
+  AuthSession,
+  LoginCredentials,
+  LoginParams,
+} from "./client/services/auth.ts";
+
+/**
+ * Re-exports the profile types used by {@link ProfileApi}.
+ * `ProfileNotifications` lists the accepted levels for each notification channel.
+ * @example
+ * ```ts
+ * import type { ProfileNotifications } from "@ajsb85/penpot-api-client/types";
+ *
+ * const quiet: ProfileNotifications = { dashboardComments: "partial", emailComments: "none", emailInvites: "none" };
+ * ```
+ */
+export type {
+  NotificationLevel,
+  PrepareRegisterProfileParams,
+  ProfileNotifications,
+  RegistrationToken,
+} from "./client/services/profile.ts";
+
+/**
+ * Re-exports the {@link FileSnapshot} type used by the version history methods of {@link FilesApi}.
+ * @example
+ * ```ts
+ * import type { FileSnapshot } from "@ajsb85/penpot-api-client/types";
+ *
+ * const userSnapshots = (snapshots: FileSnapshot[]) => snapshots.filter((s) => s.createdBy === "user");
+ * ```
+ */
+export type { FileSnapshot } from "./client/services/files.ts";
+
+/**
+ * Re-exports the shared library types used by {@link LibrariesApi}.
+ * `LibraryDependencyGraph` is returned by `LibrariesApi.getLibraryDependencyGraph`.
+ * @example
+ * ```ts
+ * import type { LibraryDependencyGraph } from "@ajsb85/penpot-api-client/types";
+ *
+ * const unused = (graph: LibraryDependencyGraph) => graph.libraries.filter((l) => graph.dependents[l.id].length === 0);
+ * ```
+ */
+export type {
+  LibraryDependencyGraph,
+  LibraryFileReference,
+  SharedLibrary,
+} from "./client/services/libraries.ts";
+
+/**
+ * Re-exports the file metadata types returned by `FilesApi.getFileInfo` and `FilesApi.getFileSummary`.
+ * @example
+ * ```ts
+ * import type { FileSummary } from "@ajsb85/penpot-api-client/types";
+ *
+ * const isEmptyLibrary = (s: FileSummary) => s.components.count + s.colors.count + s.typographies.count === 0;
+ * ```
+ */
+export type {
+  FileInfo,
+  FileSummary,
+  FileSummarySection,
+} from "./client/services/files.ts";
+
+/**
+ * Re-exports the {@link ImportFileResult} type returned by `FilesApi.importFile`.
+ * @example
+ * ```ts
+ * import type { ImportFileResult } from "@ajsb85/penpot-api-client/types";
+ *
+ * const describeImport = (r: ImportFileResult) => `${r.fileIds.length} file(s) imported`;
+ * ```
+ */
+export type { ImportFileResult } from "./client/services/files.ts";
+
+/**
+ * Re-exports the option types of `FilesApi.exportFile`.
+ * @example
+ * ```ts
+ * import type { ExportFileOptions } from "@ajsb85/penpot-api-client/types";
+ *
+ * const backupOptions: ExportFileOptions = { embedAssets: true, version: 3 };
+ * ```
+ */
+export type {
+  ExportFileOptions,
+  ExportFileParams,
+} from "./client/services/files.ts";